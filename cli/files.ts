@@ -0,0 +1,128 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { IMAGE_FILE_EXTENSIONS } from '../src/services/MetadataService';
+
+// Characters that make an argument a glob pattern
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Converts a glob pattern to a regular expression over "/"-separated paths
+ *
+ * Supports "*" and "?" within a path segment, "**" across segments,
+ * [abc] character classes and {a,b} alternatives.
+ *
+ * @param pattern - Glob pattern
+ * @returns Anchored regular expression
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      source += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Lists all files below a directory
+ *
+ * @param directory - Directory to walk
+ * @param depth - Number of directory levels to read, 1 being only the directory itself
+ * @returns File paths, sorted for stable output
+ */
+const walk = async (directory: string, depth = Infinity): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async (entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return depth > 1 ? walk(entryPath, depth - 1) : [];
+    return entry.isFile() ? [entryPath] : [];
+  }));
+  return files.flat().sort();
+};
+
+/**
+ * Expands a glob pattern against the file system
+ *
+ * The walk starts at the longest leading part of the pattern without glob
+ * characters and only descends as deep as the pattern reaches, so
+ * "photos/2024/*.jpg" only reads "photos/2024".
+ *
+ * @param pattern - Glob pattern, with "/" or the platform separator
+ * @returns Matching file paths
+ */
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || (pattern.startsWith('/') ? '/' : '.');
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join('/'));
+  const depth = rest.some((segment) => segment.includes('**')) ? Infinity : rest.length;
+
+  const files = await walk(base, depth).catch(() => []);
+  return files.filter((file) => matcher.test(path.relative(base, file).split(path.sep).join('/')));
+};
+
+/**
+ * Resolves command-line arguments to the image files to parse
+ *
+ * Files are used as given, directories are searched recursively for images
+ * and arguments containing glob characters are expanded, for shells that do
+ * not expand them (or when the pattern is quoted).
+ *
+ * @param inputs - File, directory and glob arguments
+ * @returns De-duplicated file paths in argument order, and arguments that matched nothing
+ */
+export const resolveInputs = async (inputs: string[]): Promise<{ files: string[]; unmatched: string[] }> => {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    let matches: string[];
+
+    if (info?.isFile()) {
+      matches = [input];
+    } else if (info?.isDirectory()) {
+      matches = (await walk(input)).filter((file) => IMAGE_FILE_EXTENSIONS.test(file));
+    } else if (GLOB_CHARS.test(input)) {
+      matches = await expandGlob(input);
+    } else {
+      matches = [];
+    }
+
+    if (matches.length === 0) unmatched.push(input);
+    matches.forEach((file) => files.add(file));
+  }
+
+  return { files: Array.from(files), unmatched };
+};
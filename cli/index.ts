@@ -0,0 +1,266 @@
+/**
+ * Command-line tool that parses image metadata with the same services as the web app
+ *
+ * Files are read through MetadataService exactly as in the browser, so the
+ * cleaned fields, GPS coordinates and raw tags match what the UI shows.
+ * Node has no DOMParser, so xmldom is supplied for XMP parsing.
+ *
+ * Exit codes: 0 when every file was parsed, 1 when at least one file failed
+ * or an argument matched nothing, 2 for invalid arguments or when no files
+ * matched at all.
+ */
+
+import * as fs from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { DOMParser, onErrorStopParsing } from '@xmldom/xmldom';
+import { MetadataService, ParseOptions } from '../src/services/MetadataService';
+import { GeocodingService } from '../src/services/GeocodingService';
+import { MetadataModel, MetadataData, CleanedData } from '../src/services/MetadataModel';
+import { ExportService, ExportEntry, ExportView } from '../src/services/ExportService';
+import { resolveInputs } from './files';
+
+/**
+ * Output formats supported on stdout
+ */
+type OutputFormat = 'json' | 'ndjson' | 'csv';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'ndjson', 'csv'];
+
+const USAGE = `Usage: exif-parser [options] <files|directories|globs...>
+
+Prints the metadata of images as JSON, NDJSON or CSV.
+
+Options:
+  -f, --format <format>  Output format: json (default), ndjson or csv
+      --cleaned          Output the display-ready fields shown in the app (default)
+      --raw              Output the raw tags as read from the file
+                         (JSON and NDJSON accept both --cleaned and --raw)
+  -F, --fields <list>    Only output matching fields; comma-separated names,
+                         "group:Name" or "*" wildcards; may be repeated
+  -h, --help             Show this help
+
+Directories are searched recursively for images. Quoted globs such as
+"photos/**/*.jpg" are expanded by the tool.
+
+Exit codes: 0 on success, 1 if any file failed to parse or an argument
+matched nothing, 2 for invalid arguments or when no files matched at all.`;
+
+/**
+ * Error in the command-line arguments
+ */
+class UsageError extends Error {}
+
+/**
+ * Parsed command-line options
+ */
+interface CliOptions {
+  format: OutputFormat;
+  views: ExportView[];  // Representations to output, in output order
+  fields: string[];     // Field patterns; empty for all fields
+  inputs: string[];     // File, directory and glob arguments
+}
+
+/**
+ * Parses the command-line arguments
+ *
+ * @param args - Arguments after the script name
+ * @returns Options, or null when help was requested
+ * @throws UsageError for unknown options or invalid values
+ */
+const parseOptions = (args: string[]): CliOptions | null => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'json' },
+        cleaned: { type: 'boolean', default: false },
+        raw: { type: 'boolean', default: false },
+        fields: { type: 'string', short: 'F', multiple: true, default: [] },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format "${values.format}"; expected ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const views: ExportView[] = values.raw && !values.cleaned ? ['raw'] : values.raw ? ['cleaned', 'raw'] : ['cleaned'];
+  if (format === 'csv' && views.length > 1) {
+    throw new UsageError('CSV output takes either --cleaned or --raw, not both');
+  }
+
+  if (positionals.length === 0) {
+    throw new UsageError('No input files given');
+  }
+
+  return {
+    format,
+    views,
+    fields: values.fields.flatMap((list) => list.split(',')).map((field) => field.trim()).filter(Boolean),
+    inputs: positionals
+  };
+};
+
+/**
+ * Builds a predicate for the --fields patterns
+ *
+ * Patterns are matched case-insensitively against each of the names given
+ * to the predicate; "*" matches any run of characters.
+ *
+ * @param patterns - Field patterns
+ * @returns Predicate, or null to keep every field
+ */
+const createFieldMatcher = (patterns: string[]): ((...names: string[]) => boolean) | null => {
+  if (patterns.length === 0) return null;
+
+  const regexes = patterns.map((pattern) =>
+    new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+  );
+  return (...names) => names.some((name) => regexes.some((regex) => regex.test(name)));
+};
+
+/**
+ * Keeps only the fields and tags selected with --fields
+ *
+ * Cleaned fields match on their key, tag name or "group:Name"; raw tags on
+ * their name or "group:Name".
+ *
+ * @param metadata - Parsed metadata
+ * @param matches - Field predicate
+ * @returns Metadata with the remaining fields
+ */
+const filterMetadata = (metadata: MetadataModel, matches: (...names: string[]) => boolean): MetadataModel => {
+  const cleanedData: CleanedData = Object.fromEntries(
+    Object.entries(metadata.cleaned).filter(([key, field]) => matches(key, field.name, `${field.group}:${field.name}`))
+  );
+
+  const rawData: MetadataData = {};
+  for (const [group, tags] of Object.entries(metadata.raw) as Array<[keyof MetadataData, MetadataData[keyof MetadataData]]>) {
+    const kept = Object.entries(tags ?? {}).filter(([name]) => matches(name, `${group}:${name}`));
+    if (kept.length > 0) rawData[group] = Object.fromEntries(kept);
+  }
+
+  return new MetadataModel({ rawData, cleanedData, diagnostics: metadata.diagnostics });
+};
+
+/**
+ * Parses one image file from disk
+ *
+ * Uses a file-backed Blob where available so only the metadata segments are
+ * read, falling back to reading the whole file on Node versions without
+ * fs.openAsBlob.
+ *
+ * @param filePath - Path of the image
+ * @param options - Parsing options
+ * @returns Parsed metadata
+ */
+const parseFile = async (filePath: string, options: ParseOptions): Promise<MetadataModel> => {
+  const parsed = 'openAsBlob' in fs
+    ? await MetadataService.parseMetadata(await fs.openAsBlob(filePath), options)
+    : await GeocodingService.addPlace(MetadataService.parseBuffer(await readFile(filePath), options));
+  return new MetadataModel(parsed);
+};
+
+/**
+ * Converts a parsed file to its JSON/NDJSON record
+ *
+ * @param entry - Parsed file
+ * @param views - Representations to include
+ * @returns Record with the file path, the requested views, any parse diagnostics and any error
+ */
+const toRecord = ({ path, metadata, error }: ExportEntry, views: ExportView[]): object => ({
+  file: path,
+  ...(metadata && Object.fromEntries(views.map((view) => [view, ExportService.toObject(metadata, view)]))),
+  ...(metadata && metadata.diagnostics.length > 0 && { diagnostics: metadata.diagnostics }),
+  ...(error !== undefined && { error })
+});
+
+/**
+ * Runs the command-line tool
+ *
+ * @param args - Arguments after the script name
+ * @returns Exit code
+ */
+const main = async (args: string[]): Promise<number> => {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    process.stderr.write(`exif-parser: ${err.message}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const { files, unmatched } = await resolveInputs(options.inputs);
+  unmatched.forEach((input) => process.stderr.write(`exif-parser: ${input}: no matching files\n`));
+  if (files.length === 0) return 2;
+
+  const readerOptions: ParseOptions = { domParser: new DOMParser({ onError: onErrorStopParsing }) };
+  const matches = createFieldMatcher(options.fields);
+  const entries: ExportEntry[] = [];
+  let failed = unmatched.length > 0;
+
+  // JSON and NDJSON are written as each file is parsed; CSV needs every column first
+  if (options.format === 'json') process.stdout.write('[');
+
+  for (const [index, filePath] of files.entries()) {
+    let entry: ExportEntry;
+    try {
+      const metadata = await parseFile(filePath, readerOptions);
+      entry = { path: filePath, metadata: matches ? filterMetadata(metadata, matches) : metadata };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to parse metadata';
+      process.stderr.write(`exif-parser: ${filePath}: ${message}\n`);
+      entry = { path: filePath, error: message };
+      failed = true;
+    }
+
+    if (options.format === 'json') {
+      const json = JSON.stringify(toRecord(entry, options.views), null, 2).replace(/\n/g, '\n  ');
+      process.stdout.write(`${index === 0 ? '' : ','}\n  ${json}`);
+    } else if (options.format === 'ndjson') {
+      process.stdout.write(`${JSON.stringify(toRecord(entry, options.views))}\n`);
+    } else {
+      entries.push(entry);
+    }
+  }
+
+  if (options.format === 'json') {
+    process.stdout.write('\n]\n');
+  } else if (options.format === 'csv') {
+    process.stdout.write(ExportService.toBatchCsv(entries, options.views[0]));
+  }
+
+  return failed ? 1 : 0;
+};
+
+// Stop quietly when the reader of the output goes away (e.g. piped into head)
+process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+  if (err.code !== 'EPIPE') throw err;
+  process.exit(process.exitCode ?? 0);
+});
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(`exif-parser: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exitCode = 1;
+  }
+);
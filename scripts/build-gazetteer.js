@@ -0,0 +1,70 @@
+/**
+ * Builds the compact offline gazetteer used for reverse geocoding
+ *
+ * Reads the GeoNames extracts shipped in the cities-with-1000 (places) and
+ * cities.json (region names) packages and writes src/data/gazetteer.json.
+ * Only places with at least MIN_POPULATION inhabitants, capitals and region
+ * seats are kept, which keeps the file small while every populated area
+ * still has a match within a few kilometres.
+ *
+ * Run with "npm run build:gazetteer" after updating either package.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+const { file: citiesFile, fields } = require('cities-with-1000');
+const admin1 = require('cities.json/admin1.json');
+
+const MIN_POPULATION = 5000;
+
+// Capitals and first-level administrative seats are kept whatever their size
+const SEAT_FEATURES = new Set(['PPLC', 'PPLA']);
+
+// Neighbourhoods and abandoned, destroyed or historical places are never a useful answer
+const SKIPPED_FEATURES = new Set(['PPLX', 'PPLH', 'PPLQ', 'PPLW']);
+
+// Coordinates are stored as integers in thousandths of a degree (about 110 m)
+const COORDINATE_SCALE = 1000;
+
+const column = (name) => fields.indexOf(name);
+const NAME = column('name');
+const LAT = column('lat');
+const LON = column('lon');
+const FEATURE = column('featureCode');
+const COUNTRY = column('country');
+const ADMIN = column('adminCode');
+const POPULATION = column('population');
+
+const places = readFileSync(citiesFile, 'utf8')
+  .split('\n')
+  .filter(Boolean)
+  .map((line) => line.split('\t'))
+  .filter((row) => !SKIPPED_FEATURES.has(row[FEATURE]))
+  .filter((row) => Number(row[POPULATION]) >= MIN_POPULATION || SEAT_FEATURES.has(row[FEATURE]))
+  // Group places of one country together so the file compresses well
+  .sort((a, b) => a[COUNTRY].localeCompare(b[COUNTRY]) || a[NAME].localeCompare(b[NAME]));
+
+const regionNames = new Map(admin1.map(({ code, name }) => [code, name]));
+const regions = {};
+places.forEach((row) => {
+  const code = `${row[COUNTRY]}.${row[ADMIN]}`;
+  if (row[ADMIN] && regionNames.has(code)) regions[code] = regionNames.get(code);
+});
+
+const gazetteer = {
+  source: `GeoNames (https://www.geonames.org), CC BY 4.0; places with at least ${MIN_POPULATION} inhabitants, capitals and region seats`,
+  regions,
+  names: places.map((row) => row[NAME]),
+  countries: places.map((row) => row[COUNTRY]),
+  regionCodes: places.map((row) => row[ADMIN]),
+  coordinates: places.flatMap((row) => [
+    Math.round(Number(row[LAT]) * COORDINATE_SCALE),
+    Math.round(Number(row[LON]) * COORDINATE_SCALE)
+  ])
+};
+
+const output = new URL('../src/data/gazetteer.json', import.meta.url);
+writeFileSync(output, JSON.stringify(gazetteer));
+console.log(`Wrote ${places.length} places and ${Object.keys(regions).length} regions to ${output.pathname}`);
@@ -1,12 +1,31 @@
-import React, { useState, useCallback } from 'react';
-import { Image } from 'lucide-react';
-import { MetadataService, MetadataData, CleanedData } from './services/MetadataService';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Image, Search, GitCompare } from 'lucide-react';
+import { MetadataModel } from './services/MetadataModel';
+import { MetadataWorkerClient, ParseProgress } from './services/MetadataWorkerClient';
 import { FileUpload } from './components/FileUpload';
 import { ImagePreview } from './components/ImagePreview';
 import { NavigationMenu } from './components/NavigationMenu';
 import { DataDisplay } from './components/DataDisplay';
 import { LoadingState } from './components/LoadingState';
 import { ErrorState } from './components/ErrorState';
+import { SanitizePanel } from './components/SanitizePanel';
+import { MetadataEditor } from './components/MetadataEditor';
+import { PrivacyReportCard } from './components/PrivacyReportCard';
+import { ForensicPanel } from './components/ForensicPanel';
+import { BatchResultsTable } from './components/BatchResultsTable';
+import { BatchService, BatchItem } from './services/BatchService';
+import { CompareView } from './components/CompareView';
+import { MetadataEditService, MetadataEdits } from './services/MetadataEditService';
+import { GeoPoint } from './services/MapProviderService';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ReportPanel } from './components/ReportPanel';
+import { HistoryService, HistoryEntry } from './services/HistoryService';
+import { PreviewService, PreviewAnalysis } from './services/PreviewService';
+
+/**
+ * Top-level application modes
+ */
+type AppMode = 'inspect' | 'compare';
 
 /**
  * Main application component for the Image Metadata Parser tool
@@ -20,73 +39,276 @@ import { ErrorState } from './components/ErrorState';
  */
 function App() {
   // State management for metadata and application flow
-  const [metadataData, setMetadataData] = useState<MetadataData | null>(null); // Raw metadata from the image
-  const [cleanedData, setCleanedData] = useState<CleanedData | null>(null); // Processed and formatted metadata
+  const [metadata, setMetadata] = useState<MetadataModel | null>(null); // Raw and cleaned metadata of the image
   const [fileName, setFileName] = useState<string>(''); // Name of the uploaded file
+  const [file, setFile] = useState<File | null>(null); // Uploaded file, kept for sanitized downloads
   const [imageUrl, setImageUrl] = useState<string>(''); // Object URL for image preview
   const [isLoading, setIsLoading] = useState(false); // Loading state during metadata parsing
   const [error, setError] = useState<string>(''); // Error message for display
   const [showUploader, setShowUploader] = useState(true); // Controls uploader visibility
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]); // Files analyzed in batch mode
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null); // Batch item shown in detail view
+  const [progress, setProgress] = useState<ParseProgress | null>(null); // Progress reported by the parsing worker
+  const abortRef = useRef<AbortController | null>(null); // Cancels the running single or batch analysis
+  const imageUrlRef = useRef(''); // Current object URL, tracked outside render so it is always revoked
+  const [mode, setMode] = useState<AppMode>('inspect'); // Inspect images or compare two of them
+  const [edits, setEdits] = useState<MetadataEdits>({}); // Metadata edits not yet written to a download
+  const [historyId, setHistoryId] = useState<string | null>(null); // History entry shown in the detail view
+  const [historyRevision, setHistoryRevision] = useState(0); // Bumped after storing an entry so the history reloads
+  const [previews, setPreviews] = useState<PreviewAnalysis | null>(null); // Embedded previews of the image, shared by the preview and authenticity report
+
+  /**
+   * Replaces the preview object URL, revoking the previous one
+   * 
+   * @param url - New object URL, or an empty string to clear the preview
+   */
+  const replaceImageUrl = useCallback((url: string) => {
+    if (imageUrlRef.current) {
+      URL.revokeObjectURL(imageUrlRef.current);
+    }
+    imageUrlRef.current = url;
+    setImageUrl(url);
+  }, []);
+
+  /**
+   * Cancels any running analysis and returns the signal for a new one
+   * 
+   * @returns Abort signal for the analysis about to start
+   */
+  const startAnalysis = useCallback((): AbortSignal => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  }, []);
+
+  /**
+   * Stores an analyzed image in the local history, if the user turned it on
+   * 
+   * @param file - Image file that was analyzed
+   * @param metadata - Its parsed metadata
+   * @param fileName - Name to list the image under
+   */
+  const addToHistory = useCallback((file: File, metadata: MetadataModel, fileName: string) => {
+    if (!HistoryService.isEnabled()) return;
+
+    HistoryService.save(file, metadata, fileName)
+      .then(() => setHistoryRevision((revision) => revision + 1))
+      .catch((err) => console.error('History error:', err));
+  }, []);
+
+  // Cancel parsing and release the preview URL when the app unmounts
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    if (imageUrlRef.current) {
+      URL.revokeObjectURL(imageUrlRef.current);
+    }
+  }, []);
+
+  // Extract the embedded previews and compare them with the image once, for every view that uses them
+  useEffect(() => {
+    let active = true;
+    setPreviews(null);
+    if (!file || !metadata) return;
+
+    const load = async () => {
+      const extracted = await PreviewService.extract(file, metadata);
+      if (!active) return;
+      setPreviews({ previews: extracted, comparisons: null });
+
+      const comparisons = await PreviewService.compare(file, extracted);
+      if (active) setPreviews({ previews: extracted, comparisons });
+    };
+
+    load().catch((err) => {
+      console.error('Preview extraction error:', err);
+      if (active) setPreviews({ previews: [], comparisons: [] });
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [file, metadata]);
 
   /**
-   * Handles file upload and metadata extraction
+   * Parses a single file and shows it in the detail view
    * 
    * This function:
-   * 1. Validates the uploaded file
-   * 2. Creates an object URL for image preview
-   * 3. Parses metadata using MetadataService
-   * 4. Updates application state with results or errors
+   * 1. Creates an object URL for image preview
+   * 2. Parses metadata in a web worker, reporting progress
+   * 3. Updates application state with results or errors
+   * 
+   * Results of a parse that was cancelled or superseded are discarded.
    * 
-   * @param event - File input change event
+   * @param file - Image file to analyze
    */
-  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const analyzeFile = useCallback(async (file: File) => {
+    const signal = startAnalysis();
 
     // Reset previous state and start loading
     setIsLoading(true);
+    setProgress(null);
     setError('');
     setFileName(file.name);
+    setFile(file);
+    setEdits({});
+    setHistoryId(null);
 
     // Create object URL for image preview
     // This allows us to display the image without uploading it to a server
-    const url = URL.createObjectURL(file);
-    setImageUrl(url);
+    replaceImageUrl(URL.createObjectURL(file));
 
     try {
       // Parse metadata from the uploaded file
-      const { rawData, cleanedData } = await MetadataService.parseMetadata(file);
-      setMetadataData(rawData);
-      setCleanedData(cleanedData);
+      const parsed = await MetadataWorkerClient.parse(file, { signal, onProgress: setProgress });
+      setMetadata(parsed);
       setShowUploader(false); // Hide uploader after successful analysis
+      addToHistory(file, parsed, file.name);
     } catch (err) {
+      // A cancelled parse was already cleaned up by whoever cancelled it
+      if (MetadataWorkerClient.isAbortError(err)) return;
+
       // Handle parsing errors gracefully
       setError('Failed to parse metadata. Please ensure the file is a valid image with metadata.');
       console.error('Metadata parsing error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setProgress(null);
+      }
     }
-  }, []);
+  }, [startAnalysis, replaceImageUrl, addToHistory]);
+
+  /**
+   * Parses many files as a batch and lists them in the results table
+   * 
+   * Items are updated one by one as they finish so the table fills in
+   * progressively, and each parsed item is stored in the history once.
+   * Starting a new batch or clearing cancels the running one.
+   * 
+   * @param files - Image files to analyze
+   */
+  const analyzeBatch = useCallback(async (files: File[]) => {
+    const items = BatchService.createItems(files);
+    if (items.length === 0) {
+      setError('None of the selected files are images.');
+      return;
+    }
+
+    const signal = startAnalysis();
+    setError('');
+    setBatchItems(items);
+    setSelectedBatchId(null);
+    setShowUploader(false);
+
+    await BatchService.processAll(
+      items,
+      (updated) => {
+        setBatchItems((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+        if (updated.status === 'done' && updated.metadata) addToHistory(updated.file, updated.metadata, updated.path);
+      },
+      signal
+    );
+  }, [startAnalysis, addToHistory]);
+
+  /**
+   * Opens a parsed batch item in the preview and detail view
+   * 
+   * @param item - Batch item selected in the results table
+   */
+  const handleSelectBatchItem = useCallback((item: BatchItem) => {
+    if (!item.metadata) return;
+
+    // Only the selected item gets an object URL, so large batches don't hold hundreds of them
+    replaceImageUrl(URL.createObjectURL(item.file));
+    setSelectedBatchId(item.id);
+    setFileName(item.path);
+    setFile(item.file);
+    setMetadata(item.metadata);
+    setEdits({});
+    setError('');
+    setHistoryId(null);
+
+    setTimeout(() => {
+      document.getElementById('preview')?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+  }, [replaceImageUrl]);
 
   /**
    * Clears all application state and revokes object URLs
    * 
-   * This function resets the application to its initial state
-   * and properly cleans up memory by revoking object URLs
+   * This function resets the application to its initial state,
+   * cancels any parse still running in the worker and properly
+   * cleans up memory by revoking object URLs
    */
   const clearData = useCallback(() => {
-    setMetadataData(null);
-    setCleanedData(null);
+    setMetadata(null);
     setFileName('');
+    setFile(null);
+    setEdits({});
     setError('');
+    setHistoryId(null);
     setShowUploader(true); // Show uploader when clearing data
+    setBatchItems([]);
+    setSelectedBatchId(null);
+    setIsLoading(false);
+    setProgress(null);
+
+    // Stop any single or batch parse that is still running
+    abortRef.current?.abort();
+    abortRef.current = null;
     
     // Clean up object URL to prevent memory leaks
-    if (imageUrl) {
-      URL.revokeObjectURL(imageUrl);
-      setImageUrl('');
+    replaceImageUrl('');
+  }, [replaceImageUrl]);
+
+  /**
+   * Reopens an image from the local history
+   * 
+   * The original file is not stored, so its thumbnail stands in for the
+   * preview and the tools that rewrite the file stay hidden.
+   * 
+   * @param entry - History entry to reopen
+   */
+  const handleOpenHistory = useCallback(async (entry: HistoryEntry) => {
+    try {
+      const stored = await HistoryService.load(entry.id);
+      if (!stored) {
+        setError('This image is no longer in the history.');
+        return;
+      }
+
+      clearData();
+      replaceImageUrl(entry.thumbnail ? URL.createObjectURL(entry.thumbnail) : '');
+      setFileName(entry.fileName);
+      setMetadata(stored);
+      setHistoryId(entry.id);
+      setShowUploader(false);
+
+      setTimeout(() => {
+        document.getElementById(entry.thumbnail ? 'preview' : 'privacy')?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
+    } catch (err) {
+      setError('Failed to open the image from the history.');
+      console.error('History error:', err);
     }
-  }, [imageUrl]);
+  }, [clearData, replaceImageUrl]);
+
+  /**
+   * Handles files chosen in the uploader
+   * 
+   * Any previous result is cleared first. A single file opens the detail
+   * view directly; several files start batch mode.
+   * 
+   * @param files - Files picked, dropped or found in a folder
+   */
+  const handleFilesSelected = useCallback((files: File[]) => {
+    clearData();
+    if (files.length === 1) {
+      analyzeFile(files[0]);
+    } else {
+      analyzeBatch(files);
+    }
+  }, [clearData, analyzeFile, analyzeBatch]);
 
   /**
    * Shows the uploader section for uploading a new file
@@ -102,9 +324,19 @@ function App() {
     }, 100);
   }, []);
 
+  /**
+   * Stores a GPS position picked on the map as an edit
+   * 
+   * @param point - Picked position
+   */
+  const handlePickLocation = useCallback((point: GeoPoint) => {
+    setEdits((current) => ({ ...current, position: MetadataEditService.formatPosition(point) }));
+  }, []);
+
   // Computed values for conditional rendering
-  const hasData = metadataData && cleanedData; // Both raw and cleaned data are available
+  const hasData = metadata !== null; // Metadata has been parsed
   const hasImage = imageUrl && fileName; // Image is uploaded and ready for preview
+  const hasBatch = batchItems.length > 0; // Several files are being analyzed together
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
@@ -128,39 +360,111 @@ function App() {
             </p>
           </div>
 
-          {/* Navigation Menu - Only shown when there's data or an image to navigate to */}
-          {(hasData || hasImage) && (
-            <NavigationMenu 
-              hasData={!!hasData} 
-              hasImage={!!hasImage} 
-              onUploadClick={handleShowUploader}
-            />
-          )}
+          {/* Mode Switcher - Inspect single/batch images or compare two */}
+          <div className="flex justify-center gap-2 mb-8">
+            <button
+              onClick={() => setMode('inspect')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${mode === 'inspect' ? 'bg-blue-600 text-white shadow' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <Search className="w-4 h-4" />
+              Inspect
+            </button>
+            <button
+              onClick={() => setMode('compare')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${mode === 'compare' ? 'bg-blue-600 text-white shadow' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </button>
+          </div>
 
-          {/* File Upload Section - Conditionally visible */}
-          {showUploader && (
-            <FileUpload
-              onFileUpload={handleFileUpload}
-              fileName={fileName}
-              isLoading={isLoading}
-              onClear={clearData}
-            />
-          )}
+          {/* Compare Mode - Field-by-field diff of two images */}
+          {mode === 'compare' && <CompareView />}
 
-          {/* Loading State - Shown during EXIF data processing */}
-          {isLoading && <LoadingState />}
+          {/* Inspect Mode - Upload, batch results and detail view */}
+          {mode === 'inspect' && (
+            <>
+              {/* Navigation Menu - Only shown when there's data or an image to navigate to */}
+              {(hasData || hasImage || hasBatch) && (
+                <NavigationMenu 
+                  hasData={hasData} 
+                  hasImage={!!hasImage} 
+                  hasBatch={hasBatch}
+                  hasFile={file !== null}
+                  onUploadClick={handleShowUploader}
+                />
+              )}
 
-          {/* Error State - Shown when EXIF parsing fails */}
-          {error && <ErrorState error={error} />}
+              {/* File Upload Section - Conditionally visible */}
+              {showUploader && (
+                <FileUpload
+                  onFilesSelected={handleFilesSelected}
+                  fileName={hasBatch ? `${batchItems.length} files` : fileName}
+                  isLoading={isLoading}
+                  onClear={clearData}
+                />
+              )}
 
-          {/* Image Preview - Shown when an image is successfully uploaded */}
-          {hasImage && (
-            <ImagePreview imageUrl={imageUrl} fileName={fileName} />
-          )}
+              {/* Loading State - Shown during EXIF data processing */}
+              {isLoading && <LoadingState progress={progress} onCancel={clearData} />}
+
+              {/* Error State - Shown when EXIF parsing fails */}
+              {error && <ErrorState error={error} />}
+
+              {/* Batch Results - Shown when several files are analyzed together */}
+              {hasBatch && (
+                <BatchResultsTable
+                  items={batchItems}
+                  selectedId={selectedBatchId}
+                  onSelect={handleSelectBatchItem}
+                />
+              )}
+
+              {/* Image Preview - Shown when an image is successfully uploaded */}
+              {hasImage && (
+                <ImagePreview imageUrl={imageUrl} fileName={fileName} previews={previews} />
+              )}
+
+              {/* Privacy Report - Summary of what the metadata reveals */}
+              {metadata && (
+                <PrivacyReportCard metadata={metadata} />
+              )}
+
+              {/* Authenticity Report - Signs that the image was edited after capture */}
+              {metadata && file && (
+                <ForensicPanel file={file} metadata={metadata} previews={previews} />
+              )}
+
+              {/* Sanitize Panel - Shown when data is parsed so metadata can be removed */}
+              {hasData && file && (
+                <SanitizePanel file={file} />
+              )}
+
+              {/* Metadata Editor - Edit common fields and download the image with them written back */}
+              {metadata && file && (
+                <MetadataEditor file={file} metadata={metadata} edits={edits} onChange={setEdits} />
+              )}
+
+              {/* Report - Self-contained HTML report of the metadata, also printable as PDF */}
+              {metadata && file && (
+                <ReportPanel file={file} fileName={fileName} metadata={metadata} />
+              )}
+
+              {/* EXIF Data Display - Shown when data is successfully parsed */}
+              {metadata && (
+                <DataDisplay
+                  metadata={metadata}
+                  fileName={fileName}
+                  pickedLocation={edits.position ? MetadataEditService.parsePosition(edits.position) : null}
+                  onPickLocation={file ? handlePickLocation : undefined}
+                />
+              )}
 
-          {/* EXIF Data Display - Shown when data is successfully parsed */}
-          {hasData && (
-            <DataDisplay cleanedData={cleanedData} rawData={metadataData} />
+              {/* History - Earlier results kept in this browser, when the user opted in */}
+              <HistoryPanel revision={historyRevision} activeId={historyId} onOpen={handleOpenHistory} />
+            </>
           )}
 
           {/* Application Footer */}
@@ -0,0 +1,326 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, ArrowUp, ArrowDown, MapPin, CheckCircle, AlertCircle, Loader, Download } from 'lucide-react';
+import { BatchItem, BatchStatus } from '../services/BatchService';
+import { ExportService } from '../services/ExportService';
+
+/**
+ * Props interface for the BatchResultsTable component
+ */
+interface BatchResultsTableProps {
+  items: BatchItem[];                // All files in the batch, in any state
+  selectedId: string | null;         // Item currently shown in the detail view
+  onSelect: (item: BatchItem) => void; // Called when a parsed row is clicked
+}
+
+/**
+ * Columns the table can be sorted by
+ */
+type SortKey = 'path' | 'captureDate' | 'camera' | 'lens' | 'iso' | 'hasGps' | 'place' | 'status';
+
+/**
+ * Location fields rows can be grouped by
+ */
+type GroupKey = 'none' | 'country' | 'city';
+
+/**
+ * Column definitions with header labels
+ */
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'path', label: 'File' },
+  { key: 'captureDate', label: 'Capture Date' },
+  { key: 'camera', label: 'Camera' },
+  { key: 'lens', label: 'Lens' },
+  { key: 'iso', label: 'ISO' },
+  { key: 'hasGps', label: 'GPS' },
+  { key: 'place', label: 'Place' },
+  { key: 'status', label: 'Status' }
+];
+
+// Order used when sorting by status so problems float to the top
+const STATUS_ORDER: Record<BatchStatus, number> = { error: 0, parsing: 1, pending: 2, done: 3 };
+
+// Group label for files without a known place
+const UNKNOWN_PLACE = 'Unknown location';
+
+/**
+ * Describes the place of an item as "City, Country"
+ *
+ * @param item - Batch item
+ * @returns Place text, or null when the file has no known place
+ */
+const getPlaceLabel = (item: BatchItem): string | null => {
+  const { city, country } = item.summary ?? {};
+  return city && country ? `${city}, ${country}` : null;
+};
+
+/**
+ * Lists the distinct non-empty values of a summary field, alphabetically
+ */
+const getOptions = (items: BatchItem[], key: 'country' | 'city'): string[] => {
+  const values = items.map((item) => item.summary?.[key]).filter((value): value is string => Boolean(value));
+  return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Returns the comparable value of a column for an item
+ *
+ * @param item - Batch item
+ * @param key - Column to read
+ * @returns A string or number; missing values sort last
+ */
+const getSortValue = (item: BatchItem, key: SortKey): string | number | null => {
+  switch (key) {
+    case 'path':
+      return item.path.toLowerCase();
+    case 'status':
+      return STATUS_ORDER[item.status];
+    case 'hasGps':
+      return item.summary ? Number(item.summary.hasGps) : null;
+    case 'place':
+      return getPlaceLabel(item)?.toLowerCase() ?? null;
+    default:
+      return item.summary?.[key] ?? null;
+  }
+};
+
+/**
+ * Component listing the results of a batch analysis in a sortable table
+ *
+ * This component provides:
+ * - Progress of the running batch
+ * - One row per file with the key capture details
+ * - Click-to-sort column headers with ascending/descending toggle
+ * - Row selection to open the full detail view for a file
+ * - Filtering by country and city and grouping rows by either
+ * - CSV export with one row per listed file
+ */
+export const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, selectedId, onSelect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('path');
+  const [ascending, setAscending] = useState(true);
+  const [country, setCountry] = useState('');
+  const [city, setCity] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupKey>('none');
+
+  const countries = useMemo(() => getOptions(items, 'country'), [items]);
+  const cities = useMemo(
+    () => getOptions(country ? items.filter((item) => item.summary?.country === country) : items, 'city'),
+    [items, country]
+  );
+
+  /**
+   * Items matching the place filters, sorted by the active column, with empty values always last
+   */
+  const sortedItems = useMemo(() => {
+    const filtered = items.filter((item) =>
+      (!country || item.summary?.country === country) && (!city || item.summary?.city === city)
+    );
+    return filtered.sort((a, b) => {
+      const left = getSortValue(a, sortKey);
+      const right = getSortValue(b, sortKey);
+      if (left === right) return 0;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const result = left < right ? -1 : 1;
+      return ascending ? result : -result;
+    });
+  }, [items, sortKey, ascending, country, city]);
+
+  /**
+   * Sorted items split into groups by place, known places first in alphabetical order
+   */
+  const groups = useMemo((): Array<[string | null, BatchItem[]]> => {
+    if (groupBy === 'none') return [[null, sortedItems]];
+
+    const grouped = new Map<string, BatchItem[]>();
+    for (const item of sortedItems) {
+      const label = (groupBy === 'city' ? getPlaceLabel(item) : item.summary?.country) ?? UNKNOWN_PLACE;
+      grouped.set(label, [...(grouped.get(label) ?? []), item]);
+    }
+    return Array.from(grouped).sort(([a], [b]) =>
+      a === UNKNOWN_PLACE ? 1 : b === UNKNOWN_PLACE ? -1 : a.localeCompare(b)
+    );
+  }, [sortedItems, groupBy]);
+
+  /**
+   * Sorts by a column, toggling direction when it is already active
+   *
+   * @param key - Column to sort by
+   */
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  /**
+   * Renders the status cell for an item
+   *
+   * @param item - Batch item
+   * @returns JSX element with status icon and text
+   */
+  const renderStatus = (item: BatchItem) => {
+    switch (item.status) {
+      case 'done':
+        return <span className="flex items-center gap-1 text-green-700"><CheckCircle className="w-4 h-4" />Parsed</span>;
+      case 'error':
+        return (
+          <span className="flex items-center gap-1 text-red-700" title={item.error}>
+            <AlertCircle className="w-4 h-4" />Failed
+          </span>
+        );
+      case 'parsing':
+        return <span className="flex items-center gap-1 text-blue-700"><Loader className="w-4 h-4 animate-spin" />Parsing</span>;
+      default:
+        return <span className="text-gray-400">Pending</span>;
+    }
+  };
+
+  /**
+   * Changes the country filter, dropping a city filter from another country
+   *
+   * @param value - Country to show, or an empty string for all
+   */
+  const handleCountryChange = (value: string) => {
+    setCountry(value);
+    if (value && !items.some((item) => item.summary?.country === value && item.summary.city === city)) {
+      setCity('');
+    }
+  };
+
+  /**
+   * Downloads every listed processed file as one CSV row
+   */
+  const handleExportCsv = () => {
+    ExportService.download(ExportService.toBatchCsv(sortedItems), 'metadata-batch.csv', 'text/csv');
+  };
+
+  /**
+   * Renders the row of one file
+   *
+   * @param item - Batch item
+   * @returns JSX table row
+   */
+  const renderRow = (item: BatchItem) => (
+    <tr
+      key={item.id}
+      onClick={() => item.status === 'done' && onSelect(item)}
+      className={`border-b border-gray-100 transition-colors
+        ${item.status === 'done' ? 'cursor-pointer hover:bg-sky-50' : ''}
+        ${item.id === selectedId ? 'bg-sky-100' : ''}`}
+    >
+      <td className="px-4 py-2 font-medium text-gray-800 break-all">{item.path}</td>
+      <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{item.summary?.captureDate ?? '—'}</td>
+      <td className="px-4 py-2 text-gray-700">{item.summary?.camera ?? '—'}</td>
+      <td className="px-4 py-2 text-gray-700">{item.summary?.lens ?? '—'}</td>
+      <td className="px-4 py-2 text-gray-700">{item.summary?.iso ?? '—'}</td>
+      <td className="px-4 py-2">
+        {item.summary?.hasGps
+          ? <MapPin className="w-4 h-4 text-blue-600" aria-label="Has GPS" />
+          : <span className="text-gray-400">{item.summary ? 'No' : '—'}</span>}
+      </td>
+      <td className="px-4 py-2 text-gray-700">{getPlaceLabel(item) ?? '—'}</td>
+      <td className="px-4 py-2 whitespace-nowrap">{renderStatus(item)}</td>
+    </tr>
+  );
+
+  const finishedCount = items.filter((item) => item.status === 'done' || item.status === 'error').length;
+  const isFiltered = country !== '' || city !== '';
+  const failedCount = items.filter((item) => item.status === 'error').length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="batch">
+      {/* Header section with gradient background and progress */}
+      <div className="bg-gradient-to-r from-sky-600 to-sky-700 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <Layers className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Batch Results</h2>
+          {/* Export of all processed files */}
+          <button
+            onClick={handleExportCsv}
+            disabled={!sortedItems.some((item) => item.status === 'done' || item.status === 'error')}
+            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-white bg-white/20 rounded hover:bg-white/30 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" />
+            CSV
+          </button>
+        </div>
+        <p className="text-sky-100 text-sm">
+          {finishedCount} of {items.length} files processed
+          {failedCount > 0 && ` · ${failedCount} failed`}
+          {isFiltered && ` · ${sortedItems.length} shown`}
+        </p>
+      </div>
+
+      {/* Place filters and grouping */}
+      <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 text-sm">
+        <label className="flex items-center gap-2 text-gray-600">
+          Country
+          <select
+            value={country}
+            onChange={(event) => handleCountryChange(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-200 text-gray-800"
+          >
+            <option value="">All</option>
+            {countries.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          City
+          <select
+            value={city}
+            onChange={(event) => setCity(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-200 text-gray-800"
+          >
+            <option value="">All</option>
+            {cities.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          Group by
+          <select
+            value={groupBy}
+            onChange={(event) => setGroupBy(event.target.value as GroupKey)}
+            className="px-2 py-1 rounded border border-gray-200 text-gray-800"
+          >
+            <option value="none">None</option>
+            <option value="country">Country</option>
+            <option value="city">City</option>
+          </select>
+        </label>
+      </div>
+
+      {/* Scrollable results table */}
+      <div className="max-h-[600px] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} className="text-left font-semibold text-gray-700 px-4 py-3 border-b border-gray-200">
+                  <button onClick={() => handleSort(key)} className="flex items-center gap-1 hover:text-sky-700">
+                    {label}
+                    {sortKey === key && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {groups.map(([label, groupItems]) => (
+            <tbody key={label ?? 'all'}>
+              {label !== null && (
+                <tr className="bg-sky-50">
+                  <td colSpan={COLUMNS.length} className="px-4 py-2 font-semibold text-sky-800">
+                    {label} <span className="font-normal text-sky-600">({groupItems.length})</span>
+                  </td>
+                </tr>
+              )}
+              {groupItems.map(renderRow)}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { CaptureTime } from '../services/MetadataModel';
+import { CaptureTimeService } from '../services/CaptureTimeService';
+
+interface CaptureTimeDisplayProps {
+  captureTime: CaptureTime;
+}
+
+/**
+ * Time zones the capture time can be shown in
+ */
+type TimeView = 'shot' | 'viewer';
+
+// How each offset source is described next to the offset
+const OFFSET_SOURCES: Record<NonNullable<CaptureTime['offsetSource']>, string> = {
+  recorded: 'recorded',
+  timezone: 'from the time zone at the GPS position',
+  inferred: 'inferred from GPS time'
+};
+
+/**
+ * Component for displaying the canonical capture time
+ *
+ * This component provides:
+ * - The capture time as shot, with its UTC offset and where the offset came from
+ * - The time zone at the GPS position and whether daylight saving time was in effect
+ * - A toggle to show the same moment in the viewer's own time zone
+ * - The GPS time and camera clock drift when the image has both
+ */
+export const CaptureTimeDisplay: React.FC<CaptureTimeDisplayProps> = ({ captureTime }) => {
+  const [view, setView] = useState<TimeView>('shot');
+  const canConvert = captureTime.utc !== null;
+
+  /**
+   * Formats the capture time for the selected view
+   */
+  const getDisplayTime = (): string => {
+    if (view === 'viewer' && captureTime.utc) {
+      return new Date(captureTime.utc).toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'long' });
+    }
+    return captureTime.local.replace('T', ' ');
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full transition-colors ${active ? 'bg-green-600 text-white' : 'text-green-700 hover:bg-green-100'}`;
+
+  return (
+    <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-3 rounded-lg border border-green-100 space-y-2">
+      <div className="flex items-center gap-2">
+        <Clock className="w-4 h-4 text-green-600" />
+        <span className="text-sm font-medium text-gray-800">{getDisplayTime()}</span>
+      </div>
+
+      {/* Time zone toggle; converting needs a known offset */}
+      <div className="flex items-center gap-1 text-xs">
+        <button onClick={() => setView('shot')} className={toggleClass(view === 'shot')}>
+          As shot
+        </button>
+        <button
+          onClick={() => setView('viewer')}
+          disabled={!canConvert}
+          className={`${toggleClass(view === 'viewer')} disabled:opacity-40 disabled:hover:bg-transparent`}
+          title={canConvert ? undefined : 'The UTC offset is unknown, so the time cannot be converted'}
+        >
+          Your time zone
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-gray-500">ISO 8601</dt>
+        <dd className="font-mono text-gray-800 break-all">{captureTime.formatted}</dd>
+        <dt className="text-gray-500">UTC offset</dt>
+        <dd className="text-gray-800">
+          {captureTime.offset
+            ? `${captureTime.offset} (${OFFSET_SOURCES[captureTime.offsetSource ?? 'recorded']})`
+            : 'Not recorded'}
+        </dd>
+        {captureTime.timeZone && (
+          <>
+            <dt className="text-gray-500">Time zone</dt>
+            <dd className="text-gray-800">
+              {captureTime.timeZone}
+              {captureTime.dst !== null && ` (${captureTime.dst ? 'daylight saving' : 'standard'} time)`}
+            </dd>
+          </>
+        )}
+        {captureTime.utc && (
+          <>
+            <dt className="text-gray-500">UTC</dt>
+            <dd className="font-mono text-gray-800">{captureTime.utc}</dd>
+          </>
+        )}
+        {captureTime.gpsTime && (
+          <>
+            <dt className="text-gray-500">GPS time</dt>
+            <dd className="font-mono text-gray-800">{captureTime.gpsTime}</dd>
+          </>
+        )}
+        {captureTime.clockDrift !== null && (
+          <>
+            <dt className="text-gray-500">Clock drift</dt>
+            <dd className="text-gray-800">
+              {captureTime.clockDrift === 0
+                ? 'None'
+                : `${CaptureTimeService.formatDuration(captureTime.clockDrift)} ${captureTime.clockDrift > 0 ? 'ahead of' : 'behind'} GPS`}
+            </dd>
+          </>
+        )}
+        <dt className="text-gray-500">Source</dt>
+        <dd className="text-gray-800">{captureTime.source}</dd>
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MapPin, Calendar, Camera, Settings, Copyright, Hash, Cpu, Tag, User, Building, FileText, Image, LucideIcon } from 'lucide-react';
+import { CategoryIconName } from '../services/TagRegistry';
+
+/**
+ * Props interface for the CategoryIcon component
+ */
+interface CategoryIconProps {
+  icon: CategoryIconName;  // Icon named in the category's configuration
+  className?: string;      // Size and colour classes
+}
+
+/**
+ * Icon images for the icon names categories can use
+ */
+const CATEGORY_ICONS: Record<CategoryIconName, LucideIcon> = {
+  copyright: Copyright,
+  hash: Hash,
+  mapPin: MapPin,
+  calendar: Calendar,
+  camera: Camera,
+  settings: Settings,
+  cpu: Cpu,
+  tag: Tag,
+  user: User,
+  building: Building,
+  fileText: FileText,
+  image: Image
+};
+
+/**
+ * Component showing the icon of a metadata category
+ */
+export const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, className }) => {
+  const Icon = CATEGORY_ICONS[icon];
+  return <Icon className={className} />;
+};
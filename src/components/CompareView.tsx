@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GitCompare, Upload, AlertCircle } from 'lucide-react';
+import { CategoryIcon } from './CategoryIcon';
+import { MetadataModel, CleanedValue } from '../services/MetadataModel';
+import { MetadataWorkerClient } from '../services/MetadataWorkerClient';
+import { MetadataDiffService, DiffEntry, DiffStatus } from '../services/MetadataDiffService';
+import { TagRegistry, MetadataCategory } from '../services/TagRegistry';
+
+/**
+ * State of one side of the comparison
+ */
+interface CompareSlot {
+  fileName: string;
+  metadata: MetadataModel | null;
+  isLoading: boolean;
+  error: string;
+}
+
+const EMPTY_SLOT: CompareSlot = { fileName: '', metadata: null, isLoading: false, error: '' };
+
+/**
+ * Display configuration for each diff status
+ */
+const STATUS_CONFIG: Record<DiffStatus, { label: string; badge: string }> = {
+  onlyA: { label: 'Only in A', badge: 'bg-amber-100 text-amber-800' },
+  onlyB: { label: 'Only in B', badge: 'bg-sky-100 text-sky-800' },
+  changed: { label: 'Changed', badge: 'bg-rose-100 text-rose-800' },
+  same: { label: 'Unchanged', badge: 'bg-gray-100 text-gray-600' }
+};
+
+/**
+ * Formats a cleaned value for the compact diff table
+ *
+ * @param value - Value to format
+ * @returns Display string, or an em dash for missing values
+ */
+const formatValue = (value: CleanedValue | undefined): string => {
+  if (value === undefined) return '—';
+  // Location objects carry a ready-made human-readable form
+  if (typeof value === 'object') return value.formatted;
+  return String(value);
+};
+
+/**
+ * Component for comparing the metadata of two images side by side
+ *
+ * This component provides:
+ * - Two independent file pickers (A and B)
+ * - A field-by-field diff grouped by metadata category
+ * - Status filters for fields only in A, only in B, changed and unchanged
+ */
+export const CompareView: React.FC = () => {
+  const [slotA, setSlotA] = useState<CompareSlot>(EMPTY_SLOT);
+  const [slotB, setSlotB] = useState<CompareSlot>(EMPTY_SLOT);
+  const [visibleStatuses, setVisibleStatuses] = useState<DiffStatus[]>(['onlyA', 'onlyB', 'changed']);
+  const abortRefs = useRef<Record<string, AbortController>>({}); // Cancels the parse running on each side, keyed by side label
+
+  // Cancel the parses of both sides when the view unmounts
+  useEffect(() => () => {
+    Object.values(abortRefs.current).forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * Parses the file chosen for one side of the comparison
+   *
+   * Picking another file for the same side cancels the parse still running for it.
+   *
+   * @param event - File input change event
+   * @param label - Side label ("A" or "B")
+   * @param setSlot - State setter of the side being loaded
+   */
+  const handleFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    label: string,
+    setSlot: React.Dispatch<React.SetStateAction<CompareSlot>>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    abortRefs.current[label]?.abort();
+    const controller = new AbortController();
+    abortRefs.current[label] = controller;
+
+    setSlot({ fileName: file.name, metadata: null, isLoading: true, error: '' });
+    try {
+      const metadata = await MetadataWorkerClient.parse(file, { signal: controller.signal });
+      setSlot({ fileName: file.name, metadata, isLoading: false, error: '' });
+    } catch (err) {
+      // A cancelled parse was superseded by another file or the view was closed
+      if (MetadataWorkerClient.isAbortError(err)) return;
+
+      setSlot({ fileName: file.name, metadata: null, isLoading: false, error: 'Failed to parse metadata.' });
+      console.error('Metadata parsing error:', err);
+    }
+  };
+
+  /**
+   * Diff of the two loaded images, recomputed when either side changes
+   */
+  const diff = useMemo(() => {
+    if (!slotA.metadata || !slotB.metadata) return null;
+    return MetadataDiffService.diff(slotA.metadata.cleaned, slotB.metadata.cleaned);
+  }, [slotA.metadata, slotB.metadata]);
+
+  /**
+   * Visible entries grouped by category in display order
+   */
+  const groupedEntries = useMemo(() => {
+    if (!diff) return [];
+    const visible = diff.entries.filter((entry) => visibleStatuses.includes(entry.status));
+    return TagRegistry.getCategories()
+      .map((category): [MetadataCategory, DiffEntry[]] => [category, visible.filter((entry) => entry.category === category)])
+      .filter(([, entries]) => entries.length > 0);
+  }, [diff, visibleStatuses]);
+
+  /**
+   * Shows or hides entries with the given status
+   *
+   * @param status - Status to toggle
+   */
+  const toggleStatus = (status: DiffStatus) => {
+    setVisibleStatuses((current) =>
+      current.includes(status) ? current.filter((item) => item !== status) : [...current, status]
+    );
+  };
+
+  /**
+   * Renders the file picker for one side
+   *
+   * @param label - Side label ("A" or "B")
+   * @param slot - Current state of the side
+   * @param setSlot - State setter of the side
+   * @returns JSX element with picker and status
+   */
+  const renderPicker = (
+    label: string,
+    slot: CompareSlot,
+    setSlot: React.Dispatch<React.SetStateAction<CompareSlot>>
+  ) => (
+    <label className="flex flex-col items-center justify-center h-36 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors px-4 text-center">
+      <span className="text-sm font-semibold text-gray-500 mb-1">Image {label}</span>
+      <Upload className="w-6 h-6 text-gray-400 mb-2" />
+      <span className="text-sm font-medium text-gray-700 break-all">
+        {slot.isLoading ? 'Parsing...' : slot.fileName || 'Click to choose a file'}
+      </span>
+      {slot.error && (
+        <span className="flex items-center gap-1 text-xs text-red-600 mt-1">
+          <AlertCircle className="w-3 h-3" />{slot.error}
+        </span>
+      )}
+      <input
+        type="file"
+        className="hidden"
+        accept="image/*"
+        onChange={(event) => handleFile(event, label, setSlot)}
+        disabled={slot.isLoading}
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="compare">
+      {/* Header section with gradient background */}
+      <div className="bg-gradient-to-r from-rose-600 to-rose-700 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Compare Metadata</h2>
+        </div>
+        <p className="text-rose-100 text-sm">See what an editor, CMS or platform changed or stripped</p>
+      </div>
+
+      <div className="p-6">
+        {/* File pickers for both sides */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {renderPicker('A', slotA, setSlotA)}
+          {renderPicker('B', slotB, setSlotB)}
+        </div>
+
+        {diff && (
+          <>
+            {/* Status filters with counts */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {(Object.keys(STATUS_CONFIG) as DiffStatus[]).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={`px-3 py-1 text-xs rounded-full transition-opacity ${STATUS_CONFIG[status].badge}
+                    ${visibleStatuses.includes(status) ? '' : 'opacity-40'}`}
+                >
+                  {STATUS_CONFIG[status].label} ({diff.counts[status]})
+                </button>
+              ))}
+            </div>
+
+            {groupedEntries.length === 0 && (
+              <p className="text-gray-500 text-sm">No fields match the selected filters.</p>
+            )}
+
+            {/* Diff grouped by category */}
+            <div className="space-y-8 max-h-[600px] overflow-y-auto">
+              {groupedEntries.map(([category, entries]) => {
+                const config = TagRegistry.getCategoryConfig(category);
+                return (
+                  <div key={category}>
+                    {/* Category Header */}
+                    <div className="flex items-center gap-2 mb-3 pb-2 border-b border-gray-200">
+                      <CategoryIcon icon={config.icon} className={`w-5 h-5 text-${config.color}-500`} />
+                      <h3 className="text-lg font-semibold text-gray-900">{config.label}</h3>
+                      <span className="text-sm text-gray-500">({entries.length})</span>
+                    </div>
+
+                    {/* Category Fields */}
+                    <table className="w-full text-sm table-fixed">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="w-1/4 pb-2 font-medium">Field</th>
+                          <th className="w-1/3 pb-2 font-medium">A</th>
+                          <th className="w-1/3 pb-2 font-medium">B</th>
+                          <th className="pb-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {entries.map((entry) => (
+                          <tr key={entry.key} className="border-t border-gray-50 align-top">
+                            <td className="py-2 pr-2 font-medium text-gray-800 break-all">{entry.key}</td>
+                            <td className="py-2 pr-2 text-gray-700 break-all">{formatValue(entry.valueA)}</td>
+                            <td className="py-2 pr-2 text-gray-700 break-all">{formatValue(entry.valueB)}</td>
+                            <td className="py-2">
+                              <span className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${STATUS_CONFIG[entry.status].badge}`}>
+                                {STATUS_CONFIG[entry.status].label}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,85 +1,55 @@
-import React from 'react';
-import { MapPin, Calendar, Camera, Settings, Copyright, Hash } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Copyright, Hash, Download, Braces } from 'lucide-react';
 import { LocationDisplay } from './LocationDisplay';
-
-// Type definitions for component props
-interface CleanedData {
-  [key: string]: any;
-}
+import { CaptureTimeDisplay } from './CaptureTimeDisplay';
+import { DiagnosticList } from './DiagnosticList';
+import { MetadataFilterBar } from './MetadataFilterBar';
+import { HighlightedText } from './HighlightedText';
+import { RawTreeView } from './RawTreeView';
+import { CategoryIcon } from './CategoryIcon';
+import { TagRegistry } from '../services/TagRegistry';
+import { MetadataModel, CleanedField, METADATA_GROUPS } from '../services/MetadataModel';
+import { ExportService, ExportView } from '../services/ExportService';
+import { GeoPoint } from '../services/MapProviderService';
+import { MetadataFilterService, FieldFilter, EMPTY_FILTER } from '../services/MetadataFilterService';
+import { RawTreeFocus } from '../services/RawTreeService';
 
 interface DataDisplayProps {
-  cleanedData: CleanedData;
-  rawData: any;
+  metadata: MetadataModel;                    // Parsed metadata of the image being inspected
+  fileName: string;                           // Name of the image, used to name exported files
+  pickedLocation?: GeoPoint | null;           // GPS position picked as an edit, if any
+  onPickLocation?: (point: GeoPoint) => void; // Enables picking a new GPS position on the map
 }
 
 /**
  * Component for displaying metadata in two columns: cleaned data and raw JSON
  * 
  * This component provides a comprehensive view of image metadata by:
- * - Displaying cleaned, formatted data with appropriate icons
- * - Showing raw JSON data for technical users
+ * - Displaying cleaned, formatted data with the labels, icons and units of the tag registry
+ * - Showing the raw data as a collapsible tree for technical users, linked to the cleaned fields
  * - Handling special cases like GPS coordinates with enhanced display
+ * - Labelling every field with the group (EXIF, XMP, ...) it was read from
+ * - Showing parse diagnostics next to the fields they concern
+ * - Giving every field an anchor ("field-<key>") that other panels link to
+ * - Searching and filtering both views, with matches highlighted
+ * - Exporting either view as JSON or CSV, and the fields as an XMP sidecar
+ * - Picking a new GPS position on the map for the metadata editor
  * - Organizing data with visual hierarchy and scrollable containers
  */
-export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }) => {
-  /**
-   * Categorizes metadata fields into logical groups for navigation
-   * 
-   * @param key - The metadata field key
-   * @returns The category name for the field
-   */
-  const getCategoryForField = (key: string): string => {
-    const lowerKey = key.toLowerCase();
-    
-    if (lowerKey.includes('copyright') || lowerKey.includes('artist') || lowerKey.includes('author') ||
-        lowerKey.includes('creator') || lowerKey.includes('rights')) {
-      return 'copyright';
-    }
-    if (lowerKey.includes('serial') || lowerKey.includes('body') || lowerKey.includes('lens') && 
-        (lowerKey.includes('serial') || lowerKey.includes('number'))) {
-      return 'serial';
-    }
-    if (lowerKey.includes('gps') || lowerKey.includes('location')) {
-      return 'location';
-    }
-    if (lowerKey.includes('date') || lowerKey.includes('time')) {
-      return 'datetime';
-    }
-    if (lowerKey.includes('camera') || lowerKey.includes('make') || lowerKey.includes('model') || 
-        lowerKey.includes('lens') || lowerKey.includes('focal')) {
-      return 'camera';
-    }
-    if (lowerKey.includes('iso') || lowerKey.includes('aperture') || lowerKey.includes('exposure') ||
-        lowerKey.includes('shutter') || lowerKey.includes('flash') || lowerKey.includes('white')) {
-      return 'settings';
-    }
-    return 'other';
-  };
+export const DataDisplay: React.FC<DataDisplayProps> = ({ metadata, fileName, pickedLocation, onPickLocation }) => {
+  const [filter, setFilter] = useState<FieldFilter>(EMPTY_FILTER);
+  const [rawFocus, setRawFocus] = useState<RawTreeFocus | null>(null);
 
   /**
-   * Groups metadata fields by category for organized display
+   * Cleaned fields and raw tags left by the search and toggles
    */
-  const groupedData = Object.entries(cleanedData).reduce((acc, [key, value]) => {
-    const category = getCategoryForField(key);
-    if (!acc[category]) {
-      acc[category] = [];
-    }
-    acc[category].push([key, value]);
-    return acc;
-  }, {} as Record<string, Array<[string, any]>>);
+  const filteredCleaned = useMemo(() => MetadataFilterService.filterCleaned(metadata, filter), [metadata, filter]);
+  const filteredRaw = useMemo(() => MetadataFilterService.filterRaw(metadata, filter), [metadata, filter]);
 
   /**
-   * Configuration for category display with icons and labels
+   * Groups the filtered fields by category for organized display
    */
-  const categoryConfig = {
-    copyright: { label: 'Copyright & Rights', icon: Copyright, color: 'red' },
-    serial: { label: 'Serial Numbers', icon: Hash, color: 'indigo' },
-    location: { label: 'Location & GPS', icon: MapPin, color: 'blue' },
-    datetime: { label: 'Date & Time', icon: Calendar, color: 'green' },
-    camera: { label: 'Camera & Lens', icon: Camera, color: 'purple' },
-    settings: { label: 'Camera Settings', icon: Settings, color: 'orange' },
-    other: { label: 'Other Metadata', icon: Settings, color: 'gray' }
-  };
+  const groupedData = TagRegistry.groupByCategory(filteredCleaned);
 
   /**
    * Smoothly scrolls to a specific metadata category section
@@ -93,46 +63,62 @@ export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }
     }
   };
   /**
-   * Returns an appropriate icon for a given metadata field based on its key name
+   * Scrolls a cleaned field into view
    * 
-   * This function categorizes metadata fields and assigns relevant icons to improve
-   * the visual organization and quick identification of different data types.
+   * @param key - Cleaned field key
+   */
+  const scrollToField = (key: string) => {
+    document.getElementById(`field-${key}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  /**
+   * Exports a view of the metadata in the given format
    * 
-   * @param key - The metadata field key/name
-   * @returns JSX element containing the appropriate Lucide icon
+   * @param view - Cleaned or raw data
+   * @param format - Output file format
    */
-  const getIconForField = (key: string) => {
-    const lowerKey = key.toLowerCase();
-    
-    // Copyright and rights-related fields
-    if (lowerKey.includes('copyright') || lowerKey.includes('artist') || lowerKey.includes('author') ||
-        lowerKey.includes('creator') || lowerKey.includes('rights')) {
-      return <Copyright className="w-4 h-4 text-red-500" />;
-    }
-    
-    // Serial number and identification fields
-    if (lowerKey.includes('serial') || (lowerKey.includes('body') && lowerKey.includes('serial')) ||
-        (lowerKey.includes('lens') && lowerKey.includes('serial'))) {
-      return <Hash className="w-4 h-4 text-indigo-500" />;
-    }
-    
-    // GPS and location-related fields
-    if (lowerKey.includes('gps') || lowerKey.includes('location')) {
-      return <MapPin className="w-4 h-4 text-blue-500" />;
-    }
-    
-    // Date and time-related fields
-    if (lowerKey.includes('date') || lowerKey.includes('time')) {
-      return <Calendar className="w-4 h-4 text-green-500" />;
-    }
-    
-    // Camera and device-related fields
-    if (lowerKey.includes('camera') || lowerKey.includes('make') || lowerKey.includes('model')) {
-      return <Camera className="w-4 h-4 text-purple-500" />;
+  const handleExport = (view: ExportView, format: 'json' | 'csv') => {
+    if (format === 'json') {
+      ExportService.download(ExportService.toJson(metadata, view), ExportService.getFileName(fileName, `-${view}.json`), 'application/json');
+    } else {
+      ExportService.download(ExportService.toCsv(metadata, view), ExportService.getFileName(fileName, `-${view}.csv`), 'text/csv');
     }
-    
-    // Default icon for other technical settings
-    return <Settings className="w-4 h-4 text-gray-500" />;
+  };
+
+  /**
+   * Downloads an XMP sidecar named after the image, as photo software expects
+   */
+  const handleExportSidecar = () => {
+    ExportService.download(ExportService.toXmpSidecar(metadata), ExportService.getFileName(fileName, '.xmp'), 'application/rdf+xml');
+  };
+
+  /**
+   * Renders a small export button for a column header
+   * 
+   * @param label - Button text
+   * @param onClick - Export action
+   * @returns JSX element with the button
+   */
+  const renderExportButton = (label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className="flex items-center gap-1 px-2 py-1 text-xs text-white bg-white/20 rounded hover:bg-white/30 transition-colors"
+    >
+      <Download className="w-3 h-3" />
+      {label}
+    </button>
+  );
+
+  /**
+   * Returns the icon of the category a metadata field belongs to
+   * 
+   * @param field - The cleaned metadata field
+   * @returns JSX element containing the category's Lucide icon
+   */
+  const getIconForField = ({ name, group }: CleanedField) => {
+    const config = TagRegistry.getCategoryConfig(TagRegistry.getCategoryForField(name, group));
+    return <CategoryIcon icon={config.icon} className={`w-4 h-4 text-${config.color}-500`} />;
   };
 
   /**
@@ -142,27 +128,32 @@ export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }
    * for complex objects like GPS coordinates and special fields like copyright. It ensures that all data is
    * displayed in a readable and useful format.
    * 
-   * @param key - The metadata field key
-   * @param value - The metadata field value
+   * @param field - The cleaned metadata field
    * @returns JSX element with formatted value display
    */
-  const renderValue = (key: string, value: any) => {
+  const renderValue = ({ name, group, value }: CleanedField) => {
     // Special handling for GPS coordinates with enhanced display
-    if (key === 'GPSCoordinates' && typeof value === 'object') {
-      return <LocationDisplay coordinates={value} />;
+    if (typeof value === 'object' && 'latitude' in value) {
+      return <LocationDisplay coordinates={value} picked={pickedLocation} onPick={onPickLocation} />;
+    }
+
+    // Composite capture time with its offset and clock checks
+    if (typeof value === 'object') {
+      return <CaptureTimeDisplay captureTime={value} />;
     }
     
+    const category = TagRegistry.getCategoryForField(name, group);
+    const text = <HighlightedText text={TagRegistry.formatValue(name, group, value, metadata.getTag(group, name))} query={filter.query} />;
+
     // Special handling for copyright information with enhanced display
-    const lowerKey = key.toLowerCase();
-    if (lowerKey.includes('copyright') || lowerKey.includes('artist') || lowerKey.includes('author') ||
-        lowerKey.includes('creator') || lowerKey.includes('rights')) {
+    if (category === 'copyright') {
       return (
         <div className="bg-gradient-to-r from-red-50 to-pink-50 p-3 rounded-lg border border-red-100">
           <div className="flex items-center gap-2 mb-2">
             <Copyright className="w-4 h-4 text-red-600" />
             <span className="font-medium text-red-800">Copyright Information</span>
           </div>
-          <div className="text-sm text-red-700">{String(value)}</div>
+          <div className="text-sm text-red-700">{text}</div>
           <div className="text-xs text-red-600 mt-2">
             ⚠️ This content may be protected by copyright
           </div>
@@ -171,8 +162,7 @@ export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }
     }
     
     // Special handling for serial numbers with enhanced display
-    if (lowerKey.includes('serial') || (lowerKey.includes('body') && lowerKey.includes('serial')) ||
-        (lowerKey.includes('lens') && lowerKey.includes('serial'))) {
+    if (category === 'serial') {
       return (
         <div className="bg-gradient-to-r from-indigo-50 to-blue-50 p-3 rounded-lg border border-indigo-100">
           <div className="flex items-center gap-2 mb-2">
@@ -180,7 +170,7 @@ export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }
             <span className="font-medium text-indigo-800">Serial Number</span>
           </div>
           <div className="font-mono text-sm text-indigo-700 bg-white px-2 py-1 rounded border">
-            {String(value)}
+            {text}
           </div>
           <div className="text-xs text-indigo-600 mt-2">
             🔍 Unique device identifier
@@ -189,107 +179,152 @@ export const DataDisplay: React.FC<DataDisplayProps> = ({ cleanedData, rawData }
       );
     }
     
-    // Format complex objects as readable JSON
-    if (typeof value === 'object') {
-      return (
-        <pre className="bg-gray-50 p-3 rounded-lg text-xs overflow-x-auto border">
-          {JSON.stringify(value, null, 2)}
-        </pre>
-      );
-    }
-    
     // Display simple values as strings
-    return <span className="text-gray-800">{String(value)}</span>;
+    return <span className="text-gray-800">{text}</span>;
   };
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-      {/* Cleaned Data Column */}
-      <div className="bg-white rounded-2xl shadow-lg overflow-hidden" id="cleaned-data">
-        {/* Header with gradient background and descriptive text */}
-        <div className="bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-4">
-          <h2 className="text-xl font-bold text-white">📊 Cleaned Data</h2>
-          <p className="text-purple-100 text-sm">Processed and formatted metadata</p>
-        </div>
-        
-        {/* Internal Navigation Menu */}
-        {Object.keys(groupedData).length > 1 && (
-          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-            <h3 className="text-sm font-semibold text-gray-700 mb-3">Quick Navigation</h3>
-            <div className="flex flex-wrap gap-2">
-              {Object.entries(groupedData).map(([category, fields]) => {
-                const config = categoryConfig[category as keyof typeof categoryConfig];
-                const IconComponent = config.icon;
-                return (
-                  <button
-                    key={category}
-                    onClick={() => scrollToCategory(category)}
-                    className={`flex items-center gap-1 px-3 py-1 text-xs rounded-full transition-colors
-                      bg-${config.color}-50 text-${config.color}-700 hover:bg-${config.color}-100`}
-                  >
-                    <IconComponent className="w-3 h-3" />
-                    {config.label} ({fields.length})
-                  </button>
-                );
-              })}
+    <>
+      {/* Search and quick toggles applying to both columns */}
+      <MetadataFilterBar
+        filter={filter}
+        onChange={setFilter}
+        cleanedCount={[filteredCleaned.length, Object.keys(metadata.cleaned).length]}
+        rawCount={[MetadataFilterService.countRaw(filteredRaw), MetadataFilterService.countRaw(metadata.raw)]}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Cleaned Data Column */}
+        <div className="bg-white rounded-2xl shadow-lg overflow-hidden" id="cleaned-data">
+          {/* Header with gradient background and descriptive text */}
+          <div className="bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-4 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-bold text-white">📊 Cleaned Data</h2>
+              <p className="text-purple-100 text-sm">Processed and formatted metadata</p>
+            </div>
+            {/* Export actions for the cleaned view */}
+            <div className="flex flex-wrap justify-end gap-1">
+              {renderExportButton('JSON', () => handleExport('cleaned', 'json'))}
+              {renderExportButton('CSV', () => handleExport('cleaned', 'csv'))}
+              {renderExportButton('XMP', handleExportSidecar)}
             </div>
           </div>
-        )}
-        {/* Scrollable content area with organized field display */}
-        <div className="p-6 max-h-[600px] overflow-y-auto">
-          <div className="space-y-8">
-            {Object.entries(groupedData).map(([category, fields]) => {
-              const config = categoryConfig[category as keyof typeof categoryConfig];
-              const IconComponent = config.icon;
+        
+          {/* Internal Navigation Menu */}
+          {groupedData.length > 1 && (
+            <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">Quick Navigation</h3>
+              <div className="flex flex-wrap gap-2">
+                {groupedData.map(([category, fields]) => {
+                  const config = TagRegistry.getCategoryConfig(category);
+                  return (
+                    <button
+                      key={category}
+                      onClick={() => scrollToCategory(category)}
+                      className={`flex items-center gap-1 px-3 py-1 text-xs rounded-full transition-colors
+                        bg-${config.color}-50 text-${config.color}-700 hover:bg-${config.color}-100`}
+                    >
+                      <CategoryIcon icon={config.icon} className="w-3 h-3" />
+                      {config.label} ({fields.length})
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          {/* Scrollable content area with organized field display */}
+          <div className="p-6 max-h-[600px] overflow-y-auto">
+            {groupedData.length === 0 && (
+              <p className="text-gray-500 text-sm">No fields match the search and filters.</p>
+            )}
+            <div className="space-y-8">
+              {groupedData.map(([category, fields]) => {
+                const config = TagRegistry.getCategoryConfig(category);
               
-              return (
-                <div key={category} id={`category-${category}`} className="scroll-mt-4">
-                  {/* Category Header */}
-                  <div className="flex items-center gap-2 mb-4 pb-2 border-b border-gray-200">
-                    <IconComponent className={`w-5 h-5 text-${config.color}-500`} />
-                    <h3 className="text-lg font-semibold text-gray-900">{config.label}</h3>
-                    <span className="text-sm text-gray-500">({fields.length})</span>
-                  </div>
+                return (
+                  <div key={category} id={`category-${category}`} className="scroll-mt-4">
+                    {/* Category Header */}
+                    <div className="flex items-center gap-2 mb-4 pb-2 border-b border-gray-200">
+                      <CategoryIcon icon={config.icon} className={`w-5 h-5 text-${config.color}-500`} />
+                      <h3 className="text-lg font-semibold text-gray-900">{config.label}</h3>
+                      <span className="text-sm text-gray-500">({fields.length})</span>
+                    </div>
                   
-                  {/* Category Fields */}
-                  <div className="space-y-4 ml-2">
-                    {fields.map(([key, value]) => (
-                      <div key={key} className="border-b border-gray-50 pb-3 last:border-b-0">
-                        {/* Field header with icon and name */}
-                        <div className="flex items-center gap-2 mb-2">
-                          {getIconForField(key)}
-                          <span className="font-medium text-gray-800">{key}</span>
-                        </div>
+                    {/* Category Fields */}
+                    <div className="space-y-4 ml-2">
+                      {fields.map(([key, field]) => (
+                        <div key={key} id={`field-${key}`} className="border-b border-gray-50 pb-3 last:border-b-0 scroll-mt-4">
+                          {/* Field header with icon, label, tag name and source group */}
+                          <div className="flex items-center gap-2 mb-2" title={TagRegistry.getDefinition(field.name, field.group)?.description}>
+                            {getIconForField(field)}
+                            <span className="font-medium text-gray-800">
+                              <HighlightedText text={TagRegistry.getLabel(field.name, field.group)} query={filter.query} />
+                            </span>
+                            {TagRegistry.getLabel(field.name, field.group) !== field.name && (
+                              <span className="font-mono text-xs text-gray-400">
+                                <HighlightedText text={field.name} query={filter.query} />
+                              </span>
+                            )}
+                            <span className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-500">
+                              <HighlightedText text={METADATA_GROUPS[field.group]} query={filter.query} />
+                            </span>
+                            {filteredRaw[field.group]?.[field.name] && (
+                              <button
+                                onClick={() => setRawFocus({ group: field.group, name: field.name })}
+                                title="Show raw tag"
+                                className="ml-auto p-1 text-gray-400 hover:text-gray-800"
+                              >
+                                <Braces className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
                         
-                        {/* Field value with appropriate indentation */}
-                        <div className="ml-6">
-                          {renderValue(key, value)}
+                          {/* Field value with appropriate indentation */}
+                          <div className="ml-6">
+                            {renderValue(field)}
+                            <DiagnosticList diagnostics={metadata.diagnostics.filter((diagnostic) => diagnostic.field === key)} />
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Raw JSON Column */}
-      <div className="bg-white rounded-2xl shadow-lg overflow-hidden" id="raw-data">
-        {/* Header with different gradient to distinguish from cleaned data */}
-        <div className="bg-gradient-to-r from-gray-600 to-gray-700 px-6 py-4">
-          <h2 className="text-xl font-bold text-white">🔧 Raw JSON</h2>
-          <p className="text-gray-100 text-sm">Complete EXIF data structure</p>
-        </div>
+        {/* Raw Data Column */}
+        <div className="bg-white rounded-2xl shadow-lg overflow-hidden" id="raw-data">
+          {/* Header with different gradient to distinguish from cleaned data */}
+          <div className="bg-gradient-to-r from-gray-600 to-gray-700 px-6 py-4 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-bold text-white">🔧 Raw Data</h2>
+              <p className="text-gray-100 text-sm">Complete metadata structure, grouped by source</p>
+            </div>
+            {/* Export actions for the raw view */}
+            <div className="flex flex-wrap justify-end gap-1">
+              {renderExportButton('JSON', () => handleExport('raw', 'json'))}
+              {renderExportButton('CSV', () => handleExport('raw', 'csv'))}
+            </div>
+          </div>
         
-        {/* Scrollable JSON display with syntax highlighting via background */}
-        <div className="p-6 max-h-[600px] overflow-y-auto">
-          <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words bg-gray-50 p-4 rounded-lg border">
-            {JSON.stringify(rawData, null, 2)}
-          </pre>
+          {/* Collapsible tree that renders only the rows in view */}
+          <div className="p-6">
+            {Object.keys(filteredRaw).length === 0 ? (
+              <p className="text-gray-500 text-sm">No tags match the search and filters.</p>
+            ) : (
+              <RawTreeView
+                raw={filteredRaw}
+                metadata={metadata}
+                query={filter.query}
+                focus={rawFocus}
+                onShowField={scrollToField}
+              />
+            )}
+          </div>
         </div>
       </div>
-    </div>
+    </>
   );
 };
\ No newline at end of file
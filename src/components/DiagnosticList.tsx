@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlertTriangle, Info, XCircle, LucideIcon } from 'lucide-react';
+import { DiagnosticSeverity, ParseDiagnostic } from '../services/MetadataModel';
+
+interface DiagnosticListProps {
+  diagnostics: ParseDiagnostic[];  // Diagnostics to show, most severe first
+}
+
+/**
+ * Icon and complete class names for each severity, so Tailwind keeps them
+ */
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { icon: LucideIcon; box: string; iconColor: string }> = {
+  error: { icon: XCircle, box: 'bg-red-50 border-red-200 text-red-800', iconColor: 'text-red-600' },
+  warning: { icon: AlertTriangle, box: 'bg-amber-50 border-amber-200 text-amber-800', iconColor: 'text-amber-600' },
+  info: { icon: Info, box: 'bg-blue-50 border-blue-200 text-blue-800', iconColor: 'text-blue-600' }
+};
+
+/**
+ * Formats a raw tag value for display
+ *
+ * @param value - Raw value
+ * @returns Compact JSON, or a note that the tag is missing
+ */
+const formatRawValue = (value: unknown): string =>
+  value === undefined ? '(missing)' : JSON.stringify(value);
+
+/**
+ * Inline list of problems found while cleaning a field
+ *
+ * Each entry shows the severity, what was inferred or left out, and the raw
+ * tag values involved, so users can tell a trusted value from a guess.
+ */
+export const DiagnosticList: React.FC<DiagnosticListProps> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-2">
+      {diagnostics.map((diagnostic, index) => {
+        const style = SEVERITY_STYLES[diagnostic.severity];
+        const Icon = style.icon;
+        return (
+          <li key={`${diagnostic.code}-${index}`} className={`p-2 rounded-lg border text-xs ${style.box}`}>
+            <div className="flex items-start gap-2">
+              <Icon className={`w-4 h-4 flex-shrink-0 ${style.iconColor}`} />
+              <div className="min-w-0">
+                <p>{diagnostic.message}</p>
+                <dl className="mt-1 font-mono text-[11px] opacity-80">
+                  {diagnostic.tags.map((tag) => (
+                    <div key={`${tag.group}:${tag.name}`} className="flex gap-2">
+                      <dt>{tag.name}:</dt>
+                      <dd className="break-all">{formatRawValue(tag.value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Images, AlertTriangle, CheckCircle } from 'lucide-react';
+import { PreviewAnalysis, EmbeddedPreview, PreviewVerdict } from '../services/PreviewService';
+
+/**
+ * Props interface for the EmbeddedPreviews component
+ */
+interface EmbeddedPreviewsProps {
+  analysis: PreviewAnalysis;  // Previews extracted from the file and their comparisons
+}
+
+/**
+ * Badge text and colours per comparison verdict
+ */
+const VERDICT_STYLES: Record<PreviewVerdict, { label: string; className: string }> = {
+  match: { label: 'Matches', className: 'bg-green-100 text-green-800' },
+  reframed: { label: 'Reframed', className: 'bg-amber-100 text-amber-800' },
+  altered: { label: 'Partly different', className: 'bg-red-100 text-red-800' },
+  different: { label: 'Different content', className: 'bg-red-100 text-red-800' }
+};
+
+/**
+ * Formats a byte count as a short human-readable size
+ *
+ * @param bytes - Number of bytes
+ * @returns Size string such as "12.4 KB"
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Component listing the preview images embedded in a file
+ *
+ * This component provides:
+ * - The EXIF thumbnail, MakerNote previews and MPF images of the file
+ * - Their pixel dimensions, byte size and position in the file
+ * - A visual comparison with the main image that flags previews showing other content
+ */
+export const EmbeddedPreviews: React.FC<EmbeddedPreviewsProps> = ({ analysis }) => {
+  const { previews, comparisons } = analysis;
+  const [objectUrls, setObjectUrls] = useState<{ previews: EmbeddedPreview[]; urls: string[] } | null>(null);
+
+  // Object URLs of the previews, revoked again when the previews change
+  useEffect(() => {
+    const created = previews.map((preview) => URL.createObjectURL(preview.blob));
+    setObjectUrls({ previews, urls: created });
+    return () => created.forEach((url) => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  // URLs made for earlier previews are already revoked
+  if (previews.length === 0 || objectUrls?.previews !== previews) return null;
+
+  // A comparison is undefined while comparing and null if the images are not decodable
+  const items = previews.map((preview, index) => ({
+    preview,
+    url: objectUrls.urls[index],
+    comparison: comparisons ? comparisons[index] : undefined
+  }));
+
+  return (
+    <div className="lg:w-72">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-800 mb-3">
+        <Images className="w-4 h-4 text-green-700" />
+        Embedded previews ({previews.length})
+      </h3>
+      <ul className="space-y-4">
+        {items.map(({ preview, url, comparison }) => (
+          <li key={preview.offset} className="border border-gray-200 rounded-lg p-3">
+            <img src={url} alt={preview.label} className="max-w-full max-h-40 mx-auto rounded object-contain mb-2" />
+            <div className="text-sm font-medium text-gray-800">{preview.label}</div>
+            <div className="text-xs text-gray-500">
+              {preview.width && preview.height ? `${preview.width} × ${preview.height} px · ` : ''}
+              {formatBytes(preview.blob.size)} at byte {preview.offset.toLocaleString()}
+            </div>
+
+            {/* Result of the comparison with the main image */}
+            {comparison === undefined && <div className="text-xs text-gray-400 mt-2">Comparing with the main image...</div>}
+            {comparison === null && <div className="text-xs text-gray-500 mt-2">The images could not be decoded for comparison.</div>}
+            {comparison && (
+              <div className="mt-2 text-xs">
+                <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-medium ${VERDICT_STYLES[comparison.verdict].className}`}>
+                  {comparison.verdict === 'match' ? <CheckCircle className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                  {VERDICT_STYLES[comparison.verdict].label}
+                </span>
+                <p className="text-gray-600 mt-1">
+                  {comparison.message} (similarity {Math.round(comparison.similarity * 100)}%)
+                </p>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,11 +1,11 @@
 import React from 'react';
-import { Upload, Image, X } from 'lucide-react';
+import { Upload, Image, X, FolderOpen } from 'lucide-react';
 
 /**
  * Props interface for the FileUpload component
  */
 interface FileUploadProps {
-  onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onFilesSelected: (files: File[]) => void; // Called with every file picked, dropped or found in a folder
   fileName: string;
   isLoading: boolean;
   onClear: () => void;
@@ -16,36 +16,69 @@ interface FileUploadProps {
  * 
  * This component provides:
  * - Visual drag-and-drop upload area with hover effects
+ * - Multiple file and whole-folder selection for batch analysis
  * - File type restrictions (images only)
  * - Current file display with clear functionality
  * - Loading state handling to prevent multiple uploads
  * - Accessible design with proper labeling
  */
 export const FileUpload: React.FC<FileUploadProps> = ({
-  onFileUpload,
+  onFilesSelected,
   fileName,
   isLoading,
   onClear
 }) => {
+  /**
+   * Forwards the files chosen in a file input and resets it so the same
+   * selection can be made again
+   *
+   * @param event - File input change event
+   */
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) onFilesSelected(files);
+  };
+
+  /**
+   * Accepts files dropped onto the upload area
+   *
+   * @param event - Drop event
+   */
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    if (isLoading) return;
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) onFilesSelected(files);
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-lg p-8 mb-8" id="upload">
       <div className="flex flex-col items-center">
         {/* Main upload area with drag-and-drop styling */}
         <div className="w-full max-w-md">
-          <label className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors duration-200">
+          <label
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={handleDrop}
+            className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors duration-200">
             <div className="flex flex-col items-center justify-center pt-5 pb-6">
               {/* Upload icon */}
               <Upload className="w-12 h-12 text-gray-400 mb-4" />
               
               {/* Primary instruction text */}
               <p className="mb-2 text-lg font-medium text-gray-700">
-                Drop your image here or click to upload
+                Drop your images here or click to upload
               </p>
               
               {/* Secondary instruction text with supported formats */}
               <p className="text-sm text-gray-500">
                 Supports JPEG, TIFF, and other image formats
               </p>
+              
+              {/* Batch hint */}
+              <p className="text-xs text-gray-400 mt-1">
+                Select several files to analyze them as a batch
+              </p>
             </div>
             
             {/* Hidden file input with proper restrictions */}
@@ -53,12 +86,28 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               type="file"
               className="hidden"
               accept="image/*" // Restrict to image files only
-              onChange={onFileUpload}
+              multiple // Allow several files for batch analysis
+              onChange={handleInputChange}
               disabled={isLoading} // Prevent uploads during processing
             />
           </label>
         </div>
         
+        {/* Folder selection for batch analysis of a whole shoot */}
+        <label className={`flex items-center gap-2 mt-4 px-4 py-2 text-sm text-gray-700 bg-gray-50 rounded-lg transition-colors
+          ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-100'}`}>
+          <FolderOpen className="w-4 h-4 text-gray-500" />
+          Analyze a folder
+          <input
+            type="file"
+            className="hidden"
+            // webkitdirectory is not part of React's typings but is supported by all major browsers
+            {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+            onChange={handleInputChange}
+            disabled={isLoading}
+          />
+        </label>
+        
         {/* Current file display - only shown when a file is selected */}
         {fileName && (
           <div className="flex items-center gap-2 mt-4 px-4 py-2 bg-blue-50 rounded-lg">
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { ScanSearch, Link } from 'lucide-react';
+import { MetadataModel, DiagnosticTag, METADATA_GROUPS } from '../services/MetadataModel';
+import { ForensicService, ForensicReport, ForensicStrength } from '../services/ForensicService';
+import { PreviewAnalysis } from '../services/PreviewService';
+
+/**
+ * Props interface for the ForensicPanel component
+ */
+interface ForensicPanelProps {
+  file: File;                        // Image file being inspected, for the checks on its structure
+  metadata: MetadataModel;           // Parsed metadata of the file
+  previews: PreviewAnalysis | null;  // Embedded previews and their comparisons, for the thumbnail check
+}
+
+/**
+ * Display configuration for each overall level, with complete class names so Tailwind keeps them
+ */
+const LEVEL_CONFIG: Record<ForensicStrength | 'none', { label: string; header: string; subtitle: string }> = {
+  strong: { label: 'Strong signs of editing', header: 'from-red-600 to-red-700', subtitle: 'text-red-100' },
+  moderate: { label: 'Signs of editing', header: 'from-amber-500 to-amber-600', subtitle: 'text-amber-100' },
+  weak: { label: 'Minor signs of editing', header: 'from-yellow-500 to-yellow-600', subtitle: 'text-yellow-100' },
+  info: { label: 'Provenance only', header: 'from-sky-600 to-sky-700', subtitle: 'text-sky-100' },
+  none: { label: 'No signs of editing', header: 'from-slate-600 to-slate-700', subtitle: 'text-slate-100' }
+};
+
+/**
+ * Badge styles for signal strengths
+ */
+const STRENGTH_BADGES: Record<ForensicStrength, string> = {
+  strong: 'bg-red-100 text-red-800',
+  moderate: 'bg-amber-100 text-amber-800',
+  weak: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-sky-100 text-sky-800'
+};
+
+/**
+ * Formats a raw tag value for the compact tag list
+ *
+ * @param value - Raw value
+ * @returns Compact JSON
+ */
+const formatRawValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Component collecting the signs that an image was edited into one report
+ *
+ * This component provides:
+ * - An overall verdict based on the strongest signal found
+ * - One entry per signal with its strength, what was found and what it means
+ * - The raw tags behind each signal, linked to their fields in the data display
+ */
+export const ForensicPanel: React.FC<ForensicPanelProps> = ({ file, metadata, previews }) => {
+  const [report, setReport] = useState<ForensicReport | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setReport(null);
+
+    // The thumbnail check needs the previews compared with the image first
+    if (!previews?.comparisons) return;
+
+    ForensicService.analyze(file, metadata, previews.previews, previews.comparisons)
+      .then((result) => {
+        if (active) setReport(result);
+      })
+      .catch((err) => {
+        console.error('Forensic analysis error:', err);
+        if (active) setReport({ level: 'none', signals: [] });
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [file, metadata, previews]);
+
+  /**
+   * Scrolls to the field showing a raw tag in the cleaned data
+   *
+   * @param key - Cleaned field key
+   */
+  const scrollToField = (key: string) => {
+    document.getElementById(`field-${key}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  /**
+   * Renders a raw tag, as a link when the data display shows it
+   *
+   * @param tag - Raw tag behind a signal
+   * @returns JSX element for the tag list
+   */
+  const renderTag = (tag: DiagnosticTag) => {
+    const key = metadata.getFieldKey(tag.group, tag.name);
+    return (
+      <li key={`${tag.group}:${tag.name}`} className="flex gap-2">
+        {key ? (
+          <button
+            onClick={() => scrollToField(key)}
+            className="flex items-center gap-1 font-medium whitespace-nowrap text-indigo-700 hover:underline"
+          >
+            <Link className="w-3 h-3" />
+            {tag.name}
+          </button>
+        ) : (
+          <span className="font-medium whitespace-nowrap">{tag.name}</span>
+        )}
+        <span className="text-gray-400">{METADATA_GROUPS[tag.group]}</span>
+        <span className="font-mono break-all line-clamp-2">{formatRawValue(tag.value)}</span>
+      </li>
+    );
+  };
+
+  const config = LEVEL_CONFIG[report?.level ?? 'none'];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="forensics">
+      {/* Header section with a gradient reflecting the strongest signal */}
+      <div className={`bg-gradient-to-r ${report ? config.header : 'from-slate-600 to-slate-700'} px-6 py-4`}>
+        <div className="flex items-center gap-2">
+          <ScanSearch className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Authenticity Report</h2>
+          {report && <span className="ml-auto text-sm font-semibold text-white">{config.label}</span>}
+        </div>
+        <p className={`${report ? config.subtitle : 'text-slate-100'} text-sm`}>
+          {!report
+            ? 'Checking the file for signs of editing...'
+            : report.signals.length === 0
+              ? 'Nothing in the metadata or file structure suggests the image was edited'
+              : `${report.signals.length} signal${report.signals.length === 1 ? '' : 's'} found; none of them proves tampering on its own`}
+        </p>
+      </div>
+
+      {/* Signals, strongest first */}
+      {report && report.signals.length > 0 && (
+        <div className="p-6 space-y-4">
+          {report.signals.map((signal) => (
+            <div key={signal.id} className="border-b border-gray-50 pb-4 last:border-b-0 last:pb-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${STRENGTH_BADGES[signal.strength]}`}>
+                  {signal.strength}
+                </span>
+                <h3 className="font-semibold text-gray-900">{signal.title}</h3>
+              </div>
+              <p className="text-sm text-gray-800 mb-1">{signal.detail}</p>
+              <p className="text-sm text-gray-600 mb-2">{signal.explanation}</p>
+              {signal.tags.length > 0 && (
+                <ul className="text-xs text-gray-700 space-y-1">
+                  {signal.tags.map(renderTag)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+/**
+ * Props interface for the HighlightedText component
+ */
+interface HighlightedTextProps {
+  text: string;   // Text to display
+  query: string;  // Search text to mark; nothing is marked when empty
+}
+
+/**
+ * Escapes a string for use inside a regular expression
+ *
+ * @param text - Literal text
+ * @returns Text with regular expression syntax escaped
+ */
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Component marking every case-insensitive occurrence of a search query in a text
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const trimmed = query.trim();
+  if (!trimmed) return <>{text}</>;
+
+  // Splitting on a capturing group puts the matches at the odd indices
+  const parts = text.split(new RegExp(`(${escapeRegExp(trimmed)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{part}</mark>
+          : part
+      )}
+    </>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, Trash2, FolderOpen, ImageOff, MapPin } from 'lucide-react';
+import { HighlightedText } from './HighlightedText';
+import { HistoryService, HistoryEntry } from '../services/HistoryService';
+
+/**
+ * Props interface for the HistoryPanel component
+ */
+interface HistoryPanelProps {
+  revision: number;                      // Changes whenever an entry was stored, so the list reloads
+  activeId: string | null;               // Entry currently shown in the detail view
+  onOpen: (entry: HistoryEntry) => void; // Reopens a stored image
+}
+
+/**
+ * Formats a byte count as a short human-readable size
+ *
+ * @param bytes - Number of bytes
+ * @returns Size string such as "12.4 KB"
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Component listing the images kept in the local history
+ *
+ * This component provides:
+ * - The opt-in switch for storing analyzed images in this browser
+ * - Search by file name, hash, camera, lens, place and capture date
+ * - Reopening an earlier result without the original file
+ * - Deleting single entries or the whole history
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ revision, activeId, onOpen }) => {
+  const [enabled, setEnabled] = useState(HistoryService.isEnabled);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const [error, setError] = useState('');
+  const [thumbnails, setThumbnails] = useState<ReadonlyMap<string, string>>(new Map());
+
+  // Reload the list when an entry was stored elsewhere in the app
+  useEffect(() => {
+    let active = true;
+    HistoryService.list()
+      .then((stored) => {
+        if (active) setEntries(stored);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError('The history is not available in this browser.');
+        console.error('History error:', err);
+      });
+    return () => {
+      active = false;
+    };
+  }, [revision]);
+
+  // Object URLs of the thumbnails, revoked again when the list changes
+  useEffect(() => {
+    const urls = new Map(entries.flatMap((entry) => (entry.thumbnail ? [[entry.id, URL.createObjectURL(entry.thumbnail)] as const] : [])));
+    setThumbnails(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const visible = useMemo(() => HistoryService.search(entries, query), [entries, query]);
+
+  /**
+   * Turns storing analyzed images on or off
+   *
+   * @param value - Whether to store analyzed images
+   */
+  const toggleEnabled = (value: boolean) => {
+    HistoryService.setEnabled(value);
+    setEnabled(value);
+  };
+
+  /**
+   * Deletes a stored image
+   *
+   * @param id - Entry id
+   */
+  const handleRemove = async (id: string) => {
+    try {
+      await HistoryService.remove(id);
+      setEntries((current) => current.filter((entry) => entry.id !== id));
+    } catch (err) {
+      setError('Failed to delete the entry.');
+      console.error('History error:', err);
+    }
+  };
+
+  /**
+   * Deletes every stored image
+   */
+  const handleClear = async () => {
+    setConfirmingClear(false);
+    try {
+      await HistoryService.clear();
+      setEntries([]);
+    } catch (err) {
+      setError('Failed to clear the history.');
+      console.error('History error:', err);
+    }
+  };
+
+  /**
+   * Renders a stored image
+   *
+   * @param entry - Entry to render
+   * @returns JSX element with the thumbnail, details and actions
+   */
+  const renderEntry = (entry: HistoryEntry) => {
+    const { camera, captureDate, city, country } = entry.summary;
+    const thumbnail = thumbnails.get(entry.id);
+    const details = [camera, captureDate].filter(Boolean).join(' · ');
+
+    return (
+      <li
+        key={entry.id}
+        className={`flex items-center gap-4 p-3 rounded-lg border ${entry.id === activeId ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200'}`}
+      >
+        {/* Thumbnail */}
+        <div className="w-16 h-16 flex-shrink-0 flex items-center justify-center rounded bg-gray-100 overflow-hidden">
+          {thumbnail
+            ? <img src={thumbnail} alt={entry.fileName} className="max-w-full max-h-full object-contain" />
+            : <ImageOff className="w-6 h-6 text-gray-400" />}
+        </div>
+
+        {/* Details */}
+        <div className="min-w-0 flex-1">
+          <div className="font-medium text-gray-900 truncate" title={entry.fileName}>
+            <HighlightedText text={entry.fileName} query={query} />
+          </div>
+          {details && (
+            <div className="text-sm text-gray-600 truncate">
+              <HighlightedText text={details} query={query} />
+            </div>
+          )}
+          {city && country && (
+            <div className="flex items-center gap-1 text-sm text-gray-600">
+              <MapPin className="w-3 h-3" />
+              <HighlightedText text={`${city}, ${country}`} query={query} />
+            </div>
+          )}
+          <div className="text-xs text-gray-400 font-mono truncate" title={`SHA-256 ${entry.id}`}>
+            Analyzed {new Date(entry.analyzedAt).toLocaleString()} · {formatBytes(entry.fileSize)} · {entry.id.slice(0, 12)}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onOpen(entry)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Open
+          </button>
+          <button
+            onClick={() => handleRemove(entry.id)}
+            title="Delete from history"
+            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="history">
+      {/* Header section with gradient background */}
+      <div className="bg-gradient-to-r from-indigo-600 to-indigo-700 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <History className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">History</h2>
+        </div>
+        <p className="text-indigo-100 text-sm">Earlier results are kept in this browser only and never leave your device.</p>
+      </div>
+
+      <div className="p-6">
+        {/* Opt-in switch */}
+        <label className="flex items-start gap-3 mb-6 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={enabled}
+            onChange={(event) => toggleEnabled(event.target.checked)}
+          />
+          <div>
+            <div className="font-medium text-gray-800">Keep a history of analyzed images</div>
+            <div className="text-xs text-gray-500">
+              Stores the metadata, a small thumbnail and a hash of each image you open, including any location it reveals.
+            </div>
+          </div>
+        </label>
+
+        {entries.length > 0 && (
+          <>
+            {/* Search and clear */}
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <div className="relative flex-1 min-w-[12rem]">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  placeholder="Search by file name, camera, place, date or hash"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              {confirmingClear ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-700">Delete all {entries.length} entries?</span>
+                  <button onClick={handleClear} className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors">
+                    Delete all
+                  </button>
+                  <button onClick={() => setConfirmingClear(false)} className="px-3 py-1.5 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmingClear(true)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clear history
+                </button>
+              )}
+            </div>
+
+            {/* Entries */}
+            {visible.length > 0
+              ? <ul className="space-y-2">{visible.map(renderEntry)}</ul>
+              : <p className="text-sm text-gray-500">No stored image matches “{query}”.</p>}
+          </>
+        )}
+
+        {entries.length === 0 && !error && (
+          <p className="text-sm text-gray-500">
+            {enabled ? 'Images you analyze will appear here.' : 'The history is off. Nothing is stored.'}
+          </p>
+        )}
+
+        {/* Inline error message */}
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+};
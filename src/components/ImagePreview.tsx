@@ -1,5 +1,7 @@
 import React from 'react';
 import { Image } from 'lucide-react';
+import { PreviewAnalysis } from '../services/PreviewService';
+import { EmbeddedPreviews } from './EmbeddedPreviews';
 
 /**
  * Props interface for the ImagePreview component
@@ -7,6 +9,7 @@ import { Image } from 'lucide-react';
 interface ImagePreviewProps {
   imageUrl: string;  // Object URL for the uploaded image
   fileName: string;  // Name of the uploaded file
+  previews?: PreviewAnalysis | null;  // Embedded previews of the image, once extracted
 }
 
 /**
@@ -18,8 +21,9 @@ interface ImagePreviewProps {
  * - File name display in the header
  * - Consistent styling with other application components
  * - Optimized image rendering with object-contain
+ * - Embedded thumbnails and previews beside the image, compared with it
  */
-export const ImagePreview: React.FC<ImagePreviewProps> = ({ imageUrl, fileName }) => {
+export const ImagePreview: React.FC<ImagePreviewProps> = ({ imageUrl, fileName, previews }) => {
   return (
     <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="preview">
       {/* Header section with gradient background */}
@@ -35,8 +39,8 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({ imageUrl, fileName }
       </div>
       
       {/* Image display area */}
-      <div className="p-6">
-        <div className="flex justify-center">
+      <div className="p-6 flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 flex justify-center items-start">
           <img
             src={imageUrl}
             alt={fileName}
@@ -46,6 +50,9 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({ imageUrl, fileName }
             // max-w-full ensures the image doesn't overflow its container on smaller screens
           />
         </div>
+
+        {/* Embedded previews, compared with the image */}
+        {previews && <EmbeddedPreviews analysis={previews} />}
       </div>
     </div>
   );
@@ -1,25 +1,78 @@
 import React from 'react';
+import { ParseProgress } from '../services/MetadataWorkerClient';
+
+/**
+ * Props interface for the LoadingState component
+ */
+interface LoadingStateProps {
+  progress?: ParseProgress | null; // Latest progress reported by the parser, if any
+  onCancel?: () => void;           // Cancels the running parse when provided
+}
+
+/**
+ * Formats a byte count as a short human-readable size
+ *
+ * @param bytes - Number of bytes
+ * @returns Size string such as "12.4 MB"
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 /**
  * Loading state component displayed during metadata processing
- * 
+ *
  * This component provides user feedback during the potentially time-consuming
  * process of parsing metadata from large image files. It includes:
  * - Animated spinner for visual feedback
  * - Clear messaging about the current operation
- * - Additional context about processing time expectations
+ * - Progress bar with bytes read and current stage
+ * - Optional cancel button
  */
-export const LoadingState: React.FC = () => {
+export const LoadingState: React.FC<LoadingStateProps> = ({ progress, onCancel }) => {
+  const percent = progress && progress.totalBytes > 0
+    ? Math.round((progress.bytesRead / progress.totalBytes) * 100)
+    : 0;
+
   return (
     <div className="text-center py-12">
       {/* Animated loading spinner */}
       <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
-      
-      {/* Primary loading message */}
-      <p className="text-gray-600 text-lg">Parsing metadata...</p>
-      
-      {/* Secondary message to set expectations about processing time */}
-      <p className="text-gray-500 text-sm mt-2">This may take a moment for large images</p>
+
+      {/* Primary loading message, reflecting the current stage */}
+      <p className="text-gray-600 text-lg">
+        {progress?.stage === 'reading' ? 'Reading file...' : 'Parsing metadata...'}
+      </p>
+
+      {/* Progress bar - shown once the parser reports progress */}
+      {progress ? (
+        <div className="max-w-sm mx-auto mt-4">
+          {progress.stage === 'reading' && (
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+          {/* Only metadata segments are read, so this is often far less than the file size */}
+          <p className="text-gray-500 text-sm mt-2">
+            Read {formatBytes(progress.bytesRead)} of {formatBytes(progress.totalBytes)}
+          </p>
+        </div>
+      ) : (
+        /* Secondary message to set expectations about processing time */
+        <p className="text-gray-500 text-sm mt-2">This may take a moment for large images</p>
+      )}
+
+      {/* Cancel button */}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-4 px-4 py-1 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,30 +1,81 @@
-import React from 'react';
-import { MapPin } from 'lucide-react';
-
-/**
- * Interface defining the structure of location coordinate data
- */
-interface LocationCoordinates {
-  latitude: number;    // Decimal degrees latitude
-  longitude: number;   // Decimal degrees longitude
-  formatted: string;   // Human-readable coordinate string (e.g., "40.123456° N, 74.123456° W")
-  mapsUrl: string;    // Maps URL for the location
-}
+import React, { useState } from 'react';
+import { MapPin, Crosshair } from 'lucide-react';
+import { LocationCoordinates } from '../services/MetadataModel';
+import { MapProviderService, MapSettings, GeoPoint, MAP_PROVIDERS } from '../services/MapProviderService';
+import { GeocodingService } from '../services/GeocodingService';
+import { MapSettingsMenu } from './MapSettingsMenu';
+import { MapOverlay } from './MapOverlay';
+import { OfflineMap } from './OfflineMap';
+import { TileMap } from './TileMap';
 
 interface LocationDisplayProps {
   coordinates: LocationCoordinates;
+  picked?: GeoPoint | null;            // Position picked as an edit, if any
+  onPick?: (point: GeoPoint) => void;  // Enables picking a new position on the map
 }
 
 /**
  * Component for displaying location coordinates with enhanced visualization
- * 
+ *
  * This component provides a comprehensive display of location data including:
  * - Formatted coordinate display with hemisphere indicators
- * - Clickable link to view location on maps
- * - Embedded map iframe for immediate location visualization
+ * - The nearest city, region and country from the offline gazetteer
+ * - Altitude, direction of view, speed, GPS time, accuracy and datum when recorded
+ * - Clickable link to view the location in the chosen map provider
+ * - A map from the chosen provider with the direction of view and accuracy radius;
+ *   the default offline outline needs no network
+ * - A persisted choice of map provider
+ * - Picking a corrected position on the offline or tile map, when editing is enabled
  * - Responsive design that works well within the data display layout
  */
-export const LocationDisplay: React.FC<LocationDisplayProps> = ({ coordinates }) => {
+export const LocationDisplay: React.FC<LocationDisplayProps> = ({ coordinates, picked, onPick }) => {
+  const [settings, setSettings] = useState<MapSettings>(() => MapProviderService.loadSettings());
+  const [isPicking, setIsPicking] = useState(false);
+  const linkUrl = MapProviderService.getLinkUrl(coordinates, settings);
+  const pick = isPicking ? onPick : undefined;
+
+  /**
+   * Applies and persists changed map settings
+   */
+  const handleSettingsChange = (changed: MapSettings) => {
+    setSettings(changed);
+    MapProviderService.saveSettings(changed);
+  };
+
+  /**
+   * Renders the map for the chosen provider
+   */
+  const renderMap = () => {
+    if (settings.provider === 'offline') {
+      return <OfflineMap coordinates={coordinates} picked={picked} onPick={pick} />;
+    }
+
+    if (settings.provider === 'tiles') {
+      return MapProviderService.validateTileUrl(settings.tileUrl) ? null : (
+        <TileMap coordinates={coordinates} tileUrl={settings.tileUrl} picked={picked} onPick={pick} />
+      );
+    }
+
+    // Embeds are centered on the location but their scale is unknown, so only the direction is drawn
+    return (
+      <div className="relative">
+        <iframe
+          title="Location Map"
+          width="100%"
+          height="300"
+          className="rounded-xl shadow-lg border border-gray-200"
+          frameBorder="0"
+          style={{ border: 0 }}
+          src={MapProviderService.getEmbedUrl(coordinates, settings) ?? undefined}
+          allowFullScreen
+        />
+        <MapOverlay direction={coordinates.imgDirection} />
+      </div>
+    );
+  };
+
+  const details = MapProviderService.getFixDetails(coordinates);
+
   return (
     <div className="space-y-2">
       {/* Coordinate Information Card */}
@@ -33,37 +84,74 @@ export const LocationDisplay: React.FC<LocationDisplayProps> = ({ coordinates })
         <div className="text-sm font-medium text-gray-700 mb-2">
           📍 {coordinates.formatted}
         </div>
-        
+
+        {/* Nearest named place, looked up offline */}
+        {coordinates.place && (
+          <div className="text-sm text-gray-800 mb-1">
+            {GeocodingService.formatPlace(coordinates.place)}
+            <span className="text-xs text-gray-500">
+              {coordinates.place.distance < 1 ? ' (nearby)' : ` (${coordinates.place.distance} km away)`}
+            </span>
+          </div>
+        )}
+
         {/* Technical coordinate display for developers/technical users */}
         <div className="text-xs text-gray-500 mb-3">
           Lat: {coordinates.latitude}, Lng: {coordinates.longitude}
         </div>
-        
-        {/* External link to Google Maps */}
+
+        {/* Details of the GPS fix */}
+        {details.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs mb-3">
+            {details.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-800">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+
+        {/* External link following the chosen provider */}
         <a
-          href={coordinates.mapsUrl}
+          href={linkUrl}
           target="_blank"
           rel="noopener noreferrer"
           className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-xs rounded-full hover:bg-blue-700 transition-colors"
         >
           <MapPin className="w-3 h-3" />
-          View on Maps
+          {linkUrl.startsWith('geo:')
+            ? 'Open in Maps app'
+            : `View on ${settings.provider === 'tiles' ? 'map' : MAP_PROVIDERS[settings.provider].label}`}
         </a>
+
+        {/* Picking a corrected position for the metadata editor */}
+        {onPick && (
+          <button
+            onClick={() => setIsPicking((current) => !current)}
+            className={`ml-2 inline-flex items-center gap-1 px-3 py-1 text-xs rounded-full transition-colors
+              ${isPicking ? 'bg-orange-500 text-white hover:bg-orange-600' : 'bg-white text-orange-700 border border-orange-200 hover:bg-orange-50'}`}
+          >
+            <Crosshair className="w-3 h-3" />
+            {isPicking ? 'Done picking' : 'Pick new position'}
+          </button>
+        )}
+        {isPicking && (
+          <p className="text-xs text-orange-700 mt-2">
+            {settings.provider === 'offline' || settings.provider === 'tiles'
+              ? 'Click the map to set the position written by the metadata editor.'
+              : 'Embedded maps cannot report clicks; switch to the offline or tile map to pick a position.'}
+          </p>
+        )}
       </div>
-      
-      {/* Embedded map for immediate location visualization */}
+
+      {/* Map provider choice */}
+      <MapSettingsMenu settings={settings} onChange={handleSettingsChange} />
+
+      {/* Map for immediate location visualization */}
       <div className="mt-4">
-        <iframe
-          title="Location Map"
-          width="100%"
-          height="300"
-          className="rounded-xl shadow-lg border border-gray-200"
-          frameBorder="0"
-          style={{ border: 0 }}
-          src={`https://www.google.com/maps?q=${coordinates.latitude},${coordinates.longitude}&z=15&output=embed`}
-          allowFullScreen
-        />
+        {renderMap()}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
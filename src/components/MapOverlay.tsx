@@ -0,0 +1,47 @@
+import React from 'react';
+import { MapProviderService } from '../services/MapProviderService';
+
+interface MapOverlayProps {
+  direction?: number;       // Degrees clockwise from north the camera was pointing
+  accuracyRadius?: number;  // Radius of the position accuracy in pixels
+}
+
+// Length of the direction-of-view cone in pixels
+const CONE_LENGTH = 70;
+
+/**
+ * Direction-of-view cone and accuracy circle drawn over the center of a map
+ *
+ * Used on maps the app does not draw itself (tiles and embeds), which put
+ * the location at their center. The overlay ignores the pointer so the map
+ * underneath stays usable.
+ */
+export const MapOverlay: React.FC<MapOverlayProps> = ({ direction, accuracyRadius }) => {
+  if (direction === undefined && accuracyRadius === undefined) return null;
+
+  // Large enough for the cone and a circle that may extend past the map
+  const size = Math.max(CONE_LENGTH, Math.min(accuracyRadius ?? 0, 1000)) * 2 + 4;
+  const center = size / 2;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      className="absolute left-1/2 top-1/2 pointer-events-none"
+      style={{ marginLeft: -center, marginTop: -center }}
+      aria-hidden="true"
+    >
+      {accuracyRadius !== undefined && (
+        <circle cx={center} cy={center} r={Math.min(accuracyRadius, 1000)} fill="#2563eb" fillOpacity={0.12} stroke="#2563eb" strokeOpacity={0.6} />
+      )}
+      {direction !== undefined && (
+        <path
+          d={MapProviderService.getDirectionConePath(center, center, direction, CONE_LENGTH)}
+          fill="#f59e0b"
+          fillOpacity={0.35}
+          stroke="#d97706"
+        />
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { MapProviderId, MapProviderService, MapSettings, MAP_PROVIDERS } from '../services/MapProviderService';
+
+interface MapSettingsMenuProps {
+  settings: MapSettings;
+  onChange: (settings: MapSettings) => void;
+}
+
+/**
+ * Settings for the map shown next to GPS coordinates
+ *
+ * This component provides:
+ * - A choice of map provider, with a note on what each one sends over the network
+ * - Tile and link URL templates for a custom (e.g. self-hosted) tile server
+ */
+export const MapSettingsMenu: React.FC<MapSettingsMenuProps> = ({ settings, onChange }) => {
+  const provider = MAP_PROVIDERS[settings.provider];
+  const tileError = settings.provider === 'tiles' ? MapProviderService.validateTileUrl(settings.tileUrl) : null;
+  const linkError = settings.provider === 'tiles' ? MapProviderService.validateLinkUrl(settings.linkUrl) : null;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="font-medium text-gray-700">Map</span>
+        <select
+          value={settings.provider}
+          onChange={(e) => onChange({ ...settings, provider: e.target.value as MapProviderId })}
+          className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+        >
+          {Object.entries(MAP_PROVIDERS).map(([id, { label }]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <p className={provider.sendsLocation ? 'text-amber-700' : 'text-green-700'}>{provider.description}</p>
+
+      {settings.provider === 'tiles' && (
+        <div className="space-y-2">
+          <label className="block">
+            <span className="text-gray-700">Tile URL</span>
+            <input
+              type="url"
+              value={settings.tileUrl}
+              onChange={(e) => onChange({ ...settings, tileUrl: e.target.value })}
+              placeholder="https://tiles.example.com/{z}/{x}/{y}.png"
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 font-mono"
+            />
+          </label>
+          {tileError && <p className="text-red-600">{tileError}</p>}
+          <label className="block">
+            <span className="text-gray-700">Link URL (optional)</span>
+            <input
+              type="url"
+              value={settings.linkUrl}
+              onChange={(e) => onChange({ ...settings, linkUrl: e.target.value })}
+              placeholder="https://maps.example.com/#map={z}/{lat}/{lon}"
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 font-mono"
+            />
+          </label>
+          {linkError && <p className="text-red-600">{linkError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
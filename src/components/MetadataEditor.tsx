@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { PenLine, Download, Undo2, Crosshair } from 'lucide-react';
+import { MetadataModel } from '../services/MetadataModel';
+import {
+  MetadataEditService,
+  MetadataEdits,
+  EditableFieldId,
+  EDITABLE_FIELDS
+} from '../services/MetadataEditService';
+import { ExportService } from '../services/ExportService';
+import { OfflineMap } from './OfflineMap';
+
+/**
+ * Props interface for the MetadataEditor component
+ */
+interface MetadataEditorProps {
+  file: File;                                 // Original image file to write the edits into
+  metadata: MetadataModel;                    // Parsed metadata the edits are compared against
+  edits: MetadataEdits;                       // Values entered so far
+  onChange: (edits: MetadataEdits) => void;   // Receives the updated values
+}
+
+/**
+ * Component for editing common metadata fields and downloading the edited image
+ *
+ * This component provides:
+ * - Inputs for artist, copyright, description, capture date, keywords and GPS position
+ * - Validation of each value against the syntax of the tags it is written to
+ * - A list of pending changes against the values in the image, each revertible
+ * - Picking the GPS position on the offline map
+ * - A download button producing a copy with the changes written losslessly
+ */
+export const MetadataEditor: React.FC<MetadataEditorProps> = ({ file, metadata, edits, onChange }) => {
+  const [isPicking, setIsPicking] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const originals = MetadataEditService.getOriginalValues(metadata);
+  const changes = MetadataEditService.getPendingChanges(metadata, edits);
+  const hasErrors = changes.some((change) => change.error !== null);
+
+  /**
+   * Updates the value of one field
+   *
+   * @param id - Field to update
+   * @param value - New value
+   */
+  const setValue = (id: EditableFieldId, value: string) => {
+    onChange({ ...edits, [id]: value });
+  };
+
+  /**
+   * Drops the edit of one field so the value in the image is kept
+   *
+   * @param id - Field to revert
+   */
+  const revert = (id: EditableFieldId) => {
+    const remaining = { ...edits };
+    delete remaining[id];
+    onChange(remaining);
+  };
+
+  /**
+   * Writes the pending changes into a copy of the image and triggers a browser download
+   */
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setError('');
+
+    try {
+      const values: MetadataEdits = Object.fromEntries(changes.map((change) => [change.id, change.value]));
+      const blob = await MetadataEditService.applyEdits(file, values);
+      ExportService.download(blob, file.name.replace(/(\.[^.]+)?$/, '-edited$1'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to write metadata.');
+      console.error('Metadata edit error:', err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const positionValue = edits.position ?? originals.position;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="edit">
+      {/* Header section with gradient background */}
+      <div className="bg-gradient-to-r from-amber-500 to-orange-600 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <PenLine className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Edit Metadata</h2>
+        </div>
+        <p className="text-amber-100 text-sm">Changes are written into EXIF, XMP and any existing IPTC. Image pixels are not re-encoded.</p>
+      </div>
+
+      <div className="p-6">
+        {/* Field inputs */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {(Object.keys(EDITABLE_FIELDS) as EditableFieldId[]).map((id) => {
+            const field = EDITABLE_FIELDS[id];
+            const value = edits[id] ?? originals[id];
+            const message = MetadataEditService.validate(id, value);
+            return (
+              <div key={id}>
+                <label htmlFor={`edit-${id}`} className="block text-sm font-medium text-gray-800">{field.label}</label>
+                <span className="block text-xs text-gray-500 mb-1">{field.targets}</span>
+                <div className="flex gap-2">
+                  <input
+                    id={`edit-${id}`}
+                    type="text"
+                    value={value}
+                    placeholder={field.placeholder}
+                    onChange={(event) => setValue(id, event.target.value)}
+                    className={`flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border focus:outline-none focus:ring-2
+                      ${message ? 'border-red-300 focus:ring-red-200' : 'border-gray-200 focus:ring-amber-200'}`}
+                  />
+                  {id === 'position' && (
+                    <button
+                      type="button"
+                      onClick={() => setIsPicking((current) => !current)}
+                      className={`px-3 rounded-lg border transition-colors
+                        ${isPicking ? 'bg-orange-500 text-white border-orange-500' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                      title="Pick on map"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {message && <span className="block text-xs text-red-600 mt-1">{message}</span>}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Map for picking the GPS position */}
+        {isPicking && (
+          <div className="mb-6">
+            <p className="text-xs text-gray-500 mb-2">Click the map to set the GPS position.</p>
+            <OfflineMap
+              coordinates={metadata.location ?? undefined}
+              picked={MetadataEditService.parsePosition(positionValue)}
+              onPick={(point) => setValue('position', MetadataEditService.formatPosition(point))}
+            />
+          </div>
+        )}
+
+        {/* Pending changes against the values in the image */}
+        {changes.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">Pending changes ({changes.length})</h3>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+              {changes.map((change) => (
+                <li key={change.id} className="flex items-start gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-800">{change.label}</div>
+                    <div className="text-xs text-gray-500 line-through break-all">{change.original || '(not set)'}</div>
+                    <div className="text-xs text-gray-800 break-all">{change.value || '(removed)'}</div>
+                    {change.error && <div className="text-xs text-red-600 mt-1">{change.error}</div>}
+                  </div>
+                  <button
+                    onClick={() => revert(change.id)}
+                    className="p-1.5 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded"
+                    title="Revert"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Download and discard actions */}
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleDownload}
+            disabled={isWorking || changes.length === 0 || hasErrors}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {isWorking ? 'Writing...' : 'Download edited image'}
+          </button>
+          <button
+            onClick={() => onChange({})}
+            disabled={changes.length === 0}
+            className="px-4 py-2 text-gray-700 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Discard changes
+          </button>
+        </div>
+
+        {/* Inline error message */}
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+};
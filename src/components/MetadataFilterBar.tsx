@@ -0,0 +1,83 @@
+import React from 'react';
+import { Search, X, ShieldAlert, EyeOff, LucideIcon } from 'lucide-react';
+import { FieldFilter, EMPTY_FILTER, MetadataFilterService } from '../services/MetadataFilterService';
+
+/**
+ * Props interface for the MetadataFilterBar component
+ */
+interface MetadataFilterBarProps {
+  filter: FieldFilter;                       // Current filter
+  onChange: (filter: FieldFilter) => void;   // Called with the updated filter
+  cleanedCount: [number, number];            // Cleaned fields shown and in total
+  rawCount: [number, number];                // Raw tags shown and in total
+}
+
+/**
+ * Component with the search box and quick toggles that filter both metadata views
+ *
+ * This component provides:
+ * - A search box matching tag names, labels, values and groups as you type
+ * - Toggles for only fields with privacy impact and for hiding empty or unknown tags
+ * - How many cleaned fields and raw tags the filter leaves
+ */
+export const MetadataFilterBar: React.FC<MetadataFilterBarProps> = ({ filter, onChange, cleanedCount, rawCount }) => {
+  /**
+   * Renders a toggle button for a filter criterion
+   *
+   * @param key - Criterion the button switches
+   * @param label - Button text
+   * @param Icon - Icon shown before the text
+   * @returns JSX element with the button
+   */
+  const renderToggle = (key: 'privacyOnly' | 'hideEmpty', label: string, Icon: LucideIcon) => (
+    <button
+      onClick={() => onChange({ ...filter, [key]: !filter[key] })}
+      aria-pressed={filter[key]}
+      className={`flex items-center gap-1 px-3 py-1 text-xs rounded-full transition-colors
+        ${filter[key] ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-4 mb-8">
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Search box */}
+        <div className="relative flex-1 min-w-[16rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(event) => onChange({ ...filter, query: event.target.value })}
+            placeholder="Search tag names, values or groups"
+            aria-label="Search metadata"
+            className="w-full pl-9 pr-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-200"
+          />
+        </div>
+
+        {/* Quick toggles */}
+        {renderToggle('privacyOnly', 'Privacy impact only', ShieldAlert)}
+        {renderToggle('hideEmpty', 'Hide empty & unknown', EyeOff)}
+
+        {MetadataFilterService.isActive(filter) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="flex items-center gap-1 px-3 py-1 text-xs text-gray-600 hover:text-gray-900"
+          >
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Result counts for both views */}
+      {MetadataFilterService.isActive(filter) && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing {cleanedCount[0]} of {cleanedCount[1]} cleaned fields and {rawCount[0]} of {rawCount[1]} raw tags
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Upload, Image, Database, FileText, Plus } from 'lucide-react';
+import { Image, Database, FileText, Plus, ShieldCheck, ShieldAlert, Layers, PenLine, ScanSearch, History, ClipboardList } from 'lucide-react';
 
 /**
  * Props interface for the NavigationMenu component
@@ -7,6 +7,8 @@ import { Upload, Image, Database, FileText, Plus } from 'lucide-react';
 interface NavigationMenuProps {
   hasData: boolean;   // Whether metadata has been successfully parsed
   hasImage: boolean;  // Whether an image has been uploaded and is ready for preview
+  hasBatch: boolean;  // Whether several files are being analyzed as a batch
+  hasFile: boolean;   // Whether the original file is loaded, rather than a result reopened from the history
   onUploadClick: () => void; // Callback to show upload section
 }
 
@@ -20,7 +22,7 @@ interface NavigationMenuProps {
  * - Visual consistency with color-coded section buttons
  * - Responsive design that works on all screen sizes
  */
-export const NavigationMenu: React.FC<NavigationMenuProps> = ({ hasData, hasImage, onUploadClick }) => {
+export const NavigationMenu: React.FC<NavigationMenuProps> = ({ hasData, hasImage, hasBatch, hasFile, onUploadClick }) => {
   /**
    * Smoothly scrolls to a specific section of the page
    * 
@@ -53,6 +55,17 @@ export const NavigationMenu: React.FC<NavigationMenuProps> = ({ hasData, hasImag
           Upload New File
         </button>
         
+        {/* Batch results button - only shown in batch mode */}
+        {hasBatch && (
+          <button
+            onClick={() => scrollToSection('batch')}
+            className="flex items-center gap-2 px-4 py-2 bg-sky-50 text-sky-700 rounded-lg hover:bg-sky-100 transition-colors"
+          >
+            <Layers className="w-4 h-4" />
+            Batch Results
+          </button>
+        )}
+        
         {/* Image preview button - only shown when an image is available */}
         {hasImage && (
           <button
@@ -67,6 +80,56 @@ export const NavigationMenu: React.FC<NavigationMenuProps> = ({ hasData, hasImag
         {/* Data section buttons - only shown when EXIF data is available */}
         {hasData && (
           <>
+            {/* Privacy report section button */}
+            <button
+              onClick={() => scrollToSection('privacy')}
+              className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              <ShieldAlert className="w-4 h-4" />
+              Privacy Report
+            </button>
+            
+            {/* File tool buttons - only shown when the original file is loaded */}
+            {hasFile && (
+              <>
+                {/* Authenticity report section button */}
+                <button
+                  onClick={() => scrollToSection('forensics')}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-50 text-slate-700 rounded-lg hover:bg-slate-100 transition-colors"
+                >
+                  <ScanSearch className="w-4 h-4" />
+                  Authenticity
+                </button>
+                
+                {/* Sanitize section button */}
+                <button
+                  onClick={() => scrollToSection('sanitize')}
+                  className="flex items-center gap-2 px-4 py-2 bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 transition-colors"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Remove Metadata
+                </button>
+                
+                {/* Metadata editor section button */}
+                <button
+                  onClick={() => scrollToSection('edit')}
+                  className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 transition-colors"
+                >
+                  <PenLine className="w-4 h-4" />
+                  Edit Metadata
+                </button>
+                
+                {/* Report section button */}
+                <button
+                  onClick={() => scrollToSection('report')}
+                  className="flex items-center gap-2 px-4 py-2 bg-cyan-50 text-cyan-700 rounded-lg hover:bg-cyan-100 transition-colors"
+                >
+                  <ClipboardList className="w-4 h-4" />
+                  Report
+                </button>
+              </>
+            )}
+            
             {/* Cleaned data section button */}
             <button
               onClick={() => scrollToSection('cleaned-data')}
@@ -76,16 +139,25 @@ export const NavigationMenu: React.FC<NavigationMenuProps> = ({ hasData, hasImag
               Cleaned Data
             </button>
             
-            {/* Raw JSON section button */}
+            {/* Raw data section button */}
             <button
               onClick={() => scrollToSection('raw-data')}
               className="flex items-center gap-2 px-4 py-2 bg-gray-50 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
             >
               <FileText className="w-4 h-4" />
-              Raw JSON
+              Raw Data
             </button>
           </>
         )}
+        
+        {/* History section button - the history panel is always on the page */}
+        <button
+          onClick={() => scrollToSection('history')}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 transition-colors"
+        >
+          <History className="w-4 h-4" />
+          History
+        </button>
       </div>
     </div>
   );
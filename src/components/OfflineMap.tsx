@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { LocationCoordinates } from '../services/MetadataModel';
+import { WorldOutlineService, MapBounds } from '../services/WorldOutlineService';
+import { MapProviderService, GeoPoint } from '../services/MapProviderService';
+
+interface OfflineMapProps {
+  coordinates?: LocationCoordinates;      // Location recorded in the image, if any
+  picked?: GeoPoint | null;               // Position picked for editing, drawn as a second marker
+  onPick?: (point: GeoPoint) => void;     // Makes the map clickable to pick a position
+}
+
+// Width in degrees of the regional view next to the world view
+const REGION_SPAN = 40;
+
+// The world repeats on both sides so views near the antimeridian stay filled
+const WORLD_COPIES = [-360, 0, 360];
+
+interface OutlineViewProps extends OfflineMapProps {
+  paths: string[];
+  bounds: MapBounds;
+  title: string;
+}
+
+/**
+ * One equirectangular view of the country outlines with the location marked
+ */
+const OutlineView: React.FC<OutlineViewProps> = ({ paths, bounds, coordinates, picked, onPick, title }) => {
+  const span = bounds.east - bounds.west;
+  const markerRadius = span / 90;
+  const accuracy = coordinates && MapProviderService.getAccuracyRadius(coordinates);
+  const accuracySize = coordinates && accuracy && MapProviderService.metresToDegrees(coordinates.latitude, accuracy.metres);
+  const gridStep = span > 90 ? 30 : 10;
+  const meridians = [];
+  for (let lon = Math.ceil(bounds.west / gridStep) * gridStep; lon <= bounds.east; lon += gridStep) meridians.push(lon);
+  const parallels = [];
+  for (let lat = Math.ceil(bounds.south / gridStep) * gridStep; lat <= bounds.north; lat += gridStep) parallels.push(lat);
+
+  /**
+   * Converts the clicked screen point to map units, which are degrees
+   */
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const matrix = event.currentTarget.getScreenCTM();
+    if (!onPick || !matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    onPick({
+      latitude: Math.max(-90, Math.min(90, -point.y)),
+      longitude: ((((point.x + 180) % 360) + 360) % 360) - 180
+    });
+  };
+
+  return (
+    <svg
+      viewBox={WorldOutlineService.toViewBox(bounds)}
+      className={`w-full h-auto bg-sky-50 rounded-xl border border-gray-200 ${onPick ? 'cursor-crosshair' : ''}`}
+      role="img"
+      aria-label={title}
+      onClick={handleClick}
+    >
+      <title>{title}</title>
+
+      {/* Graticule */}
+      <g stroke="#bae6fd" strokeWidth={1}>
+        {meridians.map((lon) => (
+          <line key={`m${lon}`} x1={lon} y1={-bounds.north} x2={lon} y2={-bounds.south} vectorEffect="non-scaling-stroke" />
+        ))}
+        {parallels.map((lat) => (
+          <line key={`p${lat}`} x1={bounds.west} y1={-lat} x2={bounds.east} y2={-lat} vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+
+      {/* Countries */}
+      {WORLD_COPIES.map((offset) => (
+        <g key={offset} transform={`translate(${offset} 0)`} fill="#e5e7eb" stroke="#9ca3af">
+          {paths.map((path, index) => (
+            <path key={index} d={path} strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+          ))}
+        </g>
+      ))}
+
+      {/* Accuracy, to scale; only visible for very imprecise fixes at these zoom levels */}
+      {coordinates && accuracySize && (
+        <ellipse
+          cx={coordinates.longitude}
+          cy={-coordinates.latitude}
+          rx={accuracySize.x}
+          ry={accuracySize.y}
+          fill="#2563eb"
+          fillOpacity={0.12}
+          stroke="#2563eb"
+          strokeOpacity={0.6}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {/* Direction of view; its length is not to scale */}
+      {coordinates?.imgDirection !== undefined && (
+        <path
+          d={MapProviderService.getDirectionConePath(coordinates.longitude, -coordinates.latitude, coordinates.imgDirection, span / 12)}
+          fill="#f59e0b"
+          fillOpacity={0.35}
+          stroke="#d97706"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {/* Location marker */}
+      {coordinates && (
+        <>
+          <circle
+            cx={coordinates.longitude}
+            cy={-coordinates.latitude}
+            r={markerRadius * 2.5}
+            fill="#2563eb"
+            fillOpacity={0.2}
+          />
+          <circle
+            cx={coordinates.longitude}
+            cy={-coordinates.latitude}
+            r={markerRadius}
+            fill="#2563eb"
+            stroke="white"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        </>
+      )}
+
+      {/* Picked position */}
+      {picked && (
+        <circle
+          cx={picked.longitude}
+          cy={-picked.latitude}
+          r={markerRadius}
+          fill="#f97316"
+          stroke="white"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+/**
+ * Map drawn from the country outlines bundled with the app
+ *
+ * Shows the location on a world view and a regional view without loading
+ * anything from the network. With onPick set, clicking either view picks a
+ * position; the regional view follows the picked position when the image
+ * has no location of its own.
+ */
+export const OfflineMap: React.FC<OfflineMapProps> = ({ coordinates, picked, onPick }) => {
+  const [paths, setPaths] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    WorldOutlineService.loadCountryPaths().then((loaded) => {
+      if (active) setPaths(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  if (!paths) {
+    return <div className="h-40 rounded-xl bg-gray-50 animate-pulse" />;
+  }
+
+  const { latitude, longitude } = coordinates ?? picked ?? { latitude: 0, longitude: 0 };
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <OutlineView
+        paths={paths}
+        bounds={{ west: -180, south: -90, east: 180, north: 90 }}
+        coordinates={coordinates}
+        picked={picked}
+        onPick={onPick}
+        title="Location on a world map"
+      />
+      <OutlineView
+        paths={paths}
+        bounds={WorldOutlineService.getBounds(latitude, longitude, REGION_SPAN)}
+        coordinates={coordinates}
+        picked={picked}
+        onPick={onPick}
+        title="Location on a regional map"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { MetadataModel, CleanedValue, METADATA_GROUPS } from '../services/MetadataModel';
+import { PrivacyService, PrivacySeverity } from '../services/PrivacyService';
+
+/**
+ * Props interface for the PrivacyReportCard component
+ */
+interface PrivacyReportCardProps {
+  metadata: MetadataModel;  // Parsed metadata of the image being inspected
+}
+
+/**
+ * Display configuration for each overall level, with complete class names so Tailwind keeps them
+ */
+const LEVEL_CONFIG: Record<PrivacySeverity | 'none', { label: string; header: string; subtitle: string; bar: string }> = {
+  high: { label: 'High risk', header: 'from-red-600 to-red-700', subtitle: 'text-red-100', bar: 'bg-red-500' },
+  medium: { label: 'Medium risk', header: 'from-amber-500 to-amber-600', subtitle: 'text-amber-100', bar: 'bg-amber-500' },
+  low: { label: 'Low risk', header: 'from-yellow-500 to-yellow-600', subtitle: 'text-yellow-100', bar: 'bg-yellow-500' },
+  none: { label: 'No risks found', header: 'from-green-600 to-green-700', subtitle: 'text-green-100', bar: 'bg-green-500' }
+};
+
+/**
+ * Badge styles for finding severities
+ */
+const SEVERITY_BADGES: Record<PrivacySeverity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-yellow-100 text-yellow-800'
+};
+
+/**
+ * Formats a field value for the compact finding list
+ *
+ * @param value - Cleaned value
+ * @returns Single-line display string
+ */
+const formatValue = (value: CleanedValue): string =>
+  typeof value === 'object' ? value.formatted : String(value);
+
+/**
+ * Component summarizing what an image's metadata leaks
+ *
+ * This component provides:
+ * - An overall risk level and score
+ * - One entry per finding with its severity and an explanation
+ * - The fields behind each finding, with their source group
+ * - A shortcut to the metadata removal panel
+ */
+export const PrivacyReportCard: React.FC<PrivacyReportCardProps> = ({ metadata }) => {
+  const report = useMemo(() => PrivacyService.analyze(metadata), [metadata]);
+  const config = LEVEL_CONFIG[report.level];
+  const HeaderIcon = report.level === 'none' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="privacy">
+      {/* Header section with a gradient reflecting the risk level */}
+      <div className={`bg-gradient-to-r ${config.header} px-6 py-4`}>
+        <div className="flex items-center gap-2">
+          <HeaderIcon className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Privacy Report</h2>
+          <span className="ml-auto text-sm font-semibold text-white">{config.label}</span>
+        </div>
+        <p className={`${config.subtitle} text-sm`}>
+          {report.findings.length === 0
+            ? 'No location, identity or device information was found in this image'
+            : `${report.findings.length} kind${report.findings.length === 1 ? '' : 's'} of sensitive information found`}
+        </p>
+      </div>
+
+      <div className="p-6">
+        {/* Risk score */}
+        <div className="flex items-center gap-3 mb-6">
+          <span className="text-sm font-medium text-gray-700 whitespace-nowrap">Risk score</span>
+          <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className={`h-full ${config.bar}`} style={{ width: `${report.score}%` }} />
+          </div>
+          <span className="text-sm font-semibold text-gray-900 w-12 text-right">{report.score}/100</span>
+        </div>
+
+        {/* Findings, most severe first */}
+        <div className="space-y-4">
+          {report.findings.map((finding) => (
+            <div key={finding.id} className="border-b border-gray-50 pb-4 last:border-b-0 last:pb-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${SEVERITY_BADGES[finding.severity]}`}>
+                  {finding.severity}
+                </span>
+                <h3 className="font-semibold text-gray-900">{finding.title}</h3>
+              </div>
+              <p className="text-sm text-gray-600 mb-2">{finding.explanation}</p>
+              <ul className="text-xs text-gray-700 space-y-1">
+                {finding.fields.map((field) => (
+                  <li key={`${field.group}:${field.name}`} className="flex gap-2">
+                    <span className="font-medium whitespace-nowrap">{field.name}</span>
+                    <span className="text-gray-400">{METADATA_GROUPS[field.group]}</span>
+                    <span className="break-all">{formatValue(field.value)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {/* Shortcut to the removal panel */}
+        {report.findings.length > 0 && (
+          <button
+            onClick={() => document.getElementById('sanitize')?.scrollIntoView({ behavior: 'smooth' })}
+            className="mt-6 flex items-center gap-2 px-4 py-2 bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 transition-colors text-sm"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            Remove this metadata
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
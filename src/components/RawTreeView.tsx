@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, ChevronDown, Copy, Check, Route, Link, LucideIcon } from 'lucide-react';
+import { HighlightedText } from './HighlightedText';
+import { MetadataModel, MetadataData } from '../services/MetadataModel';
+import { RawTreeService, RawTreeNode, RawTreeFocus, RawValueType } from '../services/RawTreeService';
+
+/**
+ * Props interface for the RawTreeView component
+ */
+interface RawTreeViewProps {
+  raw: MetadataData;               // Raw metadata to show, possibly filtered
+  metadata: MetadataModel;         // Parsed metadata, for links to the cleaned fields
+  query: string;                   // Search text to highlight
+  focus: RawTreeFocus | null;      // Tag in `raw` to reveal; a new object reveals it again
+  onShowField: (key: string) => void;  // Shows a cleaned field
+}
+
+// Height of every row in pixels; rows must not wrap for the virtualization to hold
+const ROW_HEIGHT = 24;
+
+// Height of the scrollable viewport in pixels
+const VIEWPORT_HEIGHT = 552;
+
+// Rows rendered above and below the viewport so fast scrolling shows no gaps
+const OVERSCAN = 10;
+
+/**
+ * Badge styles per value type, with complete class names so Tailwind keeps them
+ */
+const TYPE_BADGES: Record<RawValueType, { label: string; className: string }> = {
+  group: { label: 'group', className: 'bg-gray-200 text-gray-700' },
+  object: { label: 'object', className: 'bg-slate-100 text-slate-700' },
+  array: { label: 'array', className: 'bg-blue-100 text-blue-700' },
+  range: { label: 'range', className: 'bg-blue-50 text-blue-600' },
+  rational: { label: 'rational', className: 'bg-purple-100 text-purple-700' },
+  ascii: { label: 'ASCII', className: 'bg-green-100 text-green-700' },
+  string: { label: 'string', className: 'bg-green-50 text-green-700' },
+  bytes: { label: 'bytes', className: 'bg-amber-100 text-amber-800' },
+  number: { label: 'number', className: 'bg-orange-100 text-orange-700' },
+  boolean: { label: 'boolean', className: 'bg-teal-100 text-teal-700' },
+  null: { label: 'null', className: 'bg-gray-100 text-gray-500' }
+};
+
+/**
+ * Component showing raw metadata as a collapsible, virtualized tree
+ *
+ * This component provides:
+ * - Groups, tags and nested values that expand on demand
+ * - Rendering of only the rows in view, so large XMP packets and MakerNote arrays stay fast
+ * - Type badges, with rationals shown as fraction and decimal
+ * - Copying the value or the JavaScript path of any node
+ * - Links between tags and their fields in the cleaned data
+ */
+export const RawTreeView: React.FC<RawTreeViewProps> = ({ raw, metadata, query, focus, onShowField }) => {
+  const [toggled, setToggled] = useState<ReadonlySet<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<string | null>(null);  // Tag path to scroll to once it is rendered
+
+  /**
+   * Rows of the expanded nodes
+   */
+  const rows = useMemo(() => RawTreeService.flatten(raw, toggled), [raw, toggled]);
+
+  // A new image starts with every tag collapsed again
+  useEffect(() => {
+    setToggled(new Set());
+    setFocusedPath(null);
+    viewportRef.current?.scrollTo({ top: 0 });
+  }, [metadata]);
+
+  // Reveal the focused tag: expand its group if collapsed, then scroll it into view once its row exists
+  useEffect(() => {
+    if (!focus) return;
+    const path = RawTreeService.getTagPath(focus.group, focus.name);
+    pendingScrollRef.current = path;
+    setFocusedPath(path);
+    setToggled((current) => {
+      if (!current.has(focus.group)) return current;
+      const next = new Set(current);
+      next.delete(focus.group);
+      return next;
+    });
+  }, [focus]);
+
+  useEffect(() => {
+    const path = pendingScrollRef.current;
+    const index = path ? rows.findIndex((row) => row.path === path) : -1;
+    if (index === -1 || !viewportRef.current) return;
+
+    pendingScrollRef.current = null;
+    viewportRef.current.scrollTo({ top: Math.max(0, index * ROW_HEIGHT - VIEWPORT_HEIGHT / 2) });
+    viewportRef.current.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [rows, focusedPath]);
+
+  // The copy confirmation disappears after a moment
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  /**
+   * Expands or collapses a node
+   *
+   * @param path - Path of the node
+   */
+  const toggle = (path: string) => {
+    setToggled((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Copies text to the clipboard and confirms it on the button
+   *
+   * @param id - Identifies the button to confirm on
+   * @param text - Text to copy
+   */
+  const copy = (id: string, text: string) => {
+    navigator.clipboard?.writeText(text)
+      .then(() => setCopied(id))
+      .catch((err) => console.error('Copy failed:', err));
+  };
+
+  /**
+   * Renders a small action button shown when hovering a row
+   *
+   * @param id - Identifies the button for the copy confirmation
+   * @param title - Tooltip
+   * @param Icon - Button icon
+   * @param onClick - Action
+   * @returns JSX element with the button
+   */
+  const renderAction = (id: string, title: string, Icon: LucideIcon, onClick: () => void) => (
+    <button
+      key={id}
+      onClick={onClick}
+      title={title}
+      className="p-1 text-gray-400 hover:text-gray-800"
+    >
+      {copied === id ? <Check className="w-3 h-3 text-green-600" /> : <Icon className="w-3 h-3" />}
+    </button>
+  );
+
+  /**
+   * Renders a row of the tree
+   *
+   * @param node - Row to render
+   * @param index - Position of the row
+   * @returns JSX element positioned at the row's offset
+   */
+  const renderRow = (node: RawTreeNode, index: number) => {
+    const badge = TYPE_BADGES[node.type];
+    const fieldKey = node.tag ? metadata.getFieldKey(node.tag.group, node.tag.name) : null;
+
+    return (
+      <div
+        key={node.path}
+        className={`group absolute left-0 right-0 flex items-center gap-1 pr-2 text-xs font-mono whitespace-nowrap
+          ${node.path === focusedPath ? 'bg-yellow-50' : 'hover:bg-gray-100'}`}
+        style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, paddingLeft: node.depth * 16 + 4 }}
+      >
+        {/* Expander */}
+        {node.expandable ? (
+          <button onClick={() => toggle(node.path)} className="text-gray-500 hover:text-gray-900" aria-label={node.expanded ? 'Collapse' : 'Expand'}>
+            {node.expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+        ) : (
+          <span className="w-3" />
+        )}
+
+        {/* Key, type and value summary */}
+        <span className={node.depth === 0 ? 'font-semibold text-gray-900' : 'text-indigo-800'}>
+          <HighlightedText text={node.label} query={query} />
+        </span>
+        <span className={`px-1 rounded text-[10px] leading-4 font-sans ${badge.className}`}>{badge.label}</span>
+        <span className="truncate text-gray-700" title={node.preview}>
+          <HighlightedText text={node.preview} query={query} />
+        </span>
+
+        {/* Actions */}
+        <span className="ml-auto flex items-center opacity-0 group-hover:opacity-100">
+          {fieldKey && renderAction(`${node.path}#field`, 'Show cleaned field', Link, () => onShowField(fieldKey))}
+          {node.type !== 'range' && renderAction(`${node.path}#path`, 'Copy path', Route, () => copy(`${node.path}#path`, node.path))}
+          {renderAction(`${node.path}#value`, 'Copy value', Copy, () => copy(`${node.path}#value`, RawTreeService.getCopyText(node)))}
+        </span>
+      </div>
+    );
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div
+      ref={viewportRef}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      className="overflow-auto bg-gray-50 rounded-lg border"
+      style={{ height: Math.min(VIEWPORT_HEIGHT, rows.length * ROW_HEIGHT + 2) }}
+    >
+      <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+        {rows.slice(first, last).map((node, offset) => renderRow(node, first + offset))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ClipboardList, Download, Printer } from 'lucide-react';
+import { MetadataModel } from '../services/MetadataModel';
+import { ReportService, ReportImageMode, REPORT_IMAGE_MODES } from '../services/ReportService';
+import { ExportService } from '../services/ExportService';
+
+/**
+ * Props interface for the ReportPanel component
+ */
+interface ReportPanelProps {
+  file: File;                // Image file the report describes
+  fileName: string;          // Name of the image, used in the report and to name the download
+  metadata: MetadataModel;   // Parsed metadata of the image
+}
+
+/**
+ * Component for generating a shareable metadata report
+ *
+ * This component provides:
+ * - A choice of how the image appears in the report
+ * - Downloading the report as a single self-contained HTML file
+ * - Printing the report, e.g. to save it as PDF
+ * - Inline feedback when the report cannot be generated
+ */
+export const ReportPanel: React.FC<ReportPanelProps> = ({ file, fileName, metadata }) => {
+  const [image, setImage] = useState<ReportImageMode>('downscaled');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Generates the report and hands it to the chosen output
+   *
+   * @param output - Downloads or prints the report
+   */
+  const handleGenerate = async (output: (html: string) => void) => {
+    setIsWorking(true);
+    setError('');
+
+    try {
+      output(await ReportService.generate(file, fileName, metadata, { image }));
+    } catch (err) {
+      setError('Failed to generate the report.');
+      console.error('Report error:', err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="report">
+      {/* Header section with gradient background */}
+      <div className="bg-gradient-to-r from-cyan-600 to-cyan-700 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Report</h2>
+        </div>
+        <p className="text-cyan-100 text-sm">
+          A single HTML file with the image, its SHA-256 hash, all metadata and the raw dump, to attach to tickets or print as PDF.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {/* Image choice */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {(Object.keys(REPORT_IMAGE_MODES) as ReportImageMode[]).map((mode) => (
+            <label
+              key={mode}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors
+                ${image === mode ? 'border-cyan-300 bg-cyan-50' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              <input
+                type="radio"
+                name="report-image"
+                className="mt-1"
+                checked={image === mode}
+                onChange={() => setImage(mode)}
+              />
+              <div>
+                <div className="font-medium text-gray-800">{REPORT_IMAGE_MODES[mode].label}</div>
+                <div className="text-xs text-gray-500">{REPORT_IMAGE_MODES[mode].description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* Output actions */}
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => handleGenerate((html) =>
+              ExportService.download(html, ExportService.getFileName(fileName, '-report.html'), 'text/html'))}
+            disabled={isWorking}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {isWorking ? 'Preparing...' : 'Download HTML report'}
+          </button>
+          <button
+            onClick={() => handleGenerate((html) => ReportService.print(html))}
+            disabled={isWorking}
+            className="flex items-center gap-2 px-4 py-2 bg-white text-cyan-700 border border-cyan-200 rounded-lg hover:bg-cyan-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </button>
+        </div>
+
+        {/* Inline error message */}
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Download } from 'lucide-react';
+import { SanitizerService, SanitizeGroup, SANITIZE_GROUPS } from '../services/SanitizerService';
+import { ExportService } from '../services/ExportService';
+
+/**
+ * Props interface for the SanitizePanel component
+ */
+interface SanitizePanelProps {
+  file: File;  // Original image file to sanitize
+}
+
+/**
+ * Component for removing metadata and downloading a cleaned copy of the image
+ *
+ * This component provides:
+ * - Checkboxes for the metadata groups that can be removed
+ * - A download button producing a losslessly sanitized copy
+ * - Inline feedback when the file cannot be sanitized
+ */
+export const SanitizePanel: React.FC<SanitizePanelProps> = ({ file }) => {
+  const [selected, setSelected] = useState<SanitizeGroup[]>(['location', 'serial', 'copyright']);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Toggles a metadata group in the selection
+   *
+   * @param group - Group to toggle
+   */
+  const toggleGroup = (group: SanitizeGroup) => {
+    setSelected((current) =>
+      current.includes(group) ? current.filter((item) => item !== group) : [...current, group]
+    );
+  };
+
+  /**
+   * Builds the sanitized image and triggers a browser download
+   */
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setError('');
+
+    try {
+      const blob = await SanitizerService.sanitize(file, selected);
+      ExportService.download(blob, file.name.replace(/(\.[^.]+)?$/, '-sanitized$1'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sanitize image.');
+      console.error('Sanitize error:', err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const removesEverything = selected.includes('all');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8" id="sanitize">
+      {/* Header section with gradient background */}
+      <div className="bg-gradient-to-r from-teal-600 to-teal-700 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-bold text-white">Remove Metadata</h2>
+        </div>
+        <p className="text-teal-100 text-sm">Download a copy without the selected data. Image pixels are not re-encoded.</p>
+      </div>
+
+      <div className="p-6">
+        {/* Group selection */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {(Object.keys(SANITIZE_GROUPS) as SanitizeGroup[]).map((group) => (
+            <label
+              key={group}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors
+                ${selected.includes(group) ? 'border-teal-300 bg-teal-50' : 'border-gray-200 hover:bg-gray-50'}
+                ${removesEverything && group !== 'all' ? 'opacity-50' : ''}`}
+            >
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={selected.includes(group) || (removesEverything && group !== 'all')}
+                disabled={removesEverything && group !== 'all'}
+                onChange={() => toggleGroup(group)}
+              />
+              <div>
+                <div className="font-medium text-gray-800">{SANITIZE_GROUPS[group].label}</div>
+                <div className="text-xs text-gray-500">{SANITIZE_GROUPS[group].description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* Download action */}
+        <button
+          onClick={handleDownload}
+          disabled={isWorking || selected.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          {isWorking ? 'Preparing...' : 'Download sanitized image'}
+        </button>
+
+        {/* Inline error message */}
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+};
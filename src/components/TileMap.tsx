@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { LocationCoordinates } from '../services/MetadataModel';
+import { MapProviderService, GeoPoint, DEFAULT_MAP_ZOOM, TILE_SIZE } from '../services/MapProviderService';
+import { MapOverlay } from './MapOverlay';
+
+interface TileMapProps {
+  coordinates: LocationCoordinates;
+  tileUrl: string;                     // Tile URL template with {z}, {x} and {y}
+  picked?: GeoPoint | null;            // Position picked for editing, drawn as a second marker
+  onPick?: (point: GeoPoint) => void;  // Makes the map clickable to pick a position
+}
+
+// Zoom levels offered by the zoom buttons
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 19;
+
+// Tiles loaded on each side of the center tile; enough for a wide, 300px high map
+const TILE_RADIUS = { x: 3, y: 1 };
+
+/**
+ * Map assembled from the raster tiles of a user-configured tile server
+ *
+ * The location is drawn at the center with its direction of view and
+ * accuracy radius; only the tiles around it are requested.
+ */
+export const TileMap: React.FC<TileMapProps> = ({ coordinates, tileUrl, picked, onPick }) => {
+  const [zoom, setZoom] = useState(DEFAULT_MAP_ZOOM);
+  const tiles = MapProviderService.getTiles(coordinates, zoom, tileUrl, TILE_RADIUS);
+  const accuracy = MapProviderService.getAccuracyRadius(coordinates);
+  const pickedOffset = picked && MapProviderService.getPixelOffset(coordinates, picked, zoom);
+
+  /**
+   * Converts the clicked pixel, relative to the map center, to a position
+   */
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onPick?.(MapProviderService.getPointAtOffset(coordinates, {
+      x: event.clientX - rect.left - rect.width / 2,
+      y: event.clientY - rect.top - rect.height / 2
+    }, zoom));
+  };
+
+  return (
+    <div className="relative h-[300px] overflow-hidden rounded-xl shadow-lg border border-gray-200 bg-gray-100">
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          width={TILE_SIZE}
+          height={TILE_SIZE}
+          draggable={false}
+          className="absolute max-w-none select-none"
+          style={{ left: `calc(50% + ${tile.left}px)`, top: `calc(50% + ${tile.top}px)` }}
+        />
+      ))}
+
+      {/* Direction of view, and the accuracy radius to scale */}
+      <MapOverlay
+        direction={coordinates.imgDirection}
+        accuracyRadius={accuracy ? accuracy.metres / MapProviderService.getMetresPerPixel(coordinates.latitude, zoom) : undefined}
+      />
+
+      {/* Location marker */}
+      <div className="absolute left-1/2 top-1/2 w-4 h-4 -ml-2 -mt-2 rounded-full bg-blue-600 border-2 border-white shadow" />
+
+      {/* Picked position */}
+      {pickedOffset && (
+        <div
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-orange-500 border-2 border-white shadow pointer-events-none"
+          style={{ left: `calc(50% + ${pickedOffset.x}px)`, top: `calc(50% + ${pickedOffset.y}px)` }}
+        />
+      )}
+
+      {/* Click surface for picking, below the zoom controls */}
+      {onPick && <div className="absolute inset-0 cursor-crosshair" onClick={handleClick} />}
+
+      {/* Zoom controls */}
+      <div className="absolute top-2 right-2 flex flex-col bg-white rounded-lg shadow overflow-hidden">
+        <button
+          onClick={() => setZoom((current) => Math.min(MAX_ZOOM, current + 1))}
+          disabled={zoom >= MAX_ZOOM}
+          className="p-1.5 hover:bg-gray-100 disabled:opacity-40"
+          title="Zoom in"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setZoom((current) => Math.max(MIN_ZOOM, current - 1))}
+          disabled={zoom <= MIN_ZOOM}
+          className="p-1.5 hover:bg-gray-100 disabled:opacity-40 border-t border-gray-200"
+          title="Zoom out"
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="absolute bottom-1 right-2 text-[10px] text-gray-600 bg-white/80 px-1 rounded">
+        Tiles: {new URL(tileUrl).host}
+      </div>
+    </div>
+  );
+};
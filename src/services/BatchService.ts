@@ -0,0 +1,89 @@
+import { MetadataModel, MetadataSummary } from './MetadataModel';
+import { MetadataWorkerClient } from './MetadataWorkerClient';
+import { IMAGE_FILE_EXTENSIONS } from './MetadataService';
+
+/**
+ * Processing state of a single file in a batch
+ */
+export type BatchStatus = 'pending' | 'parsing' | 'done' | 'error';
+
+/**
+ * A file in a batch together with its parse results
+ */
+export interface BatchItem {
+  id: string;                  // Stable identifier within the batch
+  file: File;
+  path: string;                // Relative path for folder uploads, otherwise the file name
+  status: BatchStatus;
+  metadata?: MetadataModel;
+  summary?: MetadataSummary;
+  error?: string;
+}
+
+/**
+ * Service class for parsing many image files one after another
+ *
+ * Files are parsed sequentially in a web worker so memory use stays
+ * bounded even for shoots with hundreds of images and the UI stays responsive.
+ */
+export class BatchService {
+  /**
+   * Checks whether a file looks like an image we can parse
+   *
+   * @param file - File to check
+   * @returns True for image MIME types or known image extensions
+   */
+  public static isImageFile(file: File): boolean {
+    return file.type.startsWith('image/') || IMAGE_FILE_EXTENSIONS.test(file.name);
+  }
+
+  /**
+   * Creates pending batch items for the given files, skipping non-images
+   *
+   * @param files - Files selected by the user
+   * @returns Batch items in selection order
+   */
+  public static createItems(files: File[]): BatchItem[] {
+    return files
+      .filter((file) => this.isImageFile(file))
+      .map((file, index) => {
+        const path = file.webkitRelativePath || file.name;
+        return { id: `${index}:${path}`, file, path, status: 'pending' as BatchStatus };
+      });
+  }
+
+  /**
+   * Parses every item in turn, reporting each state change
+   *
+   * @param items - Items to process
+   * @param onUpdate - Called with a new item object whenever an item changes
+   * @param signal - Aborting stops processing, including the file currently being parsed
+   */
+  public static async processAll(
+    items: BatchItem[],
+    onUpdate: (item: BatchItem) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    for (const item of items) {
+      if (signal.aborted) return;
+      onUpdate({ ...item, status: 'parsing' });
+
+      try {
+        const metadata = await MetadataWorkerClient.parse(item.file, { signal });
+        onUpdate({
+          ...item,
+          status: 'done',
+          metadata,
+          summary: metadata.getSummary()
+        });
+      } catch (err) {
+        if (signal.aborted) return;
+        onUpdate({
+          ...item,
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Failed to parse metadata'
+        });
+      }
+    }
+  }
+}
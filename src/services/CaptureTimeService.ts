@@ -0,0 +1,262 @@
+import { MetadataData, MetadataGroup, CaptureTime, ParseDiagnostic } from './MetadataModel';
+import { TimeZoneService } from './TimeZoneService';
+
+/**
+ * Date and time parts read from one source, before combining
+ */
+interface TimeParts {
+  date: string;           // "YYYY-MM-DD"
+  time: string;           // "HH:MM:SS"
+  fraction: string;       // Sub-second digits, possibly empty
+  offset: string | null;  // "+HH:MM", or null when not recorded
+}
+
+/**
+ * A place the capture time can be read from
+ */
+interface TimeSource {
+  key: string;           // Cleaned field key, reported as the source
+  group: MetadataGroup;  // Group and name of the date tag, for diagnostics
+  name: string;
+  read: (rawData: MetadataData) => TimeParts | null;
+}
+
+// Clock differences below this are GPS fix latency rather than a wrong clock (seconds)
+const DRIFT_THRESHOLD = 60;
+
+// UTC offsets in use range from -12:00 to +14:00
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+const EXIF_DATE = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const OFFSET = /^[+-]\d{2}:\d{2}$/;
+
+/**
+ * Reads the trimmed description of a raw tag
+ */
+const text = (rawData: MetadataData, group: MetadataGroup, name: string): string => {
+  const description = rawData[group]?.[name]?.description;
+  return description === undefined ? '' : String(description).trim();
+};
+
+/**
+ * Normalizes an offset, treating "Z" as UTC
+ */
+const parseOffset = (value: string | undefined): string | null => {
+  if (value === 'Z') return '+00:00';
+  return value && OFFSET.test(value) ? value : null;
+};
+
+/**
+ * Reads an EXIF date with its companion sub-second and offset tags
+ */
+const readExif = (dateTag: string, subSecTag: string, offsetTag: string) => (rawData: MetadataData): TimeParts | null => {
+  const match = EXIF_DATE.exec(text(rawData, 'exif', dateTag));
+  // Cameras without a clock write zeros or spaces
+  if (!match || match[1] === '0000') return null;
+
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: `${match[4]}:${match[5]}:${match[6]}`,
+    fraction: text(rawData, 'exif', subSecTag).replace(/\D/g, ''),
+    offset: parseOffset(text(rawData, 'exif', offsetTag))
+  };
+};
+
+/**
+ * Reads an XMP date, which is ISO 8601 and may omit the time
+ */
+const readXmp = (name: string) => (rawData: MetadataData): TimeParts | null => {
+  const match = ISO_DATE.exec(text(rawData, 'xmp', name));
+  if (!match || match[1] === '0000') return null;
+
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: `${match[4] ?? '00'}:${match[5] ?? '00'}:${match[6] ?? '00'}`,
+    fraction: match[7] ?? '',
+    offset: parseOffset(match[8])
+  };
+};
+
+/**
+ * Reads the IPTC creation date and time (formatted by the reader as "YYYY-MM-DD" and "HH:MM:SS+HH:MM")
+ */
+const readIptc = (rawData: MetadataData): TimeParts | null => {
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text(rawData, 'iptc', 'Date Created'));
+  if (!date || date[1] === '0000') return null;
+  const time = /^(\d{2}):(\d{2}):(\d{2})([+-]\d{2}:\d{2})?$/.exec(text(rawData, 'iptc', 'Time Created'));
+
+  return {
+    date: `${date[1]}-${date[2]}-${date[3]}`,
+    time: time ? `${time[1]}:${time[2]}:${time[3]}` : '00:00:00',
+    fraction: '',
+    offset: parseOffset(time?.[4])
+  };
+};
+
+/**
+ * Sources of the capture time in order of preference
+ */
+const TIME_SOURCES: TimeSource[] = [
+  { key: 'DateTimeOriginal', group: 'exif', name: 'DateTimeOriginal', read: readExif('DateTimeOriginal', 'SubSecTimeOriginal', 'OffsetTimeOriginal') },
+  { key: 'DateTimeDigitized', group: 'exif', name: 'DateTimeDigitized', read: readExif('DateTimeDigitized', 'SubSecTimeDigitized', 'OffsetTimeDigitized') },
+  { key: 'xmp:DateTimeOriginal', group: 'xmp', name: 'DateTimeOriginal', read: readXmp('DateTimeOriginal') },
+  { key: 'xmp:CreateDate', group: 'xmp', name: 'CreateDate', read: readXmp('CreateDate') },
+  { key: 'Date Created', group: 'iptc', name: 'Date Created', read: readIptc },
+  { key: 'DateTime', group: 'exif', name: 'DateTime', read: readExif('DateTime', 'SubSecTime', 'OffsetTime') }
+];
+
+/**
+ * Service class for deriving a canonical capture time
+ *
+ * Camera dates are written as local time without a zone, with the fraction
+ * of a second and the UTC offset (EXIF 2.31) in separate tags. This service
+ * combines them into one ISO 8601 timestamp. Without a recorded offset, the
+ * offset of the time zone at the GPS position on the capture date is used.
+ * When the image also has a GPS time (which is UTC), the camera clock is
+ * checked against it.
+ */
+export class CaptureTimeService {
+  /**
+   * Derives the capture time of an image
+   *
+   * @param rawData - Grouped raw metadata
+   * @param gpsTime - GPS date and time as ISO 8601 UTC, if recorded
+   * @param timeZone - IANA time zone at the GPS position, if known
+   * @param diagnostics - Collects notes on derived offsets and clock drift
+   * @returns Capture time, or null if no date tag holds a usable date
+   */
+  public static resolve(
+    rawData: MetadataData,
+    gpsTime: string | null,
+    timeZone: string | null,
+    diagnostics: ParseDiagnostic[]
+  ): CaptureTime | null {
+    for (const source of TIME_SOURCES) {
+      const parts = source.read(rawData);
+      if (parts) return this.combine(rawData, source, parts, gpsTime, timeZone, diagnostics);
+    }
+    return null;
+  }
+
+  /**
+   * Formats a clock difference for messages
+   *
+   * @param seconds - Difference in seconds
+   * @returns Text such as "3 min 20 s"
+   */
+  public static formatDuration(seconds: number): string {
+    const total = Math.round(Math.abs(seconds));
+    // Whole days are enough once a clock is that far off
+    if (total >= 86400) return `${Math.round(total / 86400)} days`;
+
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = total % 60;
+    return [hours && `${hours} h`, minutes && `${minutes} min`, (rest || total === 0) && `${rest} s`].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Combines date parts into a capture time and compares it with the GPS time
+   */
+  private static combine(
+    rawData: MetadataData,
+    source: TimeSource,
+    parts: TimeParts,
+    gpsTime: string | null,
+    timeZone: string | null,
+    diagnostics: ParseDiagnostic[]
+  ): CaptureTime {
+    const local = `${parts.date}T${parts.time}${parts.fraction ? `.${parts.fraction}` : ''}`;
+    // Local time read as if it were UTC, to compute differences in milliseconds
+    const localMs = Date.parse(`${parts.date}T${parts.time}${parts.fraction ? `.${parts.fraction.slice(0, 3)}` : ''}Z`);
+    const gpsMs = gpsTime ? Date.parse(gpsTime) : NaN;
+
+    let offset = parts.offset;
+    let offsetSource: CaptureTime['offsetSource'] = offset ? 'recorded' : null;
+    let clockDrift: number | null = null;
+    // The offset changes with daylight saving time, so it is taken for the capture date itself
+    const zoneOffset = timeZone && !Number.isNaN(localMs) ? TimeZoneService.getOffsetAt(timeZone, localMs) : null;
+    // Diagnostics cite the date tag and the GPS tags the comparison used
+    const report = (code: string, severity: ParseDiagnostic['severity'], message: string, gpsTags = ['GPSDateStamp', 'GPSTimeStamp']) => {
+      diagnostics.push({
+        code,
+        severity,
+        message,
+        field: 'CaptureTime',
+        tags: [
+          { group: source.group, name: source.name, value: rawData[source.group]?.[source.name]?.value },
+          ...gpsTags.map((name) => ({ group: 'gps' as const, name, value: rawData.gps?.[name]?.value }))
+        ]
+      });
+    };
+
+    if (!offset && zoneOffset) {
+      offset = this.formatOffset(zoneOffset.minutes);
+      offsetSource = 'timezone';
+      report('timezone-offset', 'info', `No UTC offset was recorded; ${offset} was derived from the time zone ${timeZone} at the GPS position` +
+        ` (${zoneOffset.dst ? 'daylight saving' : 'standard'} time on the capture date)`, ['GPSLatitude', 'GPSLongitude']);
+    }
+
+    if (!Number.isNaN(localMs) && !Number.isNaN(gpsMs)) {
+      const difference = (localMs - gpsMs) / 1000;
+
+      if (offset) {
+        clockDrift = difference - this.offsetMinutes(offset) * 60;
+      } else {
+        // The local time minus UTC is the offset, up to the drift of the camera clock
+        const inferredMinutes = Math.round(difference / 60 / 15) * 15;
+        if (Math.abs(inferredMinutes) <= MAX_OFFSET_MINUTES) {
+          offset = this.formatOffset(inferredMinutes);
+          offsetSource = 'inferred';
+          clockDrift = difference - inferredMinutes * 60;
+          report('inferred-offset', 'info', `No UTC offset was recorded; ${offset} was inferred from the GPS time`);
+        } else {
+          report('clock-mismatch', 'warning', `The camera time is ${this.formatDuration(difference)} away from the GPS time, more than any time zone; the camera clock was probably wrong`);
+        }
+      }
+
+      if (clockDrift !== null && Math.abs(clockDrift) >= DRIFT_THRESHOLD) {
+        // A drift of whole quarter hours usually means the clock was left on another time zone
+        const zoneShift = offsetSource !== 'inferred' && Math.abs(clockDrift) >= 900 &&
+          Math.abs(clockDrift - Math.round(clockDrift / 900) * 900) < DRIFT_THRESHOLD;
+        report('clock-drift', 'warning', `The camera clock was ${this.formatDuration(clockDrift)} ${clockDrift > 0 ? 'ahead of' : 'behind'} the GPS time` +
+          (zoneShift ? '; it was probably set to a different time zone' : ''));
+      }
+    }
+
+    const utc = offset && !Number.isNaN(localMs)
+      ? new Date(localMs - this.offsetMinutes(offset) * 60000).toISOString().replace('.000Z', 'Z')
+      : null;
+
+    return {
+      formatted: `${local}${offset ?? ''}`,
+      local,
+      offset,
+      offsetSource,
+      utc,
+      source: source.key,
+      gpsTime,
+      timeZone,
+      dst: zoneOffset ? zoneOffset.dst : null,
+      clockDrift: clockDrift === null ? null : Math.round(clockDrift * 1000) / 1000
+    };
+  }
+
+  /**
+   * Converts "+HH:MM" to minutes east of UTC
+   */
+  private static offsetMinutes(offset: string): number {
+    const sign = offset.startsWith('-') ? -1 : 1;
+    return sign * (parseInt(offset.slice(1, 3), 10) * 60 + parseInt(offset.slice(4, 6), 10));
+  }
+
+  /**
+   * Converts minutes east of UTC to "+HH:MM"
+   */
+  private static formatOffset(minutes: number): string {
+    const absolute = Math.abs(minutes);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+  }
+}
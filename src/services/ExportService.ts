@@ -0,0 +1,436 @@
+import { MetadataModel, MetadataGroup, CleanedValue, RawTag } from './MetadataModel';
+import { XmpEditor, XMP_NAMESPACES } from './XmpEditor';
+
+/**
+ * Which representation of the metadata to export
+ */
+export type ExportView = 'cleaned' | 'raw';
+
+/**
+ * One file of a multi-file export
+ */
+export interface ExportEntry {
+  path: string;              // File name or path shown in the File column
+  metadata?: MetadataModel;  // Parsed metadata, when parsing succeeded
+  error?: string;            // Error message, when parsing failed
+}
+
+/**
+ * Namespaces written to XMP sidecars
+ */
+type SidecarPrefix = 'tiff' | 'exif' | 'exifEX' | 'xmp' | 'dc' | 'photoshop';
+
+/**
+ * How a sidecar property is written
+ */
+type SidecarKind =
+  | 'text'      // Simple text value
+  | 'integer'
+  | 'rational'  // "numerator/denominator"
+  | 'date'      // ISO 8601 date, converted from the EXIF format
+  | 'seq'       // Ordered array (rdf:Seq)
+  | 'bag'       // Unordered array (rdf:Bag)
+  | 'alt';      // Language alternative (rdf:Alt with x-default)
+
+/**
+ * Mapping of one XMP property to the parsed tags it is filled from
+ */
+interface SidecarProperty {
+  prefix: SidecarPrefix;
+  name: string;
+  kind: SidecarKind;
+  sources: Array<[MetadataGroup, string]>;  // Candidate tags in order of preference
+  subSecTag?: string;                       // EXIF tag holding fractional seconds for dates
+  offsetTag?: string;                       // EXIF tag holding the UTC offset for dates
+}
+
+/**
+ * Properties written to XMP sidecars, following the XMP mapping of the
+ * Metadata Working Group guidelines for EXIF and IPTC-IIM fields
+ */
+const SIDECAR_PROPERTIES: SidecarProperty[] = [
+  { prefix: 'tiff', name: 'Make', kind: 'text', sources: [['exif', 'Make'], ['xmp', 'Make']] },
+  { prefix: 'tiff', name: 'Model', kind: 'text', sources: [['exif', 'Model'], ['xmp', 'Model']] },
+  { prefix: 'tiff', name: 'Orientation', kind: 'integer', sources: [['exif', 'Orientation'], ['xmp', 'Orientation']] },
+  { prefix: 'xmp', name: 'CreatorTool', kind: 'text', sources: [['exif', 'Software'], ['xmp', 'CreatorTool']] },
+  {
+    prefix: 'xmp', name: 'CreateDate', kind: 'date', sources: [['exif', 'DateTimeDigitized'], ['xmp', 'CreateDate']],
+    subSecTag: 'SubSecTimeDigitized', offsetTag: 'OffsetTimeDigitized'
+  },
+  {
+    prefix: 'xmp', name: 'ModifyDate', kind: 'date', sources: [['exif', 'DateTime'], ['xmp', 'ModifyDate']],
+    subSecTag: 'SubSecTime', offsetTag: 'OffsetTime'
+  },
+  { prefix: 'xmp', name: 'Rating', kind: 'integer', sources: [['xmp', 'Rating']] },
+  {
+    prefix: 'exif', name: 'DateTimeOriginal', kind: 'date', sources: [['exif', 'DateTimeOriginal'], ['xmp', 'DateTimeOriginal']],
+    subSecTag: 'SubSecTimeOriginal', offsetTag: 'OffsetTimeOriginal'
+  },
+  { prefix: 'exif', name: 'ExposureTime', kind: 'rational', sources: [['exif', 'ExposureTime'], ['xmp', 'ExposureTime']] },
+  { prefix: 'exif', name: 'FNumber', kind: 'rational', sources: [['exif', 'FNumber'], ['xmp', 'FNumber']] },
+  { prefix: 'exif', name: 'ExposureProgram', kind: 'integer', sources: [['exif', 'ExposureProgram'], ['xmp', 'ExposureProgram']] },
+  { prefix: 'exif', name: 'ISOSpeedRatings', kind: 'seq', sources: [['exif', 'ISOSpeedRatings'], ['xmp', 'ISOSpeedRatings']] },
+  { prefix: 'exif', name: 'ExposureBiasValue', kind: 'rational', sources: [['exif', 'ExposureBiasValue'], ['xmp', 'ExposureBiasValue']] },
+  { prefix: 'exif', name: 'MeteringMode', kind: 'integer', sources: [['exif', 'MeteringMode'], ['xmp', 'MeteringMode']] },
+  { prefix: 'exif', name: 'FocalLength', kind: 'rational', sources: [['exif', 'FocalLength'], ['xmp', 'FocalLength']] },
+  {
+    prefix: 'exif', name: 'FocalLengthIn35mmFilm', kind: 'integer',
+    sources: [['exif', 'FocalLengthIn35mmFilm'], ['xmp', 'FocalLengthIn35mmFilm']]
+  },
+  { prefix: 'exif', name: 'WhiteBalance', kind: 'integer', sources: [['exif', 'WhiteBalance'], ['xmp', 'WhiteBalance']] },
+  { prefix: 'exif', name: 'GPSAltitude', kind: 'rational', sources: [['gps', 'GPSAltitude'], ['xmp', 'GPSAltitude']] },
+  { prefix: 'exif', name: 'GPSAltitudeRef', kind: 'integer', sources: [['gps', 'GPSAltitudeRef'], ['xmp', 'GPSAltitudeRef']] },
+  { prefix: 'exifEX', name: 'LensMake', kind: 'text', sources: [['exif', 'LensMake'], ['xmp', 'LensMake']] },
+  { prefix: 'exifEX', name: 'LensModel', kind: 'text', sources: [['exif', 'LensModel'], ['xmp', 'LensModel']] },
+  { prefix: 'exifEX', name: 'BodySerialNumber', kind: 'text', sources: [['exif', 'BodySerialNumber'], ['xmp', 'BodySerialNumber']] },
+  { prefix: 'exifEX', name: 'LensSerialNumber', kind: 'text', sources: [['exif', 'LensSerialNumber'], ['xmp', 'LensSerialNumber']] },
+  { prefix: 'dc', name: 'title', kind: 'alt', sources: [['iptc', 'Object Name'], ['xmp', 'title']] },
+  { prefix: 'dc', name: 'creator', kind: 'seq', sources: [['exif', 'Artist'], ['iptc', 'By-line'], ['xmp', 'creator']] },
+  {
+    prefix: 'dc', name: 'description', kind: 'alt',
+    sources: [['exif', 'ImageDescription'], ['iptc', 'Caption/Abstract'], ['xmp', 'description']]
+  },
+  { prefix: 'dc', name: 'rights', kind: 'alt', sources: [['exif', 'Copyright'], ['iptc', 'Copyright Notice'], ['xmp', 'rights']] },
+  { prefix: 'dc', name: 'subject', kind: 'bag', sources: [['iptc', 'Keywords'], ['xmp', 'subject']] },
+  { prefix: 'photoshop', name: 'Headline', kind: 'text', sources: [['iptc', 'Headline'], ['xmp', 'Headline']] },
+  { prefix: 'photoshop', name: 'City', kind: 'text', sources: [['iptc', 'City'], ['xmp', 'City']] },
+  { prefix: 'photoshop', name: 'State', kind: 'text', sources: [['iptc', 'Province/State'], ['xmp', 'State']] },
+  { prefix: 'photoshop', name: 'Country', kind: 'text', sources: [['iptc', 'Country/Primary Location Name'], ['xmp', 'Country']] },
+  { prefix: 'photoshop', name: 'Credit', kind: 'text', sources: [['iptc', 'Credit'], ['xmp', 'Credit']] },
+  { prefix: 'photoshop', name: 'Source', kind: 'text', sources: [['iptc', 'Source'], ['xmp', 'Source']] },
+  { prefix: 'photoshop', name: 'Instructions', kind: 'text', sources: [['iptc', 'Special Instructions'], ['xmp', 'Instructions']] }
+];
+
+// Characters that are not allowed anywhere in an XML 1.0 document
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+/**
+ * Service class for exporting parsed metadata to files
+ *
+ * This service provides methods to:
+ * - Serialize cleaned or raw metadata as pretty JSON
+ * - Flatten metadata to CSV, one row per tag or one row per file of a batch
+ * - Build an XMP sidecar that Lightroom and DAM systems can ingest
+ * - Download the result without anything leaving the browser
+ */
+export class ExportService {
+  /**
+   * Converts metadata to a plain object for serialization
+   *
+   * Cleaned metadata is nested by group ({ exif: { Make: "Canon" }, ... });
+   * raw metadata keeps the full tag objects of the reader library.
+   *
+   * @param metadata - Parsed metadata
+   * @param view - Cleaned or raw representation
+   * @returns Object ready for JSON.stringify
+   */
+  public static toObject(metadata: MetadataModel, view: ExportView): object {
+    if (view === 'raw') {
+      return metadata.raw;
+    }
+
+    return Object.values(metadata.cleaned).reduce((acc, field) => {
+      (acc[field.group] ??= {})[field.name] = field.value;
+      return acc;
+    }, {} as Partial<Record<MetadataGroup, Record<string, CleanedValue>>>);
+  }
+
+  /**
+   * Serializes metadata as pretty-printed JSON
+   *
+   * @param metadata - Parsed metadata
+   * @param view - Cleaned or raw representation
+   * @returns JSON text
+   */
+  public static toJson(metadata: MetadataModel, view: ExportView): string {
+    return JSON.stringify(this.toObject(metadata, view), null, 2);
+  }
+
+  /**
+   * Flattens the metadata of one image to CSV with one row per tag
+   *
+   * @param metadata - Parsed metadata
+   * @param view - Cleaned fields, or raw tags with their undecoded values
+   * @returns CSV text with a header row
+   */
+  public static toCsv(metadata: MetadataModel, view: ExportView): string {
+    if (view === 'raw') {
+      const rows = Object.entries(metadata.raw).flatMap(([group, tags]) =>
+        Object.entries(tags ?? {}).map(([name, tag]: [string, RawTag]) =>
+          [group, name, tag.id ?? '', this.formatRawValue(tag), tag.description]
+        )
+      );
+      return this.toCsvText([['Group', 'Tag', 'ID', 'Value', 'Description'], ...rows]);
+    }
+
+    const rows = Object.values(metadata.cleaned).map((field) => [field.group, field.name, this.formatValue(field.value)]);
+    return this.toCsvText([['Group', 'Tag', 'Value'], ...rows]);
+  }
+
+  /**
+   * Flattens several files to CSV with one row per file and one column per field
+   *
+   * Columns appear in the order fields are first seen; files without a
+   * field leave the cell empty. Raw columns are named "group:Tag" and hold
+   * the undecoded values.
+   *
+   * @param entries - Files to export; entries with neither metadata nor an error are skipped
+   * @param view - Cleaned fields or raw tags
+   * @returns CSV text with a header row
+   */
+  public static toBatchCsv(entries: ExportEntry[], view: ExportView = 'cleaned'): string {
+    const finished = entries.filter((entry) => entry.metadata || entry.error);
+    const cells = finished.map((entry) => (entry.metadata ? this.toCells(entry.metadata, view) : new Map<string, string>()));
+    const keys = Array.from(new Set(cells.flatMap((row) => Array.from(row.keys()))));
+
+    const rows = finished.map((entry, index) => [
+      entry.path,
+      entry.error ?? '',
+      ...keys.map((key) => cells[index].get(key) ?? '')
+    ]);
+    return this.toCsvText([['File', 'Error', ...keys], ...rows]);
+  }
+
+  /**
+   * Builds an XMP sidecar from the parsed fields
+   *
+   * EXIF and IPTC values are mapped to their XMP properties; values already
+   * present in the image's XMP are used when the other groups lack them.
+   *
+   * @param metadata - Parsed metadata
+   * @returns XMP document as written next to images by Lightroom and Bridge
+   */
+  public static toXmpSidecar(metadata: MetadataModel): string {
+    const properties = SIDECAR_PROPERTIES
+      .map((property): [SidecarProperty, string[]] => [property, this.getSidecarValues(metadata, property)])
+      .filter(([, values]) => values.length > 0);
+
+    const lines = properties.map(([property, values]) => this.toXmpProperty(property, values));
+
+    // Coordinates use the XMP "DDD,MM.mmmmmmK" form and are taken from the processed location
+    const location = metadata.location;
+    if (location) {
+      lines.push(`   <exif:GPSLatitude>${XmpEditor.formatCoordinate(location.latitude, 'N', 'S')}</exif:GPSLatitude>`);
+      lines.push(`   <exif:GPSLongitude>${XmpEditor.formatCoordinate(location.longitude, 'E', 'W')}</exif:GPSLongitude>`);
+    }
+
+    const prefixes = new Set<SidecarPrefix>(properties.map(([property]) => property.prefix));
+    if (location) prefixes.add('exif');
+    const declarations = Array.from(prefixes).map((prefix) => `\n    xmlns:${prefix}="${XMP_NAMESPACES[prefix]}"`).join('');
+
+    return [
+      `<x:xmpmeta xmlns:x="${XMP_NAMESPACES.x}">`,
+      ` <rdf:RDF xmlns:rdf="${XMP_NAMESPACES.rdf}">`,
+      `  <rdf:Description rdf:about=""${declarations}>`,
+      ...lines,
+      '  </rdf:Description>',
+      ' </rdf:RDF>',
+      '</x:xmpmeta>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Derives an export file name from the image file name
+   *
+   * @param fileName - Name or relative path of the image
+   * @param suffix - Text replacing the image extension (e.g. ".xmp", "-raw.json")
+   * @returns File name without directories
+   */
+  public static getFileName(fileName: string, suffix: string): string {
+    const baseName = fileName.split('/').pop() || 'metadata';
+    return baseName.replace(/\.[^.]+$/, '') + suffix;
+  }
+
+  /**
+   * Triggers a browser download of generated content
+   *
+   * Downloads go through a temporary object URL so nothing leaves the browser.
+   *
+   * @param content - Text or blob to save
+   * @param fileName - Suggested file name
+   * @param type - MIME type used when content is text
+   */
+  public static download(content: string | Blob, fileName: string, type = 'text/plain'): void {
+    const blob = typeof content === 'string' ? new Blob([content], { type: `${type};charset=utf-8` }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Formats a cleaned value as a single line of text
+   */
+  private static formatValue(value: CleanedValue): string {
+    return typeof value === 'object' ? value.formatted : String(value);
+  }
+
+  /**
+   * Formats the undecoded value of a raw tag as text
+   *
+   * @param tag - Raw tag
+   * @returns Strings as-is, anything else as JSON
+   */
+  private static formatRawValue(tag: RawTag): string {
+    return typeof tag.value === 'string' ? tag.value : JSON.stringify(tag.value) ?? '';
+  }
+
+  /**
+   * Collects the cells of one file for a multi-file CSV
+   *
+   * @param metadata - Parsed metadata
+   * @param view - Cleaned fields or raw tags
+   * @returns Cell text keyed by column name
+   */
+  private static toCells(metadata: MetadataModel, view: ExportView): Map<string, string> {
+    if (view === 'raw') {
+      return new Map(Object.entries(metadata.raw).flatMap(([group, tags]) =>
+        Object.entries(tags ?? {}).map(([name, tag]): [string, string] => [`${group}:${name}`, this.formatRawValue(tag)])
+      ));
+    }
+
+    return new Map(Object.entries(metadata.cleaned).map(([key, field]): [string, string] => [key, this.formatValue(field.value)]));
+  }
+
+  /**
+   * Joins rows into CSV text (RFC 4180)
+   *
+   * Cells that a spreadsheet would evaluate as a formula are prefixed with
+   * an apostrophe, since metadata text is controlled by whoever made the file.
+   * Plain numbers, including negative ones, are left as they are.
+   *
+   * @param rows - Rows of cells, the first being the header
+   * @returns CSV text with CRLF line endings
+   */
+  private static toCsvText(rows: Array<Array<string | number>>): string {
+    const escapeCell = (cell: string | number): string => {
+      let text = String(cell);
+      if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Reads the values of a sidecar property from its first available source tag
+   *
+   * @param metadata - Parsed metadata
+   * @param property - Property to fill
+   * @returns Values to write; empty if no source tag is present
+   */
+  private static getSidecarValues(metadata: MetadataModel, property: SidecarProperty): string[] {
+    for (const [group, name] of property.sources) {
+      const tag = metadata.getTag(group, name);
+      if (!tag) continue;
+
+      let values: Array<string | null>;
+      switch (property.kind) {
+        case 'integer': {
+          const number = metadata.getNumber(group, name);
+          values = [number === null ? null : String(Math.round(number))];
+          break;
+        }
+        case 'rational':
+          values = [this.toXmpRational(tag)];
+          break;
+        case 'date':
+          values = [group === 'exif' ? this.toXmpDate(metadata, tag, property) : String(tag.description)];
+          break;
+        case 'seq':
+        case 'bag':
+          values = this.getItemDescriptions(tag);
+          break;
+        default:
+          values = [String(tag.description)];
+      }
+
+      const present = values.filter((value): value is string => value !== null && value.trim() !== '');
+      if (present.length > 0) return present;
+    }
+    return [];
+  }
+
+  /**
+   * Lists the item descriptions of a multi-valued tag
+   *
+   * Repeated IPTC datasets and XMP arrays hold one tag per item; other tags
+   * yield their description as the only item.
+   */
+  private static getItemDescriptions(tag: RawTag): string[] {
+    const items = Array.isArray(tag.value)
+      ? tag.value.filter((item): item is RawTag => !!item && typeof item === 'object' && 'description' in item)
+      : [];
+    return items.length > 0 ? items.map((item) => String(item.description)) : [String(tag.description)];
+  }
+
+  /**
+   * Formats a rational tag as "numerator/denominator"
+   *
+   * @returns The rational, or null if the value is not a rational
+   */
+  private static toXmpRational(tag: RawTag): string | null {
+    const { value } = tag;
+    if (Array.isArray(value) && value.length === 2 && value.every((part) => typeof part === 'number')) {
+      return `${value[0]}/${value[1]}`;
+    }
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+  }
+
+  /**
+   * Converts an EXIF date ("YYYY:MM:DD HH:MM:SS") to ISO 8601
+   *
+   * Fractional seconds and the UTC offset are appended when the matching
+   * EXIF tags are present.
+   *
+   * @returns The ISO date, or null if the EXIF date is malformed
+   */
+  private static toXmpDate(metadata: MetadataModel, tag: RawTag, property: SidecarProperty): string | null {
+    const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(String(tag.description));
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const subSec = property.subSecTag ? metadata.getText(['exif', property.subSecTag]) : null;
+    const offset = property.offsetTag ? metadata.getText(['exif', property.offsetTag]) : null;
+
+    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}` +
+      (subSec && /^\d+$/.test(subSec) ? `.${subSec}` : '') +
+      (offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '');
+  }
+
+  /**
+   * Serializes one sidecar property as an RDF element
+   *
+   * @param property - Property definition
+   * @param values - Values to write
+   * @returns Indented XML
+   */
+  private static toXmpProperty({ prefix, name, kind }: SidecarProperty, values: string[]): string {
+    const element = `${prefix}:${name}`;
+    const escaped = values.map((value) => this.escapeXml(value));
+
+    if (kind === 'seq' || kind === 'bag' || kind === 'alt') {
+      const container = kind === 'seq' ? 'rdf:Seq' : kind === 'bag' ? 'rdf:Bag' : 'rdf:Alt';
+      const items = kind === 'alt'
+        ? [`     <rdf:li xml:lang="x-default">${escaped[0]}</rdf:li>`]
+        : escaped.map((value) => `     <rdf:li>${value}</rdf:li>`);
+      return [`   <${element}>`, `    <${container}>`, ...items, `    </${container}>`, `   </${element}>`].join('\n');
+    }
+    return `   <${element}>${escaped[0]}</${element}>`;
+  }
+
+  /**
+   * Escapes text for use in XML content and attributes
+   */
+  private static escapeXml(text: string): string {
+    return text
+      .replace(INVALID_XML_CHARS, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
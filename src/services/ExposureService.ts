@@ -0,0 +1,276 @@
+import { MetadataModel } from './MetadataModel';
+
+/**
+ * Sensor and image geometry needed by the optical calculations
+ */
+interface Geometry {
+  cropFactor: number | null;      // Diagonal of a 35 mm frame over the sensor diagonal
+  focalLength35: number | null;   // 35 mm equivalent focal length in millimetres
+  width: number | null;           // Image width in pixels, as displayed
+  height: number | null;          // Image height in pixels, as displayed
+}
+
+// Diagonal of a 36 × 24 mm frame in millimetres
+const FULL_FRAME_DIAGONAL = Math.hypot(36, 24);
+
+// Circle of confusion for a 35 mm frame in millimetres; smaller sensors scale it by their crop factor
+const FULL_FRAME_COC = 0.03;
+
+// Millimetres per FocalPlaneResolutionUnit (2 = inch, 3 = cm, 4 = mm, 5 = µm)
+const RESOLUTION_UNITS: Record<number, number> = { 2: 25.4, 3: 10, 4: 1, 5: 0.001 };
+
+// SubjectDistance written for a subject at infinity (0xFFFFFFFF / 1)
+const INFINITE_DISTANCE = 0xffffffff;
+
+/**
+ * Common aspect ratios, to name a ratio instead of reducing the pixel dimensions
+ */
+const ASPECT_RATIOS: Array<[number, number]> = [[1, 1], [5, 4], [4, 3], [3, 2], [16, 10], [16, 9], [2, 1], [21, 9], [3, 1]];
+
+/**
+ * Rounds a number to a fixed number of decimals and drops trailing zeros
+ *
+ * @param value - Number to round
+ * @param decimals - Decimals to keep
+ * @returns Rounded number as text
+ */
+const round = (value: number, decimals: number): string => String(Number(value.toFixed(decimals)));
+
+/**
+ * Service class for photographic formatting and the values derived from exposure and lens data
+ *
+ * Formatting follows what cameras show: shutter speeds as fractions of a
+ * second, apertures as f-numbers and exposure compensation with its sign.
+ * Derived values are computed from EXIF only and left out when an input
+ * they need is missing.
+ */
+export class ExposureService {
+  /**
+   * Formats the exposure and lens tags consistently
+   *
+   * @param metadata - Metadata of the image
+   * @returns Display values keyed by EXIF tag name, for the tags present
+   */
+  public static format(metadata: MetadataModel): Record<string, string> {
+    const formatted: Record<string, string> = {};
+    const { exposureTime, fNumber, focalLength, exposureBias } = metadata.exposure;
+    const { focalLength35 } = this.getGeometry(metadata);
+
+    if (exposureTime !== null && exposureTime > 0) {
+      formatted.ExposureTime = this.formatShutter(exposureTime);
+    }
+    const shutterSpeed = metadata.getNumber('exif', 'ShutterSpeedValue');
+    if (shutterSpeed !== null) {
+      formatted.ShutterSpeedValue = this.formatShutter(Math.pow(2, -shutterSpeed));
+    }
+    if (fNumber !== null && fNumber > 0) {
+      formatted.FNumber = this.formatAperture(fNumber);
+    }
+    (['ApertureValue', 'MaxApertureValue'] as const).forEach((name) => {
+      const apex = metadata.getNumber('exif', name);
+      if (apex !== null) {
+        formatted[name] = this.formatAperture(Math.pow(2, apex / 2));
+      }
+    });
+    if (focalLength !== null && focalLength > 0) {
+      const equivalent = focalLength35 !== null && Math.round(focalLength35) !== Math.round(focalLength)
+        ? ` (${Math.round(focalLength35)} mm equiv.)`
+        : '';
+      formatted.FocalLength = `${round(focalLength, 1)} mm${equivalent}`;
+    }
+    if (exposureBias !== null) {
+      const value = Number(exposureBias.toFixed(1));
+      formatted.ExposureBiasValue = `${value > 0 ? '+' : ''}${value} EV`;
+    }
+    const subjectDistance = metadata.getNumber('exif', 'SubjectDistance');
+    if (subjectDistance !== null && subjectDistance > 0) {
+      formatted.SubjectDistance = subjectDistance >= INFINITE_DISTANCE ? 'Infinity' : this.formatDistance(subjectDistance * 1000);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Computes exposure, field of view, depth of field and image size values
+   *
+   * @param metadata - Metadata of the image
+   * @returns Display values keyed by field name, for the values that could be computed
+   */
+  public static derive(metadata: MetadataModel): Record<string, string> {
+    const derived: Record<string, string> = {};
+    const { exposureTime, fNumber, iso, focalLength } = metadata.exposure;
+    const { cropFactor, focalLength35, width, height } = this.getGeometry(metadata);
+
+    // Exposure value of the aperture and shutter speed, and the scene brightness it implies at ISO 100
+    if (exposureTime !== null && exposureTime > 0 && fNumber !== null && fNumber > 0) {
+      const exposureValue = Math.log2((fNumber * fNumber) / exposureTime);
+      derived.ExposureValue = `${round(exposureValue, 1)} EV`;
+      if (iso !== null && iso > 0) {
+        derived.LightValue = `${round(exposureValue - Math.log2(iso / 100), 1)} EV`;
+      }
+    }
+
+    if (cropFactor !== null) {
+      derived.CropFactor = `${round(cropFactor, 2)}×`;
+    }
+
+    if (focalLength35 !== null && focalLength35 > 0) {
+      derived.FieldOfView = this.formatFieldOfView(focalLength35, width, height);
+    }
+
+    // Hyperfocal distance, and the depth of field around the focused subject
+    if (focalLength !== null && focalLength > 0 && fNumber !== null && fNumber > 0 && cropFactor !== null) {
+      const circleOfConfusion = FULL_FRAME_COC / cropFactor;
+      const hyperfocal = (focalLength * focalLength) / (fNumber * circleOfConfusion) + focalLength;
+      derived.HyperfocalDistance = this.formatDistance(hyperfocal);
+
+      const subjectDistance = metadata.getNumber('exif', 'SubjectDistance');
+      if (subjectDistance !== null && subjectDistance > 0 && subjectDistance < INFINITE_DISTANCE) {
+        derived.DepthOfField = this.formatDepthOfField(subjectDistance * 1000, focalLength, hyperfocal);
+      }
+    }
+
+    if (width !== null && height !== null && width > 0 && height > 0) {
+      const megapixels = (width * height) / 1e6;
+      derived.Megapixels = `${round(megapixels, megapixels < 1 ? 2 : 1)} MP`;
+      derived.AspectRatio = this.formatAspectRatio(width, height);
+    }
+
+    return derived;
+  }
+
+  /**
+   * Works out the crop factor, 35 mm equivalent focal length and displayed image size
+   *
+   * The crop factor comes from FocalLengthIn35mmFilm when the camera wrote
+   * it, otherwise from the sensor size implied by the focal plane resolution.
+   *
+   * @param metadata - Metadata of the image
+   * @returns Geometry, with null for what cannot be determined
+   */
+  private static getGeometry(metadata: MetadataModel): Geometry {
+    const { focalLength } = metadata.exposure;
+    const written35 = metadata.getNumber('exif', 'FocalLengthIn35mmFilm');
+
+    const pixelWidth = metadata.getNumber('exif', 'PixelXDimension') ?? metadata.getNumber('file', 'Image Width');
+    const pixelHeight = metadata.getNumber('exif', 'PixelYDimension') ?? metadata.getNumber('file', 'Image Height');
+
+    let cropFactor: number | null = null;
+    if (written35 !== null && written35 > 0 && focalLength !== null && focalLength > 0) {
+      cropFactor = written35 / focalLength;
+    } else {
+      const xResolution = metadata.getNumber('exif', 'FocalPlaneXResolution');
+      const yResolution = metadata.getNumber('exif', 'FocalPlaneYResolution');
+      const unit = RESOLUTION_UNITS[metadata.getNumber('exif', 'FocalPlaneResolutionUnit') ?? 2];
+      if (xResolution && yResolution && unit && pixelWidth && pixelHeight) {
+        const sensorDiagonal = Math.hypot((pixelWidth / xResolution) * unit, (pixelHeight / yResolution) * unit);
+        cropFactor = sensorDiagonal > 0 ? FULL_FRAME_DIAGONAL / sensorDiagonal : null;
+      }
+    }
+
+    const focalLength35 = written35 !== null && written35 > 0
+      ? written35
+      : focalLength !== null && cropFactor !== null ? focalLength * cropFactor : null;
+
+    // Orientations 5 to 8 rotate the image by a quarter turn for display
+    const rotated = (metadata.getNumber('exif', 'Orientation') ?? 1) >= 5;
+    return {
+      cropFactor,
+      focalLength35,
+      width: rotated ? pixelHeight : pixelWidth,
+      height: rotated ? pixelWidth : pixelHeight
+    };
+  }
+
+  /**
+   * Formats an exposure time the way cameras show it
+   *
+   * @param seconds - Exposure time
+   * @returns "1/250 s" below a second when the reciprocal is whole, otherwise e.g. "0.4 s" or "2 s"
+   */
+  private static formatShutter(seconds: number): string {
+    const reciprocal = 1 / seconds;
+    if (seconds < 1 && Math.abs(reciprocal - Math.round(reciprocal)) <= reciprocal * 0.02) {
+      return `1/${Math.round(reciprocal)} s`;
+    }
+    return `${round(seconds, seconds < 1 ? 2 : 1)} s`;
+  }
+
+  /**
+   * Formats an f-number
+   *
+   * @param fNumber - Focal ratio
+   * @returns Text such as "f/2.8"
+   */
+  private static formatAperture(fNumber: number): string {
+    return `f/${round(fNumber, 1)}`;
+  }
+
+  /**
+   * Formats a distance in metres, with more precision up close
+   *
+   * @param millimetres - Distance in millimetres
+   * @returns Text such as "0.45 m" or "12.3 m"
+   */
+  private static formatDistance(millimetres: number): string {
+    const metres = millimetres / 1000;
+    return `${round(metres, metres < 10 ? 2 : 1)} m`;
+  }
+
+  /**
+   * Formats the horizontal, vertical and diagonal angles of view
+   *
+   * The 35 mm diagonal is split by the image's own aspect ratio, so crops
+   * and 4:3 or 16:9 images get their actual angles; without the image size
+   * only the diagonal is known.
+   *
+   * @param focalLength35 - 35 mm equivalent focal length
+   * @param width - Displayed image width in pixels
+   * @param height - Displayed image height in pixels
+   * @returns Text such as "54.4° horizontal, 37.8° vertical, 63.4° diagonal"
+   */
+  private static formatFieldOfView(focalLength35: number, width: number | null, height: number | null): string {
+    const angle = (size: number) => round((2 * Math.atan(size / (2 * focalLength35)) * 180) / Math.PI, 1);
+    const diagonal = `${angle(FULL_FRAME_DIAGONAL)}° diagonal`;
+    if (!width || !height) return diagonal;
+
+    const pixelDiagonal = Math.hypot(width, height);
+    return `${angle((FULL_FRAME_DIAGONAL * width) / pixelDiagonal)}° horizontal, ` +
+      `${angle((FULL_FRAME_DIAGONAL * height) / pixelDiagonal)}° vertical, ${diagonal}`;
+  }
+
+  /**
+   * Formats the range of acceptable sharpness around the focused subject
+   *
+   * @param distance - Subject distance in millimetres
+   * @param focalLength - Focal length in millimetres
+   * @param hyperfocal - Hyperfocal distance in millimetres
+   * @returns Text such as "1.85 m to 2.2 m (0.35 m)" or "4.1 m to ∞"
+   */
+  private static formatDepthOfField(distance: number, focalLength: number, hyperfocal: number): string {
+    const near = (distance * (hyperfocal - focalLength)) / (hyperfocal + distance - 2 * focalLength);
+    if (distance >= hyperfocal) {
+      return `${this.formatDistance(near)} to ∞`;
+    }
+    const far = (distance * (hyperfocal - focalLength)) / (hyperfocal - distance);
+    return `${this.formatDistance(near)} to ${this.formatDistance(far)} (${this.formatDistance(far - near)})`;
+  }
+
+  /**
+   * Names the aspect ratio of an image
+   *
+   * @param width - Displayed width in pixels
+   * @param height - Displayed height in pixels
+   * @returns The nearest common ratio within 1% (e.g. "3:2", or "2:3" in portrait), else e.g. "1.91:1"
+   */
+  private static formatAspectRatio(width: number, height: number): string {
+    const portrait = height > width;
+    const ratio = portrait ? height / width : width / height;
+    const common = ASPECT_RATIOS.find(([long, short]) => Math.abs(ratio - long / short) <= (long / short) * 0.01);
+
+    if (!common) {
+      return portrait ? `1:${round(ratio, 2)}` : `${round(ratio, 2)}:1`;
+    }
+    return portrait ? `${common[1]}:${common[0]}` : `${common[0]}:${common[1]}`;
+  }
+}
@@ -0,0 +1,407 @@
+import { MetadataModel, MetadataGroup, DiagnosticTag } from './MetadataModel';
+import { SegmentReader } from './SegmentReader';
+import { JpegSegments, JpegSegment } from './JpegSegments';
+import { EmbeddedPreview, PreviewComparison, PreviewVerdict } from './PreviewService';
+
+/**
+ * How strongly a signal suggests the image was changed after capture
+ */
+export type ForensicStrength =
+  | 'strong'    // Hard to explain without editing
+  | 'moderate'  // Usually means editing, but has innocent explanations
+  | 'weak'      // Worth a look, common in unedited files too
+  | 'info';     // Provenance information rather than a sign of tampering
+
+/**
+ * A sign of editing or provenance found in an image
+ */
+export interface ForensicSignal {
+  id: string;
+  strength: ForensicStrength;
+  title: string;
+  explanation: string;     // What the signal means and how it can arise innocently
+  detail: string;          // What was found in this image
+  tags: DiagnosticTag[];   // Raw tags the signal is based on
+}
+
+/**
+ * Result of a forensic analysis
+ */
+export interface ForensicReport {
+  level: ForensicStrength | 'none';  // Strength of the strongest tampering signal
+  signals: ForensicSignal[];         // Sorted from strongest to weakest
+}
+
+/**
+ * A quantization table of a JPEG file
+ */
+interface QuantizationTable {
+  id: number;          // Table slot; 0 is normally luminance, 1 chrominance
+  values: number[];    // 64 values in natural (row by row) order
+}
+
+// Strengths from strongest to weakest
+const STRENGTH_ORDER: ForensicStrength[] = ['strong', 'moderate', 'weak', 'info'];
+
+// Editing, raw development and export software written into Software or CreatorTool
+const EDITOR_PATTERN = /photoshop|lightroom|camera raw|gimp|affinity|pixelmator|capture one|darktable|rawtherapee|luminar|snapseed|paint\.net|paintshop|corel|acdsee|dxo|on1 photo|photopea|photoscape|picasa|fotor|canva|facetune|meitu|vsco|picsart|krita/i;
+
+// Makes whose cameras write a MakerNote and use their own quantization tables
+const CAMERA_MAKES = /^(canon|nikon|sony|fujifilm|olympus|om digital|panasonic|pentax|ricoh|leica|apple)/i;
+
+// Capture and modification times further apart than this were written at different moments (seconds)
+const MODIFY_TOLERANCE = 2;
+
+// Aspect ratios differing by less than this are the same framing (ratio of logarithms)
+const ASPECT_TOLERANCE = 0.04;
+
+// JPEG marker of Define Quantization Table segments
+const DQT_MARKER = 0xDB;
+
+// JPEG marker of APP11 segments, which carry JUMBF boxes such as C2PA manifests
+const APP11_MARKER = 0xEB;
+
+// Natural-order index of each coefficient in the zigzag order tables are stored in
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+];
+
+// Example tables of the JPEG standard (Annex K), which libjpeg scales by its quality setting
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+const STANDARD_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99)
+];
+
+// Strength and title of a preview comparison result that differs from the main image
+const PREVIEW_SIGNALS: Record<Exclude<PreviewVerdict, 'match'>, { strength: ForensicStrength; title: string }> = {
+  different: { strength: 'strong', title: 'Thumbnail shows a different picture' },
+  altered: { strength: 'strong', title: 'Thumbnail differs in part of the frame' },
+  reframed: { strength: 'moderate', title: 'Thumbnail has a different framing' }
+};
+
+/**
+ * Service class for collecting signs that an image was edited
+ *
+ * No single signal proves tampering: editors, raw converters and even
+ * in-camera processing leave some of them behind. The report gathers them
+ * with an explanation each, so a reviewer can weigh them together.
+ */
+export class ForensicService {
+  /**
+   * Analyzes an image for signs of editing and for provenance data
+   *
+   * @param file - Image file the metadata was parsed from
+   * @param metadata - Parsed metadata of the file
+   * @param previews - Embedded previews of the file, from PreviewService.extract
+   * @param comparisons - Their comparisons with the main image, from PreviewService.compare
+   * @returns Signals found, strongest first
+   */
+  public static async analyze(
+    file: Blob,
+    metadata: MetadataModel,
+    previews: EmbeddedPreview[],
+    comparisons: Array<PreviewComparison | null>
+  ): Promise<ForensicReport> {
+    const { buffer, strategy } = await SegmentReader.readMetadataBuffer(file);
+    const segments = strategy === 'jpeg-segments' ? JpegSegments.parse(new Uint8Array(buffer)).segments : [];
+
+    const signals = [
+      ...this.checkSoftware(metadata),
+      ...this.checkHistory(metadata),
+      ...this.checkModifyDate(metadata),
+      ...this.checkThumbnail(metadata, previews, comparisons),
+      ...this.checkMakerNote(metadata),
+      ...this.checkQuantization(segments, metadata),
+      ...this.checkContentCredentials(segments, metadata)
+    ].sort((a, b) => STRENGTH_ORDER.indexOf(a.strength) - STRENGTH_ORDER.indexOf(b.strength));
+
+    const strongest = signals.find((signal) => signal.strength !== 'info');
+    return { level: strongest?.strength ?? 'none', signals };
+  }
+
+  /**
+   * Estimates the libjpeg quality setting that produced a set of quantization tables
+   *
+   * @param tables - Quantization tables of the file
+   * @returns Quality from 1 to 100, or null if the tables are not scaled standard tables
+   */
+  private static findStandardQuality(tables: QuantizationTable[]): number | null {
+    const luminance = tables.find((table) => table.id === 0);
+    if (!luminance) return null;
+    const chrominance = tables.find((table) => table.id === 1);
+
+    for (let quality = 1; quality <= 100; quality++) {
+      if (this.tableMatches(luminance.values, STANDARD_LUMINANCE, quality) &&
+          (!chrominance || this.tableMatches(chrominance.values, STANDARD_CHROMINANCE, quality))) {
+        return quality;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Flags editing software named in the Software, ProcessingSoftware or CreatorTool tags
+   */
+  private static checkSoftware(metadata: MetadataModel): ForensicSignal[] {
+    const found = ([['exif', 'Software'], ['exif', 'ProcessingSoftware'], ['xmp', 'CreatorTool']] as Array<[MetadataGroup, string]>)
+      .filter((candidate) => EDITOR_PATTERN.test(metadata.getText(candidate) ?? ''));
+    if (found.length === 0) return [];
+
+    return [{
+      id: 'editing-software',
+      strength: 'moderate',
+      title: 'Saved by editing software',
+      explanation: 'Cameras write their firmware version into these tags. Editing and raw development software replaces it with its own name when it saves the file, although it may only have converted or resized the image.',
+      detail: [...new Set(found.map((candidate) => metadata.getText(candidate)))].join(', '),
+      tags: this.collectTags(metadata, found)
+    }];
+  }
+
+  /**
+   * Flags an XMP edit history
+   */
+  private static checkHistory(metadata: MetadataModel): ForensicSignal[] {
+    const history = metadata.getTag('xmp', 'History');
+    if (!history) return [];
+
+    const entries = Array.isArray(history.value) ? history.value as Array<Record<string, { description?: unknown }> | null> : [];
+    const agents = [...new Set(entries.map((entry) => entry?.softwareAgent?.description).filter((agent) => agent))];
+
+    return [{
+      id: 'edit-history',
+      strength: 'moderate',
+      title: 'Edit history recorded',
+      explanation: 'Adobe and compatible software add an entry to the XMP history every time the file is saved. Camera originals have no history.',
+      detail: `${entries.length || 'Some'} recorded step${entries.length === 1 ? '' : 's'}${agents.length > 0 ? ` by ${agents.join(', ')}` : ''}`,
+      tags: [{ group: 'xmp', name: 'History', value: history.value }]
+    }];
+  }
+
+  /**
+   * Flags a modification time that differs from the capture time
+   */
+  private static checkModifyDate(metadata: MetadataModel): ForensicSignal[] {
+    // EXIF DateTime is the file modification time, known to most tools as ModifyDate
+    const pairs: Array<[[MetadataGroup, string], [MetadataGroup, string]]> = [
+      [['exif', 'DateTime'], ['exif', 'DateTimeOriginal']],
+      [['xmp', 'ModifyDate'], ['xmp', 'DateTimeOriginal']],
+      [['xmp', 'ModifyDate'], ['xmp', 'CreateDate']],
+      [['xmp', 'ModifyDate'], ['exif', 'DateTimeOriginal']]
+    ];
+
+    for (const [modified, original] of pairs) {
+      const modifiedText = metadata.getText(modified);
+      const originalText = metadata.getText(original);
+      const modifiedTime = modifiedText ? this.parseLocalTime(modifiedText) : null;
+      const originalTime = originalText ? this.parseLocalTime(originalText) : null;
+      if (modifiedTime === null || originalTime === null) continue;
+      if (Math.abs(modifiedTime - originalTime) <= MODIFY_TOLERANCE) continue;
+
+      return [{
+        id: 'modify-date',
+        strength: 'weak',
+        title: 'Modified after capture',
+        explanation: 'Cameras set the modification time to the capture time. A later time means software saved the file again, which also happens when only rating, tagging or rotating it.',
+        detail: `Modified ${this.formatInterval(modifiedTime - originalTime)} ${modifiedTime > originalTime ? 'after' : 'before'} capture`,
+        tags: this.collectTags(metadata, [modified, original])
+      }];
+    }
+    return [];
+  }
+
+  /**
+   * Flags an EXIF thumbnail whose content or framing differs from the main image
+   *
+   * Where the browser can decode both images they are compared visually;
+   * otherwise only the thumbnail's pixel dimensions are checked against the
+   * main image, ignoring the letterboxing cameras use to fit a fixed size.
+   */
+  private static checkThumbnail(
+    metadata: MetadataModel,
+    previews: EmbeddedPreview[],
+    comparisons: Array<PreviewComparison | null>
+  ): ForensicSignal[] {
+    const index = previews.findIndex((preview) => preview.source === 'thumbnail');
+    if (index === -1) return [];
+    const thumbnail = previews[index];
+
+    const tags = this.collectTags(metadata, [
+      ['thumbnail', 'JPEGInterchangeFormat'], ['thumbnail', 'JPEGInterchangeFormatLength'], ['file', 'Image Width'], ['file', 'Image Height']
+    ]);
+    const explanation = 'Editors often rewrite the main image but keep the thumbnail the camera made, so a thumbnail that does not match may show the picture before it was cropped or retouched.';
+
+    const comparison = comparisons[index];
+    if (comparison) {
+      if (comparison.verdict === 'match') return [];
+      return [{ id: 'thumbnail-mismatch', ...PREVIEW_SIGNALS[comparison.verdict], explanation, detail: comparison.message, tags }];
+    }
+
+    // Letterboxing keeps the orientation, so only a thumbnail turned the other way is certain to differ
+    const width = metadata.getNumber('file', 'Image Width');
+    const height = metadata.getNumber('file', 'Image Height');
+    if (!width || !height || !thumbnail.width || !thumbnail.height) return [];
+    const mainRatio = Math.log(width / height);
+    const thumbnailRatio = Math.log(thumbnail.width / thumbnail.height);
+    if (Math.abs(mainRatio) < ASPECT_TOLERANCE || Math.abs(thumbnailRatio) < ASPECT_TOLERANCE || Math.sign(mainRatio) === Math.sign(thumbnailRatio)) {
+      return [];
+    }
+
+    return [{
+      id: 'thumbnail-mismatch',
+      strength: 'moderate',
+      title: 'Thumbnail has a different framing',
+      explanation,
+      detail: `The thumbnail is ${thumbnail.width} × ${thumbnail.height} px but the image is ${width} × ${height} px`,
+      tags
+    }];
+  }
+
+  /**
+   * Flags a missing MakerNote on a camera make that always writes one
+   */
+  private static checkMakerNote(metadata: MetadataModel): ForensicSignal[] {
+    const make = metadata.getText(['exif', 'Make']);
+    if (!make || !CAMERA_MAKES.test(make) || metadata.getTag('exif', 'MakerNote') || metadata.raw.makerNotes) return [];
+
+    return [{
+      id: 'missing-makernote',
+      strength: 'moderate',
+      title: 'Maker notes missing',
+      explanation: 'Cameras of this make store vendor data in a MakerNote. Software that rebuilds the EXIF data often drops it, as do some privacy tools and online services.',
+      detail: `No MakerNote, although ${make} cameras write one`,
+      tags: this.collectTags(metadata, [['exif', 'Make'], ['exif', 'Model'], ['exif', 'MakerNote']])
+    }];
+  }
+
+  /**
+   * Flags quantization tables of a libjpeg encoder in a photo claiming to come from a camera
+   */
+  private static checkQuantization(segments: JpegSegment[], metadata: MetadataModel): ForensicSignal[] {
+    const make = metadata.getText(['exif', 'Make']);
+    if (!make || !CAMERA_MAKES.test(make)) return [];
+
+    const quality = this.findStandardQuality(this.readQuantizationTables(segments));
+    if (quality === null) return [];
+
+    return [{
+      id: 'quantization-tables',
+      strength: 'moderate',
+      title: 'Compression does not match the camera',
+      explanation: 'The compression tables are the standard libjpeg tables used by most editors, browsers and online services. Cameras of this make use tables of their own, so the image was probably re-encoded after it left the camera.',
+      detail: `Standard tables at quality ${quality}`,
+      tags: this.collectTags(metadata, [['exif', 'Make'], ['exif', 'Model']])
+    }];
+  }
+
+  /**
+   * Reports a C2PA Content Credentials manifest
+   */
+  private static checkContentCredentials(segments: JpegSegment[], metadata: MetadataModel): ForensicSignal[] {
+    const embedded = segments.some((segment) => segment.marker === APP11_MARKER && this.containsText(segment.data, 'c2pa'));
+    const provenance = metadata.getTag('xmp', 'provenance');
+    if (!embedded && !provenance) return [];
+
+    return [{
+      id: 'content-credentials',
+      strength: 'info',
+      title: 'Content Credentials present',
+      explanation: 'A C2PA manifest records who made the image and which edits were applied, signed by the tools that made them. Check it with a C2PA validator; this app does not verify the signature.',
+      detail: embedded ? 'A C2PA manifest is embedded in the file' : 'The XMP data refers to a C2PA manifest that is not embedded',
+      tags: provenance ? [{ group: 'xmp', name: 'provenance', value: provenance.value }] : []
+    }];
+  }
+
+  /**
+   * Reads the quantization tables from the DQT segments of a JPEG
+   */
+  private static readQuantizationTables(segments: JpegSegment[]): QuantizationTable[] {
+    const tables: QuantizationTable[] = [];
+
+    segments.filter((segment) => segment.marker === DQT_MARKER).forEach(({ data }) => {
+      let offset = 0;
+      while (offset < data.length) {
+        // High nibble: 0 for 8-bit values, 1 for 16-bit values; low nibble: table slot
+        const wide = data[offset] >> 4 === 1;
+        const id = data[offset] & 0x0F;
+        const size = wide ? 128 : 64;
+        if (offset + 1 + size > data.length) break;
+
+        const values = new Array<number>(64);
+        for (let i = 0; i < 64; i++) {
+          values[ZIGZAG[i]] = wide ? (data[offset + 1 + i * 2] << 8) | data[offset + 2 + i * 2] : data[offset + 1 + i];
+        }
+        tables.push({ id, values });
+        offset += 1 + size;
+      }
+    });
+
+    return tables;
+  }
+
+  /**
+   * Checks a table against a standard table scaled the way libjpeg scales it
+   */
+  private static tableMatches(values: number[], standard: number[], quality: number): boolean {
+    const scale = quality < 50 ? Math.floor(5000 / quality) : 200 - quality * 2;
+    return standard.every((base, index) =>
+      values[index] === Math.min(255, Math.max(1, Math.floor((base * scale + 50) / 100))));
+  }
+
+  /**
+   * Looks up raw tags, leaving out the missing ones
+   */
+  private static collectTags(metadata: MetadataModel, candidates: Array<[MetadataGroup, string]>): DiagnosticTag[] {
+    return candidates
+      .map(([group, name]): DiagnosticTag => ({ group, name, value: metadata.getTag(group, name)?.value }))
+      .filter((tag) => tag.value !== undefined);
+  }
+
+  /**
+   * Reads the local date and time of an EXIF ("2024:01:02 03:04:05") or XMP/ISO date
+   *
+   * @returns Seconds since the epoch as if the time were UTC, or null if it is not a full date and time
+   */
+  private static parseLocalTime(text: string): number | null {
+    const match = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/.exec(text);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, Number.isNaN(second) ? 0 : second) / 1000;
+  }
+
+  /**
+   * Formats a number of seconds as a rough, readable interval
+   */
+  private static formatInterval(seconds: number): string {
+    const abs = Math.abs(seconds);
+    if (abs < 120) return `${abs} seconds`;
+    if (abs < 7200) return `${Math.round(abs / 60)} minutes`;
+    if (abs < 172800) return `${Math.round(abs / 3600)} hours`;
+    return `${Math.round(abs / 86400)} days`;
+  }
+
+  /**
+   * Checks whether bytes contain an ASCII string
+   */
+  private static containsText(data: Uint8Array, text: string): boolean {
+    for (let i = 0; i + text.length <= data.length; i++) {
+      if (JpegSegments.startsWith(data, text, i)) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,212 @@
+import { ParsedMetadata, Place } from './MetadataModel';
+import { GeoPoint } from './MapProviderService';
+
+/**
+ * Layout of the bundled gazetteer, written by scripts/build-gazetteer.js
+ */
+interface GazetteerData {
+  source: string;
+  regions: Record<string, string>;  // Region names keyed by "CC.code"
+  names: string[];
+  countries: string[];              // ISO 3166-1 alpha-2 code of each place
+  regionCodes: string[];            // First-level administrative code of each place
+  coordinates: number[];            // Latitude and longitude of each place in thousandths of a degree
+}
+
+// Mean Earth radius in kilometres
+const EARTH_RADIUS = 6371;
+
+// Places farther away than this are no longer a meaningful description of a location (km)
+const MAX_DISTANCE = 250;
+
+// Scale of the stored coordinates
+const COORDINATE_SCALE = 1000;
+
+/**
+ * Static k-d tree over the places of the gazetteer
+ *
+ * Places are indexed as points on the unit sphere, so the nearest point by
+ * straight-line (chord) distance is also the nearest along the surface, with
+ * no special cases at the poles or the antimeridian. The tree is stored
+ * implicitly: each range of the index array holds its median at the middle
+ * and its two halves on either side.
+ */
+class PlaceIndex {
+  private readonly points: Float64Array;  // x, y, z of each place
+  private readonly order: Int32Array;     // Place indices arranged as the tree
+
+  constructor(private readonly data: GazetteerData) {
+    const count = data.names.length;
+    this.points = new Float64Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      this.points.set(PlaceIndex.toVector({
+        latitude: data.coordinates[i * 2] / COORDINATE_SCALE,
+        longitude: data.coordinates[i * 2 + 1] / COORDINATE_SCALE
+      }), i * 3);
+    }
+
+    this.order = Int32Array.from({ length: count }, (_, i) => i);
+    this.build(0, count, 0);
+  }
+
+  /**
+   * Finds the place nearest to a point
+   *
+   * @param point - Position to look up
+   * @returns Index of the nearest place and its chord distance on the unit sphere
+   */
+  public nearest(point: GeoPoint): { index: number; chord: number } | null {
+    if (this.order.length === 0) return null;
+
+    const target = PlaceIndex.toVector(point);
+    const best = { index: -1, squared: Infinity };
+    this.search(0, this.order.length, 0, target, best);
+    return { index: best.index, chord: Math.sqrt(best.squared) };
+  }
+
+  /**
+   * Describes a place of the gazetteer
+   *
+   * @param index - Index of the place
+   * @param distance - Distance from the looked-up point in kilometres
+   */
+  public getPlace(index: number, distance: number): Place {
+    const countryCode = this.data.countries[index];
+    const regionCode = this.data.regionCodes[index];
+    return {
+      city: this.data.names[index],
+      region: regionCode ? this.data.regions[`${countryCode}.${regionCode}`] ?? null : null,
+      country: PlaceIndex.getCountryName(countryCode),
+      countryCode,
+      distance: Math.round(distance * 10) / 10
+    };
+  }
+
+  /**
+   * Arranges a range of the index array into a subtree split on the given axis
+   */
+  private build(start: number, end: number, axis: number): void {
+    if (end - start <= 1) return;
+
+    this.order.subarray(start, end).sort((a, b) => this.points[a * 3 + axis] - this.points[b * 3 + axis]);
+    const middle = (start + end) >> 1;
+    this.build(start, middle, (axis + 1) % 3);
+    this.build(middle + 1, end, (axis + 1) % 3);
+  }
+
+  /**
+   * Searches a subtree, visiting the half containing the target first
+   */
+  private search(start: number, end: number, axis: number, target: number[], best: { index: number; squared: number }): void {
+    if (start >= end) return;
+
+    const middle = (start + end) >> 1;
+    const index = this.order[middle];
+    const dx = this.points[index * 3] - target[0];
+    const dy = this.points[index * 3 + 1] - target[1];
+    const dz = this.points[index * 3 + 2] - target[2];
+    const squared = dx * dx + dy * dy + dz * dz;
+    if (squared < best.squared) {
+      best.index = index;
+      best.squared = squared;
+    }
+
+    const split = target[axis] - this.points[index * 3 + axis];
+    const next = (axis + 1) % 3;
+    const [near, far] = split < 0 ? [[start, middle], [middle + 1, end]] : [[middle + 1, end], [start, middle]];
+    this.search(near[0], near[1], next, target, best);
+    // The other half can only hold a nearer place if the splitting plane is nearer than the best so far
+    if (split * split < best.squared) {
+      this.search(far[0], far[1], next, target, best);
+    }
+  }
+
+  /**
+   * Converts a position to a point on the unit sphere
+   */
+  private static toVector({ latitude, longitude }: GeoPoint): number[] {
+    const lat = (latitude * Math.PI) / 180;
+    const lon = (longitude * Math.PI) / 180;
+    return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)];
+  }
+
+  /**
+   * Looks up the English name of a country, falling back to its code
+   */
+  private static getCountryName(code: string): string {
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? code;
+    } catch {
+      return code;
+    }
+  }
+}
+
+/**
+ * Service class for offline reverse geocoding
+ *
+ * Finds the nearest city, its region and country in a gazetteer bundled
+ * with the app, so no coordinates are sent anywhere. The gazetteer is
+ * loaded on first use and only when an image has a location.
+ */
+export class GeocodingService {
+  private static index: Promise<PlaceIndex> | null = null;
+
+  /**
+   * Finds the nearest named place to a position
+   *
+   * @param point - Position to look up
+   * @returns Promise resolving to the place, or null if none lies within a few hundred kilometres
+   */
+  public static async findPlace(point: GeoPoint): Promise<Place | null> {
+    this.index ??= import('../data/gazetteer.json').then(({ default: data }) => new PlaceIndex(data));
+    const index = await this.index;
+
+    const match = index.nearest(point);
+    if (!match) return null;
+
+    // Chord length on the unit sphere to distance along the surface
+    const distance = 2 * EARTH_RADIUS * Math.asin(Math.min(1, match.chord / 2));
+    return distance <= MAX_DISTANCE ? index.getPlace(match.index, distance) : null;
+  }
+
+  /**
+   * Adds the nearest place to the location of parsed metadata
+   *
+   * A gazetteer that fails to load leaves the metadata without a place
+   * rather than failing the parse, and is reported as a diagnostic.
+   *
+   * @param parsed - Parsed metadata; its location is updated in place
+   * @returns Promise resolving to the same metadata
+   */
+  public static async addPlace(parsed: ParsedMetadata): Promise<ParsedMetadata> {
+    const location = parsed.cleanedData.GPSCoordinates?.value;
+    if (!location || typeof location !== 'object' || !('latitude' in location)) return parsed;
+
+    try {
+      const place = await this.findPlace(location);
+      if (place) location.place = place;
+    } catch (err) {
+      parsed.diagnostics.push({
+        code: 'geocoding-unavailable',
+        severity: 'info',
+        message: `The nearest place could not be looked up (${err instanceof Error ? err.message : String(err)})`,
+        field: 'GPSCoordinates',
+        tags: []
+      });
+    }
+    return parsed;
+  }
+
+  /**
+   * Formats a place for display
+   *
+   * @param place - Place to format
+   * @returns Text such as "Paris, Île-de-France, France"
+   */
+  public static formatPlace(place: Place): string {
+    // City states are often their own region
+    const region = place.region && place.region !== place.city ? place.region : null;
+    return [place.city, region, place.country].filter(Boolean).join(', ');
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Service class for fingerprinting files
+ *
+ * Hashes are computed locally with the Web Crypto API.
+ */
+export class HashService {
+  /**
+   * Computes the SHA-256 hash of a file
+   *
+   * @param file - File to hash
+   * @returns Hash as lowercase hex
+   */
+  public static async sha256(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
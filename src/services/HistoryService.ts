@@ -0,0 +1,233 @@
+import { MetadataModel, MetadataSummary, ParsedMetadata } from './MetadataModel';
+import { HashService } from './HashService';
+
+/**
+ * An image in the local history, without its metadata
+ */
+export interface HistoryEntry {
+  id: string;                 // SHA-256 of the file as hex; analyzing the same file again replaces its entry
+  fileName: string;
+  fileSize: number;           // Bytes
+  analyzedAt: number;         // Milliseconds since the epoch
+  thumbnail: Blob | null;     // Small JPEG of the image, or null if the browser could not decode it
+  summary: MetadataSummary;   // Key fields, for listing and searching without loading the metadata
+}
+
+// localStorage key of the opt-in flag
+const STORAGE_KEY = 'exif-parser.history-enabled';
+
+// IndexedDB database holding the history
+const DB_NAME = 'exif-parser-history';
+const DB_VERSION = 1;
+
+// Object stores: entries are listed often, metadata is only read when an entry is reopened
+const ENTRY_STORE = 'entries';
+const METADATA_STORE = 'metadata';
+
+// Longest side of the stored thumbnails in pixels
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * Wraps an IndexedDB request in a promise
+ *
+ * @param request - Request to wait for
+ * @returns The request's result
+ */
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Waits for a transaction to commit
+ *
+ * @param transaction - Transaction to wait for
+ */
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('History transaction aborted'));
+  });
+
+/**
+ * Service class for the opt-in history of analyzed images
+ *
+ * The history lives in the browser's IndexedDB and is never sent anywhere.
+ * Each entry keeps the cleaned and raw metadata, a thumbnail and the file's
+ * hash, so an image can be reopened later without the original file.
+ */
+export class HistoryService {
+  private static database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Reads whether the user turned the history on
+   *
+   * @returns True if analyzed images should be stored
+   */
+  public static isEnabled(): boolean {
+    try {
+      return localStorage.getItem(STORAGE_KEY) === 'true';
+    } catch {
+      // Storage may be unavailable (privacy mode)
+      return false;
+    }
+  }
+
+  /**
+   * Turns storing analyzed images on or off
+   *
+   * Turning it off keeps the stored entries until they are deleted.
+   *
+   * @param enabled - Whether to store analyzed images
+   */
+  public static setEnabled(enabled: boolean): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, String(enabled));
+    } catch {
+      // The choice then only lasts for this session
+    }
+  }
+
+  /**
+   * Stores an analyzed image, replacing an earlier entry for the same file
+   *
+   * @param file - Image file that was analyzed
+   * @param metadata - Its parsed metadata
+   * @param fileName - Name to list the image under, e.g. its path in a folder
+   * @returns The stored entry
+   */
+  public static async save(file: File, metadata: MetadataModel, fileName = file.name): Promise<HistoryEntry> {
+    const [id, thumbnail] = await Promise.all([HashService.sha256(file), this.createThumbnail(file)]);
+    const entry: HistoryEntry = {
+      id,
+      fileName,
+      fileSize: file.size,
+      analyzedAt: Date.now(),
+      thumbnail,
+      summary: metadata.getSummary()
+    };
+    const parsed: ParsedMetadata = { rawData: metadata.raw, cleanedData: metadata.cleaned, diagnostics: metadata.diagnostics };
+
+    const transaction = (await this.open()).transaction([ENTRY_STORE, METADATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).put(entry);
+    transaction.objectStore(METADATA_STORE).put(parsed, id);
+    await whenComplete(transaction);
+    return entry;
+  }
+
+  /**
+   * Lists the stored images
+   *
+   * @returns Entries, most recently analyzed first
+   */
+  public static async list(): Promise<HistoryEntry[]> {
+    const store = (await this.open()).transaction(ENTRY_STORE).objectStore(ENTRY_STORE);
+    const entries = await toPromise(store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.analyzedAt - a.analyzedAt);
+  }
+
+  /**
+   * Loads the metadata of a stored image
+   *
+   * @param id - Entry id
+   * @returns The metadata, or null if the entry no longer exists
+   */
+  public static async load(id: string): Promise<MetadataModel | null> {
+    const store = (await this.open()).transaction(METADATA_STORE).objectStore(METADATA_STORE);
+    const parsed = await toPromise(store.get(id) as IDBRequest<ParsedMetadata | undefined>);
+    return parsed ? new MetadataModel(parsed) : null;
+  }
+
+  /**
+   * Deletes a stored image
+   *
+   * @param id - Entry id
+   */
+  public static async remove(id: string): Promise<void> {
+    const transaction = (await this.open()).transaction([ENTRY_STORE, METADATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).delete(id);
+    transaction.objectStore(METADATA_STORE).delete(id);
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Deletes every stored image
+   */
+  public static async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction([ENTRY_STORE, METADATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    transaction.objectStore(METADATA_STORE).clear();
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Filters entries by a search text
+   *
+   * @param entries - Entries to filter
+   * @param query - Text to look for in the file name, hash, capture date, camera, lens and place
+   * @returns Entries matching every word of the query
+   */
+  public static search(entries: HistoryEntry[], query: string): HistoryEntry[] {
+    const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return entries;
+
+    return entries.filter((entry) => {
+      const { captureDate, camera, lens, city, country } = entry.summary;
+      const text = [entry.fileName, entry.id, captureDate, camera, lens, city, country].filter(Boolean).join(' ').toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+  }
+
+  /**
+   * Opens the history database, creating its stores on first use
+   *
+   * @returns The open database, shared by all calls
+   */
+  private static open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(METADATA_STORE);
+      };
+      this.database = toPromise(request).catch((err) => {
+        // Let a later call try again, e.g. after the user allowed storage
+        this.database = null;
+        throw err;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Draws a small JPEG copy of an image
+   *
+   * @param file - Image to shrink
+   * @returns The thumbnail, or null if the browser cannot decode the image
+   */
+  private static async createThumbnail(file: Blob): Promise<Blob | null> {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      return null;
+    }
+
+    try {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    } finally {
+      bitmap.close();
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Identifies a single IPTC-IIM dataset (e.g. record 2, dataset 80 = By-line)
+ */
+export interface IptcDatasetId {
+  record: number;
+  dataset: number;
+}
+
+/**
+ * A dataset with its value bytes
+ */
+interface IptcDataset extends IptcDatasetId {
+  data: Uint8Array;
+}
+
+// Photoshop image resource holding the IPTC-IIM block
+const IPTC_RESOURCE_ID = 0x0404;
+const RESOURCE_SIGNATURE = '8BIM';
+
+// Longest value a dataset with a standard (15-bit) length field can hold
+const MAX_DATASET_LENGTH = 0x7FFF;
+
+// Envelope dataset 1:90 declares the character set; ESC % G means UTF-8
+const CHARSET_DATASET = 90;
+const UTF8_DECLARATION = new Uint8Array([0x1B, 0x25, 0x47]);
+
+/**
+ * Utility class for editing IPTC-IIM data inside Photoshop image resource blocks (JPEG APP13)
+ */
+export class IptcEditor {
+  /**
+   * Removes IPTC datasets matching a predicate from a Photoshop resource block
+   *
+   * Resources other than the IPTC block are copied unchanged. If the block
+   * cannot be parsed it is returned as-is rather than risking corruption.
+   *
+   * @param resources - Photoshop image resource bytes (after the "Photoshop 3.0\0" identifier)
+   * @param shouldRemove - Returns true for datasets that should be dropped
+   * @returns The rewritten resource block
+   */
+  public static removeDatasets(
+    resources: Uint8Array,
+    shouldRemove: (id: IptcDatasetId) => boolean
+  ): Uint8Array {
+    return this.rewriteIptc(resources, (iptc) => {
+      const datasets = this.readDatasets(iptc);
+      return datasets && this.joinDatasets(datasets.filter((item) => !shouldRemove(item)));
+    });
+  }
+
+  /**
+   * Replaces the values of text datasets in the IPTC block of a Photoshop resource block
+   *
+   * Only an existing IPTC block is updated; resources without one are
+   * returned unchanged. Values are written as UTF-8, which is declared in the
+   * envelope record when the block does not declare a character set yet.
+   *
+   * @param resources - Photoshop image resource bytes (after the "Photoshop 3.0\0" identifier)
+   * @param record - IPTC record number of the datasets (2 for the application record)
+   * @param values - New values by dataset number; an empty array removes the dataset
+   * @returns The rewritten resource block
+   * @throws Error if a value is too long for a standard dataset
+   */
+  public static setDatasets(resources: Uint8Array, record: number, values: Map<number, string[]>): Uint8Array {
+    return this.rewriteIptc(resources, (iptc) => {
+      const datasets = this.readDatasets(iptc);
+      if (!datasets) return null;
+
+      const kept = datasets.filter((item) => item.record !== record || !values.has(item.dataset));
+      const encoder = new TextEncoder();
+      let needsUtf8 = false;
+
+      values.forEach((items, dataset) => {
+        items.forEach((item) => {
+          const data = encoder.encode(item);
+          if (data.length > MAX_DATASET_LENGTH) {
+            throw new Error(`IPTC dataset ${record}:${dataset} cannot hold more than ${MAX_DATASET_LENGTH} bytes`);
+          }
+          needsUtf8 ||= data.length !== item.length;
+          kept.push({ record, dataset, data });
+        });
+      });
+
+      if (needsUtf8 && !kept.some((item) => item.record === 1 && item.dataset === CHARSET_DATASET)) {
+        kept.push({ record: 1, dataset: CHARSET_DATASET, data: UTF8_DECLARATION });
+      }
+
+      // Records and the datasets within them are kept in ascending order; repeated datasets keep theirs
+      kept.sort((a, b) => a.record - b.record || a.dataset - b.dataset);
+      return this.joinDatasets(kept);
+    });
+  }
+
+  /**
+   * Rewrites the IPTC resource of a Photoshop resource block
+   *
+   * @param resources - Photoshop image resource bytes
+   * @param transform - Produces the new IPTC bytes, or null if they cannot be parsed
+   * @returns The rewritten resource block, or the original if anything could not be parsed
+   */
+  private static rewriteIptc(
+    resources: Uint8Array,
+    transform: (iptc: Uint8Array) => Uint8Array | null
+  ): Uint8Array {
+    const parts: Uint8Array[] = [];
+    let offset = 0;
+
+    while (offset + 12 <= resources.length) {
+      if (!this.matchesSignature(resources, offset)) return resources;
+
+      // Resource name is a Pascal string padded to an even length
+      const nameLength = resources[offset + 6];
+      const namePadded = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2;
+      const sizeOffset = offset + 6 + namePadded;
+      if (sizeOffset + 4 > resources.length) return resources;
+
+      const view = new DataView(resources.buffer, resources.byteOffset, resources.byteLength);
+      const id = view.getUint16(offset + 4);
+      const size = view.getUint32(sizeOffset);
+      const dataStart = sizeOffset + 4;
+      const dataEnd = dataStart + size;
+      if (dataEnd > resources.length) return resources;
+      const next = dataEnd + (size % 2);
+
+      if (id === IPTC_RESOURCE_ID) {
+        const rewritten = transform(resources.subarray(dataStart, dataEnd));
+        if (!rewritten) return resources;
+
+        const header = resources.slice(offset, dataStart);
+        new DataView(header.buffer).setUint32(header.length - 4, rewritten.length);
+        parts.push(header, rewritten);
+        if (rewritten.length % 2) parts.push(new Uint8Array(1));
+      } else {
+        parts.push(resources.subarray(offset, Math.min(next, resources.length)));
+      }
+
+      offset = next;
+    }
+
+    return this.concat(parts);
+  }
+
+  /**
+   * Splits a raw IPTC-IIM block into its datasets
+   *
+   * @param iptc - IPTC-IIM bytes
+   * @returns The datasets, or null if the block uses an unsupported encoding
+   */
+  private static readDatasets(iptc: Uint8Array): IptcDataset[] | null {
+    const datasets: IptcDataset[] = [];
+    let offset = 0;
+
+    while (offset + 5 <= iptc.length) {
+      // Every dataset starts with the 0x1C tag marker; anything else is padding
+      if (iptc[offset] !== 0x1C) break;
+
+      const record = iptc[offset + 1];
+      const dataset = iptc[offset + 2];
+      const length = (iptc[offset + 3] << 8) | iptc[offset + 4];
+
+      // Extended-length datasets are practically never used for text fields
+      if (length & 0x8000) return null;
+
+      const end = offset + 5 + length;
+      if (end > iptc.length) return null;
+
+      datasets.push({ record, dataset, data: iptc.subarray(offset + 5, end) });
+      offset = end;
+    }
+
+    return datasets;
+  }
+
+  /**
+   * Serializes datasets into a raw IPTC-IIM block
+   */
+  private static joinDatasets(datasets: IptcDataset[]): Uint8Array {
+    return this.concat(datasets.flatMap(({ record, dataset, data }) => [
+      new Uint8Array([0x1C, record, dataset, data.length >> 8, data.length & 0xFF]),
+      data
+    ]));
+  }
+
+  /**
+   * Joins byte arrays into one
+   */
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((position, part) => {
+      output.set(part, position);
+      return position + part.length;
+    }, 0);
+    return output;
+  }
+
+  /**
+   * Checks for the "8BIM" resource signature at the given offset
+   */
+  private static matchesSignature(data: Uint8Array, offset: number): boolean {
+    for (let i = 0; i < RESOURCE_SIGNATURE.length; i++) {
+      if (data[offset + i] !== RESOURCE_SIGNATURE.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+}
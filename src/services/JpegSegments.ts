@@ -0,0 +1,300 @@
+/**
+ * Known kinds of JPEG marker segments that carry metadata
+ */
+export type JpegSegmentKind =
+  | 'exif'         // APP1 "Exif\0\0" - TIFF structure with EXIF/GPS/thumbnail IFDs
+  | 'xmp'          // APP1 standard XMP packet
+  | 'xmpExtended'  // APP1 extended XMP chunk
+  | 'icc'          // APP2 ICC colour profile
+  | 'mpf'          // APP2 Multi-Picture Format (embedded preview images)
+  | 'photoshop'    // APP13 Photoshop image resources (contains IPTC)
+  | 'adobe'        // APP14 Adobe colour transform flags
+  | 'jfif'         // APP0 JFIF header
+  | 'comment'      // COM comment
+  | 'other';       // Any other segment (tables, frame headers, unknown APPn)
+
+/**
+ * A single marker segment of a JPEG file
+ */
+export interface JpegSegment {
+  marker: number;       // Second byte of the marker (e.g. 0xE1 for APP1)
+  kind: JpegSegmentKind;
+  data: Uint8Array;     // Segment payload, without the marker and length bytes
+}
+
+/**
+ * A JPEG file split into its header segments and the entropy-coded remainder
+ */
+export interface ParsedJpeg {
+  segments: JpegSegment[];
+  scanData: Uint8Array; // Everything from the first SOS marker to the end of the file
+}
+
+// Identifier prefixes used to tell apart segments that share the same APPn marker
+const EXIF_ID = 'Exif\0\0';
+const XMP_ID = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENDED_ID = 'http://ns.adobe.com/xmp/extension/\0';
+const ICC_ID = 'ICC_PROFILE\0';
+const MPF_ID = 'MPF\0';
+const PHOTOSHOP_ID = 'Photoshop 3.0\0';
+const ADOBE_ID = 'Adobe';
+const JFIF_ID = 'JFIF\0';
+
+// Largest payload a single segment can hold (length field is 16 bits and counts itself)
+export const MAX_SEGMENT_PAYLOAD = 0xFFFF - 2;
+
+/**
+ * Utility class for splitting JPEG files into marker segments and joining them back
+ *
+ * Working at the segment level lets metadata be removed or replaced without
+ * touching the compressed image data, so the picture itself stays bit-identical.
+ */
+export class JpegSegments {
+  /**
+   * Checks whether the given bytes start with a JPEG SOI marker
+   *
+   * @param bytes - File contents
+   * @returns True if the data looks like a JPEG file
+   */
+  public static isJpeg(bytes: Uint8Array): boolean {
+    return bytes.length > 3 && bytes[0] === 0xFF && bytes[1] === 0xD8;
+  }
+
+  /**
+   * Checks whether a byte array starts with the given ASCII identifier
+   *
+   * @param data - Bytes to inspect
+   * @param id - ASCII identifier, may include NUL characters
+   * @param offset - Position in data to start comparing at
+   * @returns True if the identifier matches
+   */
+  public static startsWith(data: Uint8Array, id: string, offset = 0): boolean {
+    if (data.length - offset < id.length) return false;
+    for (let i = 0; i < id.length; i++) {
+      if (data[offset + i] !== id.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Works out what kind of metadata a segment carries from its marker and identifier
+   *
+   * @param marker - Second byte of the segment marker
+   * @param data - Segment payload
+   * @returns The segment kind
+   */
+  public static classify(marker: number, data: Uint8Array): JpegSegmentKind {
+    switch (marker) {
+      case 0xE0:
+        return this.startsWith(data, JFIF_ID) ? 'jfif' : 'other';
+      case 0xE1:
+        if (this.startsWith(data, EXIF_ID)) return 'exif';
+        if (this.startsWith(data, XMP_ID)) return 'xmp';
+        if (this.startsWith(data, XMP_EXTENDED_ID)) return 'xmpExtended';
+        return 'other';
+      case 0xE2:
+        if (this.startsWith(data, ICC_ID)) return 'icc';
+        if (this.startsWith(data, MPF_ID)) return 'mpf';
+        return 'other';
+      case 0xED:
+        return this.startsWith(data, PHOTOSHOP_ID) ? 'photoshop' : 'other';
+      case 0xEE:
+        return this.startsWith(data, ADOBE_ID) ? 'adobe' : 'other';
+      case 0xFE:
+        return 'comment';
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * Splits a JPEG file into its marker segments
+   *
+   * Parsing stops at the first Start Of Scan marker; the scan and anything
+   * after it is kept verbatim so the compressed image data is never altered.
+   *
+   * @param bytes - JPEG file contents
+   * @returns The header segments and the untouched scan data
+   * @throws Error if the data is not a well-formed JPEG
+   */
+  public static parse(bytes: Uint8Array): ParsedJpeg {
+    if (!this.isJpeg(bytes)) {
+      throw new Error('Not a JPEG file');
+    }
+
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+
+    while (offset < bytes.length) {
+      if (bytes[offset] !== 0xFF) {
+        throw new Error(`Invalid JPEG marker at offset ${offset}`);
+      }
+
+      // Markers may be preceded by any number of 0xFF fill bytes
+      while (bytes[offset] === 0xFF && offset < bytes.length) offset++;
+      const marker = bytes[offset];
+      offset++;
+
+      // Start Of Scan: everything from here on is image data
+      if (marker === 0xDA) {
+        return { segments, scanData: bytes.subarray(offset - 2) };
+      }
+
+      // End Of Image without any scan (e.g. a metadata-only file)
+      if (marker === 0xD9) {
+        return { segments, scanData: bytes.subarray(offset - 2) };
+      }
+
+      // Standalone markers carry no length field
+      if ((marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) {
+        continue;
+      }
+
+      if (offset + 2 > bytes.length) {
+        throw new Error('Truncated JPEG segment header');
+      }
+      const length = (bytes[offset] << 8) | bytes[offset + 1];
+      if (length < 2 || offset + length > bytes.length) {
+        throw new Error(`Invalid JPEG segment length at offset ${offset}`);
+      }
+
+      const data = bytes.subarray(offset + 2, offset + length);
+      segments.push({ marker, kind: this.classify(marker, data), data });
+      offset += length;
+    }
+
+    return { segments, scanData: new Uint8Array(0) };
+  }
+
+  /**
+   * Creates a segment for the given marker, classifying its payload
+   *
+   * @param marker - Second byte of the segment marker
+   * @param data - Segment payload
+   * @returns The new segment
+   * @throws Error if the payload does not fit in a single segment
+   */
+  public static createSegment(marker: number, data: Uint8Array): JpegSegment {
+    if (data.length > MAX_SEGMENT_PAYLOAD) {
+      throw new Error(`Segment payload of ${data.length} bytes exceeds the JPEG limit of ${MAX_SEGMENT_PAYLOAD} bytes`);
+    }
+    return { marker, kind: this.classify(marker, data), data };
+  }
+
+  /**
+   * Joins segments and scan data back into a complete JPEG file
+   *
+   * @param parsed - Segments and scan data to serialize
+   * @returns The JPEG file contents
+   */
+  public static serialize({ segments, scanData }: ParsedJpeg): Uint8Array {
+    const total = 2 + segments.reduce((sum, segment) => sum + 4 + segment.data.length, 0) + scanData.length;
+    const output = new Uint8Array(total);
+
+    output[0] = 0xFF;
+    output[1] = 0xD8;
+    let offset = 2;
+
+    segments.forEach(({ marker, data }) => {
+      const length = data.length + 2;
+      output[offset] = 0xFF;
+      output[offset + 1] = marker;
+      output[offset + 2] = length >> 8;
+      output[offset + 3] = length & 0xFF;
+      output.set(data, offset + 4);
+      offset += 4 + data.length;
+    });
+
+    output.set(scanData, offset);
+    return output;
+  }
+
+  /**
+   * Finds the end of the primary image inside the scan data
+   *
+   * Inside entropy-coded data every 0xFF byte is followed by 0x00 or a restart
+   * marker, so the first EOI marker ends the image. Anything after it is a
+   * trailer, such as the extra images referenced by an MPF segment.
+   *
+   * @param scanData - Scan data as returned by parse()
+   * @returns Length of the scan data up to and including EOI, or its full length if no EOI exists
+   */
+  public static findEndOfImage(scanData: Uint8Array): number {
+    for (let i = 0; i < scanData.length - 1; i++) {
+      if (scanData[i] === 0xFF && scanData[i + 1] === 0xD9) {
+        return i + 2;
+      }
+    }
+    return scanData.length;
+  }
+
+  /**
+   * Returns the TIFF structure inside an Exif APP1 segment
+   *
+   * @param segment - An 'exif' segment
+   * @returns The TIFF bytes following the "Exif\0\0" identifier
+   */
+  public static getTiffData(segment: JpegSegment): Uint8Array {
+    return segment.data.subarray(EXIF_ID.length);
+  }
+
+  /**
+   * Builds an Exif APP1 segment from TIFF bytes
+   *
+   * @param tiff - TIFF structure to wrap
+   * @returns A new 'exif' segment
+   */
+  public static createExifSegment(tiff: Uint8Array): JpegSegment {
+    const data = new Uint8Array(EXIF_ID.length + tiff.length);
+    for (let i = 0; i < EXIF_ID.length; i++) data[i] = EXIF_ID.charCodeAt(i);
+    data.set(tiff, EXIF_ID.length);
+    return this.createSegment(0xE1, data);
+  }
+
+  /**
+   * Returns the XMP packet text from a standard XMP APP1 segment
+   *
+   * @param segment - An 'xmp' segment
+   * @returns The XML packet as a string
+   */
+  public static getXmpPacket(segment: JpegSegment): string {
+    return new TextDecoder('utf-8').decode(segment.data.subarray(XMP_ID.length));
+  }
+
+  /**
+   * Builds a standard XMP APP1 segment from packet text
+   *
+   * @param packet - XML packet
+   * @returns A new 'xmp' segment
+   */
+  public static createXmpSegment(packet: string): JpegSegment {
+    const body = new TextEncoder().encode(packet);
+    const data = new Uint8Array(XMP_ID.length + body.length);
+    for (let i = 0; i < XMP_ID.length; i++) data[i] = XMP_ID.charCodeAt(i);
+    data.set(body, XMP_ID.length);
+    return this.createSegment(0xE1, data);
+  }
+
+  /**
+   * Returns the Photoshop image resource block from an APP13 segment
+   *
+   * @param segment - A 'photoshop' segment
+   * @returns Resource bytes following the "Photoshop 3.0\0" identifier
+   */
+  public static getPhotoshopResources(segment: JpegSegment): Uint8Array {
+    return segment.data.subarray(PHOTOSHOP_ID.length);
+  }
+
+  /**
+   * Builds an APP13 segment from Photoshop image resource bytes
+   *
+   * @param resources - Image resource block
+   * @returns A new 'photoshop' segment
+   */
+  public static createPhotoshopSegment(resources: Uint8Array): JpegSegment {
+    const data = new Uint8Array(PHOTOSHOP_ID.length + resources.length);
+    for (let i = 0; i < PHOTOSHOP_ID.length; i++) data[i] = PHOTOSHOP_ID.charCodeAt(i);
+    data.set(resources, PHOTOSHOP_ID.length);
+    return this.createSegment(0xED, data);
+  }
+}
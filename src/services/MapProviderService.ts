@@ -0,0 +1,394 @@
+import { LocationCoordinates } from './MetadataModel';
+
+/**
+ * Available map providers
+ */
+export type MapProviderId =
+  | 'offline'  // Bundled world outline; nothing leaves the browser
+  | 'osm'      // OpenStreetMap embed
+  | 'tiles'    // User-configured (e.g. self-hosted) raster tile server
+  | 'google';  // Google Maps embed
+
+/**
+ * Description of a map provider for the settings menu
+ */
+export interface MapProvider {
+  label: string;
+  description: string;
+  sendsLocation: boolean;  // Whether showing the map sends the coordinates to a server
+}
+
+/**
+ * Map settings persisted in the browser
+ */
+export interface MapSettings {
+  provider: MapProviderId;
+  tileUrl: string;  // Tile URL template with {z}, {x} and {y}, for the "tiles" provider
+  linkUrl: string;  // Optional deep-link template with {lat}, {lon} and {z}, for the "tiles" provider
+}
+
+/**
+ * A position on the map
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A raster tile placed relative to the map center
+ */
+export interface MapTile {
+  key: string;
+  url: string;
+  left: number;  // Pixel offset of the tile's left edge from the point shown
+  top: number;   // Pixel offset of the tile's top edge from the point shown
+}
+
+/**
+ * Radius of the area the true position lies in
+ */
+export interface AccuracyRadius {
+  metres: number;
+  estimated: boolean;  // True when derived from the dilution of precision
+}
+
+/**
+ * Map providers in menu order
+ */
+export const MAP_PROVIDERS: Record<MapProviderId, MapProvider> = {
+  offline: {
+    label: 'Offline outline',
+    description: 'Country outlines bundled with the app. The location never leaves your browser.',
+    sendsLocation: false
+  },
+  osm: {
+    label: 'OpenStreetMap',
+    description: 'Loading the map sends the coordinates to openstreetmap.org.',
+    sendsLocation: true
+  },
+  tiles: {
+    label: 'Custom tile server',
+    description: 'Tiles around the location are loaded from the server you configure, e.g. a self-hosted one.',
+    sendsLocation: true
+  },
+  google: {
+    label: 'Google Maps',
+    description: 'Loading the map sends the coordinates to Google.',
+    sendsLocation: true
+  }
+};
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = { provider: 'offline', tileUrl: '', linkUrl: '' };
+
+// Zoom level used for embeds and links
+export const DEFAULT_MAP_ZOOM = 15;
+
+// Edge length of raster tiles in pixels
+export const TILE_SIZE = 256;
+
+// Typical GPS range error in metres, used to estimate accuracy from DOP alone
+const GPS_RANGE_ERROR = 5;
+
+// Half of the opening angle of the direction-of-view cone, about a normal lens
+const CONE_HALF_ANGLE = 30;
+
+// Length of one degree of latitude in metres
+const METRES_PER_DEGREE = 111320;
+
+const STORAGE_KEY = 'exif-parser.map-settings';
+
+/**
+ * Service class for map providers and the user's map settings
+ *
+ * Builds embed, tile and link URLs for the chosen provider so that no
+ * component hardcodes a third-party map service.
+ */
+export class MapProviderService {
+  /**
+   * Reads the persisted map settings
+   *
+   * @returns Stored settings, or the defaults when none are stored or they are invalid
+   */
+  public static loadSettings(): MapSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<MapSettings> | null;
+      if (!stored || typeof stored !== 'object') return DEFAULT_MAP_SETTINGS;
+
+      return {
+        provider: stored.provider && stored.provider in MAP_PROVIDERS ? stored.provider : DEFAULT_MAP_SETTINGS.provider,
+        tileUrl: typeof stored.tileUrl === 'string' ? stored.tileUrl : '',
+        linkUrl: typeof stored.linkUrl === 'string' ? stored.linkUrl : ''
+      };
+    } catch {
+      // Storage may be unavailable (privacy mode) or hold malformed data
+      return DEFAULT_MAP_SETTINGS;
+    }
+  }
+
+  /**
+   * Persists the map settings
+   *
+   * @param settings - Settings to store
+   */
+  public static saveSettings(settings: MapSettings): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Settings then only last for this session
+    }
+  }
+
+  /**
+   * Checks a tile URL template
+   *
+   * @param template - Template such as "https://tiles.example.com/{z}/{x}/{y}.png"
+   * @returns Error message, or null if the template is usable
+   */
+  public static validateTileUrl(template: string): string | null {
+    if (!template.trim()) return 'Enter the URL of your tile server';
+    if (!/^https?:\/\//i.test(template)) return 'The URL must start with http:// or https://';
+    if (!['{z}', '{x}', '{y}'].every((placeholder) => template.includes(placeholder))) {
+      return 'The URL must contain {z}, {x} and {y}';
+    }
+    return null;
+  }
+
+  /**
+   * Checks a deep-link URL template
+   *
+   * @param template - Template such as "https://maps.example.com/#map={z}/{lat}/{lon}", or empty for none
+   * @returns Error message, or null if the template is empty or usable
+   */
+  public static validateLinkUrl(template: string): string | null {
+    if (template.trim() && !/^https?:\/\//i.test(template.trim())) return 'The URL must start with http:// or https://';
+    return null;
+  }
+
+  /**
+   * Builds the URL of an embeddable map page
+   *
+   * @param coordinates - Location to show
+   * @param settings - Map settings
+   * @returns Embed URL, or null for providers that are rendered by the app itself
+   */
+  public static getEmbedUrl({ latitude, longitude }: LocationCoordinates, settings: MapSettings): string | null {
+    switch (settings.provider) {
+      case 'osm': {
+        // The embed takes a bounding box rather than a zoom level
+        const span = 360 / 2 ** DEFAULT_MAP_ZOOM;
+        const bbox = [longitude - span, latitude - span / 2, longitude + span, latitude + span / 2].join(',');
+        return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`;
+      }
+      case 'google':
+        return `https://www.google.com/maps?q=${latitude},${longitude}&z=${DEFAULT_MAP_ZOOM}&output=embed`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Builds the deep link that opens the location in the chosen provider
+   *
+   * The offline provider, and a tile server without a link template, use a
+   * geo: URI so the device's own map app opens instead of a website.
+   *
+   * @param coordinates - Location to link to
+   * @param settings - Map settings
+   * @returns Link URL
+   */
+  public static getLinkUrl({ latitude, longitude }: LocationCoordinates, settings: MapSettings): string {
+    switch (settings.provider) {
+      case 'osm':
+        return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=${DEFAULT_MAP_ZOOM}/${latitude}/${longitude}`;
+      case 'google':
+        return `https://maps.google.com/?q=${latitude},${longitude}`;
+      case 'tiles':
+        if (settings.linkUrl.trim() && !this.validateLinkUrl(settings.linkUrl)) {
+          return this.fillTemplate(settings.linkUrl.trim(), {
+            lat: String(latitude),
+            lon: String(longitude),
+            z: String(DEFAULT_MAP_ZOOM)
+          });
+        }
+        return `geo:${latitude},${longitude}`;
+      default:
+        return `geo:${latitude},${longitude}`;
+    }
+  }
+
+  /**
+   * Lists the raster tiles needed to cover an area around a location
+   *
+   * Uses the Web Mercator tiling scheme shared by OpenStreetMap-style tile
+   * servers. Tile positions are relative to the location, which is meant to
+   * be drawn at the center of the map.
+   *
+   * @param coordinates - Location at the center of the map
+   * @param zoom - Zoom level
+   * @param template - Tile URL template
+   * @param radius - Number of tiles to load on each side of the center tile
+   * @returns Tiles to draw
+   */
+  public static getTiles(
+    { latitude, longitude }: LocationCoordinates,
+    zoom: number,
+    template: string,
+    radius: { x: number; y: number }
+  ): MapTile[] {
+    const count = 2 ** zoom;
+    const { x, y } = this.toTileUnits({ latitude, longitude }, zoom);
+
+    const tiles: MapTile[] = [];
+    for (let dy = -radius.y; dy <= radius.y; dy++) {
+      for (let dx = -radius.x; dx <= radius.x; dx++) {
+        const tileX = Math.floor(x) + dx;
+        const tileY = Math.floor(y) + dy;
+        if (tileY < 0 || tileY >= count) continue;
+
+        // Wrap around the antimeridian
+        const wrappedX = ((tileX % count) + count) % count;
+        tiles.push({
+          key: `${zoom}/${tileX}/${tileY}`,
+          url: this.fillTemplate(template, { z: String(zoom), x: String(wrappedX), y: String(tileY) }),
+          left: (tileX - x) * TILE_SIZE,
+          top: (tileY - y) * TILE_SIZE
+        });
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Determines the accuracy radius of a GPS fix
+   *
+   * Uses the recorded horizontal positioning error, or estimates it from the
+   * dilution of precision times a typical range error.
+   *
+   * @param coordinates - Location with its GPS details
+   * @returns Radius, or null when the fix has no accuracy information
+   */
+  public static getAccuracyRadius({ horizontalError, dop }: LocationCoordinates): AccuracyRadius | null {
+    if (horizontalError !== undefined && horizontalError > 0) return { metres: horizontalError, estimated: false };
+    if (dop !== undefined && dop > 0) return { metres: dop * GPS_RANGE_ERROR, estimated: true };
+    return null;
+  }
+
+  /**
+   * Lists the GPS details recorded next to a position
+   *
+   * @param coordinates - Location with its GPS details
+   * @returns Label and display value of every detail present
+   */
+  public static getFixDetails(coordinates: LocationCoordinates): Array<[string, string]> {
+    const { altitude, imgDirection, imgDirectionRef, speed, timestamp, dop, datum } = coordinates;
+    const accuracy = this.getAccuracyRadius(coordinates);
+    const details: Array<[string, string | null]> = [
+      ['Altitude', altitude === undefined ? null : `${altitude.toFixed(1)} m ${altitude < 0 ? 'below' : 'above'} sea level`],
+      ['Direction', imgDirection === undefined ? null : `${imgDirection.toFixed(1)}°${imgDirectionRef ? ` (${imgDirectionRef} north)` : ''}`],
+      ['Speed', speed ? `${speed.value} ${speed.unit}` : null],
+      ['GPS time', timestamp ? timestamp.replace('T', ' ').replace('Z', ' UTC') : null],
+      ['Accuracy', accuracy ? `${accuracy.estimated ? '≈ ' : ''}±${accuracy.metres.toFixed(1)} m${dop !== undefined ? ` (DOP ${dop})` : ''}` : null],
+      ['Datum', datum ?? null]
+    ];
+    return details.filter((detail): detail is [string, string] => detail[1] !== null);
+  }
+
+  /**
+   * Size of a pixel on the ground in a Web Mercator tile map
+   *
+   * @param latitude - Latitude of the location
+   * @param zoom - Zoom level
+   * @returns Metres per pixel
+   */
+  public static getMetresPerPixel(latitude: number, zoom: number): number {
+    return (METRES_PER_DEGREE * 360 * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+  }
+
+  /**
+   * Converts a distance on the ground to degrees of latitude and longitude
+   *
+   * @param latitude - Latitude of the location
+   * @param metres - Distance
+   * @returns Distance in degrees along a meridian (y) and a parallel (x)
+   */
+  public static metresToDegrees(latitude: number, metres: number): { x: number; y: number } {
+    const y = metres / METRES_PER_DEGREE;
+    return { x: y / Math.max(Math.cos((latitude * Math.PI) / 180), 0.01), y };
+  }
+
+  /**
+   * Builds the SVG path of a direction-of-view cone
+   *
+   * @param x - Horizontal position of the camera in SVG units
+   * @param y - Vertical position of the camera in SVG units (growing southwards)
+   * @param direction - Degrees clockwise from north
+   * @param length - Length of the cone in SVG units
+   * @returns Path data of a circular sector
+   */
+  public static getDirectionConePath(x: number, y: number, direction: number, length: number): string {
+    const point = (angle: number) => {
+      const radians = (angle * Math.PI) / 180;
+      return `${x + Math.sin(radians) * length},${y - Math.cos(radians) * length}`;
+    };
+    return `M${x},${y}L${point(direction - CONE_HALF_ANGLE)}A${length},${length} 0 0 1 ${point(direction + CONE_HALF_ANGLE)}Z`;
+  }
+
+  /**
+   * Finds where a point lies on a tile map relative to its center
+   *
+   * @param center - Position shown at the center of the map
+   * @param point - Position to place
+   * @param zoom - Zoom level
+   * @returns Pixel offset from the center, growing right and down
+   */
+  public static getPixelOffset(center: GeoPoint, point: GeoPoint, zoom: number): { x: number; y: number } {
+    const from = this.toTileUnits(center, zoom);
+    const to = this.toTileUnits(point, zoom);
+    return { x: (to.x - from.x) * TILE_SIZE, y: (to.y - from.y) * TILE_SIZE };
+  }
+
+  /**
+   * Finds the position under a pixel of a tile map
+   *
+   * @param center - Position shown at the center of the map
+   * @param offset - Pixel offset from the center, growing right and down
+   * @param zoom - Zoom level
+   * @returns Position under the pixel, with the longitude wrapped to ±180°
+   */
+  public static getPointAtOffset(center: GeoPoint, offset: { x: number; y: number }, zoom: number): GeoPoint {
+    const count = 2 ** zoom;
+    const { x, y } = this.toTileUnits(center, zoom);
+    const longitude = ((x + offset.x / TILE_SIZE) / count) * 360 - 180;
+    const mercator = Math.PI * (1 - (2 * (y + offset.y / TILE_SIZE)) / count);
+    return {
+      latitude: (Math.atan(Math.sinh(mercator)) * 180) / Math.PI,
+      longitude: ((((longitude + 180) % 360) + 360) % 360) - 180
+    };
+  }
+
+  /**
+   * Projects a position to Web Mercator tile units at a zoom level
+   */
+  private static toTileUnits({ latitude, longitude }: GeoPoint, zoom: number): { x: number; y: number } {
+    const count = 2 ** zoom;
+    const latRad = (Math.max(-85.0511, Math.min(85.0511, latitude)) * Math.PI) / 180;
+    return {
+      x: ((longitude + 180) / 360) * count,
+      y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * count
+    };
+  }
+
+  /**
+   * Replaces {name} placeholders in a URL template
+   *
+   * @param template - URL template
+   * @param values - Placeholder values
+   * @returns URL with the placeholders filled in
+   */
+  private static fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(values, name) ? encodeURIComponent(values[name]) : match
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { CleanedData, CleanedValue } from './MetadataModel';
+import { TagRegistry, MetadataCategory } from './TagRegistry';
+
+/**
+ * How a field differs between two images
+ */
+export type DiffStatus = 'onlyA' | 'onlyB' | 'changed' | 'same';
+
+/**
+ * A single field compared across two images
+ */
+export interface DiffEntry {
+  key: string;
+  category: MetadataCategory;
+  status: DiffStatus;
+  valueA?: CleanedValue;  // Value in image A, undefined if the field is missing
+  valueB?: CleanedValue;  // Value in image B, undefined if the field is missing
+}
+
+/**
+ * Result of comparing the cleaned metadata of two images
+ */
+export interface MetadataDiff {
+  entries: DiffEntry[];                 // Every field present in either image, sorted by key
+  counts: Record<DiffStatus, number>;   // Number of entries per status
+}
+
+/**
+ * Service class for comparing the metadata of two images field by field
+ */
+export class MetadataDiffService {
+  /**
+   * Compares two sets of cleaned metadata
+   *
+   * @param a - Cleaned metadata of the first image
+   * @param b - Cleaned metadata of the second image
+   * @returns Per-field comparison with counts per status
+   */
+  public static diff(a: CleanedData, b: CleanedData): MetadataDiff {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort((x, y) => x.localeCompare(y));
+    const counts: Record<DiffStatus, number> = { onlyA: 0, onlyB: 0, changed: 0, same: 0 };
+
+    const entries = keys.map((key): DiffEntry => {
+      const fieldA = Object.prototype.hasOwnProperty.call(a, key) ? a[key] : undefined;
+      const fieldB = Object.prototype.hasOwnProperty.call(b, key) ? b[key] : undefined;
+      let status: DiffStatus;
+
+      if (fieldA && !fieldB) {
+        status = 'onlyA';
+      } else if (!fieldA && fieldB) {
+        status = 'onlyB';
+      } else {
+        status = this.normalize(fieldA?.value) === this.normalize(fieldB?.value) ? 'same' : 'changed';
+      }
+
+      counts[status]++;
+      return {
+        key,
+        // Categorize by tag name so a group prefix in the key does not affect the category
+        category: TagRegistry.getCategoryForField((fieldA ?? fieldB)!.name, (fieldA ?? fieldB)!.group),
+        status,
+        valueA: fieldA?.value,
+        valueB: fieldB?.value
+      };
+    });
+
+    return { entries, counts };
+  }
+
+  /**
+   * Turns a value into a canonical string so structurally equal values compare equal
+   *
+   * Object keys are sorted so key order differences are not reported as changes.
+   *
+   * @param value - Value to normalize
+   * @returns Canonical string representation
+   */
+  private static normalize(value: unknown): string {
+    return JSON.stringify(value, (_key, nested) => {
+      if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+        return Object.keys(nested).sort().reduce((sorted, key) => {
+          sorted[key] = (nested as Record<string, unknown>)[key];
+          return sorted;
+        }, {} as Record<string, unknown>);
+      }
+      return nested;
+    });
+  }
+}
@@ -0,0 +1,463 @@
+import { JpegSegment, JpegSegments } from './JpegSegments';
+import { TiffEditor, IfdName } from './TiffEditor';
+import { IptcEditor } from './IptcEditor';
+import { XmpEditor, XmpPropertyValue, XMP_NAMESPACES } from './XmpEditor';
+import { MetadataModel, MetadataGroup } from './MetadataModel';
+import { GeoPoint } from './MapProviderService';
+
+/**
+ * Fields that can be edited and written back into an image
+ */
+export type EditableFieldId = 'artist' | 'copyright' | 'description' | 'dateTimeOriginal' | 'keywords' | 'position';
+
+/**
+ * Value syntax of an editable field, which decides how it is validated
+ */
+export type EditValueType =
+  | 'ascii'     // EXIF ASCII text
+  | 'date'      // EXIF date "YYYY:MM:DD HH:MM:SS" with an optional "+HH:MM" offset
+  | 'list'      // Comma-separated list
+  | 'position'; // Decimal "latitude, longitude", stored as EXIF rationals
+
+/**
+ * Description of an editable field for the editor UI
+ */
+export interface EditableField {
+  label: string;
+  type: EditValueType;
+  placeholder: string;
+  targets: string;  // Tags the value is written to
+}
+
+/**
+ * Values entered in the editor, keyed by field; an empty string removes the field
+ */
+export type MetadataEdits = Partial<Record<EditableFieldId, string>>;
+
+/**
+ * An edited field compared with the value in the image
+ */
+export interface PendingChange {
+  id: EditableFieldId;
+  label: string;
+  original: string;       // Value read from the image, in the field's syntax
+  value: string;          // Value that will be written
+  error: string | null;   // Validation message, or null if the value can be written
+}
+
+/**
+ * Editable fields in editor order
+ */
+export const EDITABLE_FIELDS: Record<EditableFieldId, EditableField> = {
+  artist: { label: 'Artist', type: 'ascii', placeholder: 'Jane Doe', targets: 'EXIF Artist, XMP dc:creator, IPTC By-line' },
+  copyright: { label: 'Copyright', type: 'ascii', placeholder: 'Copyright 2024 Jane Doe', targets: 'EXIF Copyright, XMP dc:rights, IPTC Copyright Notice' },
+  description: { label: 'Description', type: 'ascii', placeholder: 'What the picture shows', targets: 'EXIF ImageDescription, XMP dc:description, IPTC Caption' },
+  dateTimeOriginal: { label: 'Date Taken', type: 'date', placeholder: '2024:06:01 14:30:00 +02:00', targets: 'EXIF DateTimeOriginal and OffsetTimeOriginal, XMP, IPTC Date/Time Created' },
+  keywords: { label: 'Keywords', type: 'list', placeholder: 'beach, sunset, family', targets: 'XMP dc:subject, IPTC Keywords' },
+  position: { label: 'GPS Position', type: 'position', placeholder: '48.858333, 2.294444', targets: 'EXIF GPS latitude and longitude, XMP exif:GPS' }
+};
+
+/**
+ * Where each plain text field is read from and written to
+ */
+const TEXT_FIELDS: Record<'artist' | 'copyright' | 'description', {
+  sources: Array<[MetadataGroup, string]>;
+  exif: [IfdName, number];
+  xmp: Omit<XmpPropertyValue, 'value'>;
+  iptc: number;
+}> = {
+  artist: {
+    sources: [['exif', 'Artist'], ['xmp', 'creator'], ['iptc', 'By-line']],
+    exif: ['ifd0', 0x013B],
+    xmp: { namespace: XMP_NAMESPACES.dc, prefix: 'dc', name: 'creator', container: 'Seq' },
+    iptc: 80
+  },
+  copyright: {
+    sources: [['exif', 'Copyright'], ['xmp', 'rights'], ['iptc', 'Copyright Notice']],
+    exif: ['ifd0', 0x8298],
+    xmp: { namespace: XMP_NAMESPACES.dc, prefix: 'dc', name: 'rights', container: 'Alt' },
+    iptc: 116
+  },
+  description: {
+    sources: [['exif', 'ImageDescription'], ['xmp', 'description'], ['iptc', 'Caption/Abstract']],
+    exif: ['ifd0', 0x010E],
+    xmp: { namespace: XMP_NAMESPACES.dc, prefix: 'dc', name: 'description', container: 'Alt' },
+    iptc: 120
+  }
+};
+
+// EXIF tags of the capture date in the EXIF IFD
+const DATE_TIME_ORIGINAL = 0x9003;
+const OFFSET_TIME_ORIGINAL = 0x9011;
+const SUB_SEC_TIME_ORIGINAL = 0x9291;
+
+// GPS IFD tags written for a position
+const GPS_VERSION_ID = 0x0000;
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+
+// IPTC application record datasets that are not plain text fields
+const IPTC_KEYWORDS = 25;
+const IPTC_DATE_CREATED = 55;
+const IPTC_TIME_CREATED = 60;
+
+// IPTC limits keywords to 64 bytes each
+const MAX_KEYWORD_BYTES = 64;
+
+// Seconds of arc are stored with this denominator, about 3 mm of precision
+const SECONDS_DENOMINATOR = 10000;
+
+const DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})(?: ?([+-])(\d{2}):(\d{2}))?$/;
+const POSITION_PATTERN = /^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Service class for editing common metadata fields and writing them back into images
+ *
+ * Like sanitizing, writing works on the JPEG marker segments, so the image
+ * data is copied byte for byte. Each field is written to EXIF and XMP; IPTC
+ * is updated when the image already has an IPTC block, so the three stay in
+ * agreement without adding a legacy block to images that never had one.
+ */
+export class MetadataEditService {
+  /**
+   * Reads the current value of every editable field from parsed metadata
+   *
+   * @param metadata - Parsed metadata of the image
+   * @returns Values in the syntax the editor uses, empty when a field is not set
+   */
+  public static getOriginalValues(metadata: MetadataModel): Record<EditableFieldId, string> {
+    const captureTime = metadata.captureTime;
+    const location = metadata.location;
+
+    return {
+      artist: metadata.getText(...TEXT_FIELDS.artist.sources) ?? '',
+      copyright: metadata.getText(...TEXT_FIELDS.copyright.sources) ?? '',
+      description: metadata.getText(...TEXT_FIELDS.description.sources) ?? '',
+      dateTimeOriginal: captureTime
+        ? `${captureTime.local.slice(0, 10).replace(/-/g, ':')} ${captureTime.local.slice(11, 19)}` +
+          (captureTime.offsetSource === 'recorded' ? ` ${captureTime.offset}` : '')
+        : '',
+      keywords: metadata.getText(['iptc', 'Keywords'], ['xmp', 'subject']) ?? '',
+      position: location ? this.formatPosition(location) : ''
+    };
+  }
+
+  /**
+   * Lists the edits that differ from the values in the image
+   *
+   * @param metadata - Parsed metadata of the image
+   * @param edits - Values entered in the editor
+   * @returns Changed fields in editor order, with validation messages
+   */
+  public static getPendingChanges(metadata: MetadataModel, edits: MetadataEdits): PendingChange[] {
+    const originals = this.getOriginalValues(metadata);
+
+    return (Object.keys(EDITABLE_FIELDS) as EditableFieldId[])
+      .filter((id) => edits[id] !== undefined && edits[id]!.trim() !== originals[id])
+      .map((id) => ({
+        id,
+        label: EDITABLE_FIELDS[id].label,
+        original: originals[id],
+        value: edits[id]!.trim(),
+        error: this.validate(id, edits[id]!)
+      }));
+  }
+
+  /**
+   * Checks a value against the syntax of its field
+   *
+   * @param id - Field the value is for
+   * @param value - Entered value; an empty value is always valid and removes the field
+   * @returns A message describing the problem, or null if the value is valid
+   */
+  public static validate(id: EditableFieldId, value: string): string | null {
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+
+    switch (EDITABLE_FIELDS[id].type) {
+      case 'ascii':
+        return /^[\x20-\x7E]*$/.test(trimmed) ? null : 'EXIF text fields can only hold plain ASCII characters';
+
+      case 'date': {
+        const match = DATE_PATTERN.exec(trimmed);
+        if (!match) return 'Use the EXIF date format YYYY:MM:DD HH:MM:SS, optionally followed by an offset such as +02:00';
+
+        const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+        const date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+          return 'The date does not exist';
+        }
+        if (hours > 23 || minutes > 59 || seconds > 59) return 'The time does not exist';
+
+        // UTC offsets in use range from -12:00 to +14:00
+        if (match[7]) {
+          const offset = (Number(match[8]) * 60 + Number(match[9])) * (match[7] === '-' ? -1 : 1);
+          if (Number(match[9]) > 59 || offset < -12 * 60 || offset > 14 * 60) return 'The UTC offset must be between -12:00 and +14:00';
+        }
+        return null;
+      }
+
+      case 'list': {
+        const encoder = new TextEncoder();
+        const tooLong = this.splitList(trimmed).find((item) => encoder.encode(item).length > MAX_KEYWORD_BYTES);
+        return tooLong ? `"${tooLong}" is longer than the ${MAX_KEYWORD_BYTES} bytes IPTC allows per keyword` : null;
+      }
+
+      case 'position': {
+        const point = this.parsePosition(trimmed);
+        if (!point) return 'Enter latitude and longitude in decimal degrees, e.g. 48.858333, 2.294444';
+        if (Math.abs(point.latitude) > 90) return 'Latitude must be between -90 and 90';
+        if (Math.abs(point.longitude) > 180) return 'Longitude must be between -180 and 180';
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Reads a "latitude, longitude" value
+   *
+   * @param value - Decimal degrees separated by a comma, semicolon or space
+   * @returns The position, or null if the value is not two numbers
+   */
+  public static parsePosition(value: string): GeoPoint | null {
+    const match = POSITION_PATTERN.exec(value.trim());
+    return match ? { latitude: Number(match[1]), longitude: Number(match[2]) } : null;
+  }
+
+  /**
+   * Formats a position as a "latitude, longitude" value
+   *
+   * @param point - Position to format
+   * @returns Decimal degrees rounded to six places (about 10 cm)
+   */
+  public static formatPosition({ latitude, longitude }: GeoPoint): string {
+    return `${Number(latitude.toFixed(6))}, ${Number(longitude.toFixed(6))}`;
+  }
+
+  /**
+   * Creates a copy of an image file with the edits written into its metadata
+   *
+   * @param file - Image file to edit
+   * @param edits - Values to write; unchanged fields may be included
+   * @returns Promise resolving to the edited image
+   * @throws Error if the file is not a JPEG or a value is invalid
+   */
+  public static async applyEdits(file: Blob, edits: MetadataEdits): Promise<Blob> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return new Blob([this.applyEditsToBytes(bytes, edits)], { type: 'image/jpeg' });
+  }
+
+  /**
+   * Writes edits into the metadata segments of JPEG file contents
+   *
+   * @param bytes - JPEG file contents
+   * @param edits - Values to write
+   * @returns The edited file contents
+   * @throws Error if the data is not a JPEG or a value is invalid
+   */
+  public static applyEditsToBytes(bytes: Uint8Array, edits: MetadataEdits): Uint8Array {
+    if (!JpegSegments.isJpeg(bytes)) {
+      throw new Error('Writing metadata is currently only supported for JPEG images');
+    }
+
+    const values = new Map<EditableFieldId, string>();
+    (Object.keys(edits) as EditableFieldId[]).forEach((id) => {
+      const value = edits[id];
+      if (value === undefined) return;
+      const error = this.validate(id, value);
+      if (error) throw new Error(`${EDITABLE_FIELDS[id].label}: ${error}`);
+      values.set(id, value.trim());
+    });
+
+    const parsed = JpegSegments.parse(bytes);
+    const segments = [...parsed.segments];
+
+    // EXIF and XMP come right after the JFIF header when they have to be added
+    const insertAt = (kind: JpegSegment['kind'], segment: JpegSegment, after: number) => {
+      const index = segments.findIndex((item) => item.kind === kind);
+      if (index >= 0) {
+        segments[index] = segment;
+        return index;
+      }
+      segments.splice(after + 1, 0, segment);
+      return after + 1;
+    };
+
+    // A segment is only added when there is a value to put in it, not just removals
+    const exifValues = [...values].filter(([id]) => id !== 'keywords');
+    let position = segments[0]?.kind === 'jfif' ? 0 : -1;
+
+    const exif = segments.find((segment) => segment.kind === 'exif');
+    if (exifValues.length > 0 && (exif || exifValues.some(([, value]) => value !== ''))) {
+      const editor = exif ? new TiffEditor(JpegSegments.getTiffData(exif)) : TiffEditor.create();
+      this.writeExif(editor, values);
+      position = insertAt('exif', JpegSegments.createExifSegment(editor.toBytes()), position);
+    }
+
+    const xmp = segments.find((segment) => segment.kind === 'xmp');
+    if (values.size > 0 && (xmp || [...values.values()].some((value) => value !== ''))) {
+      const packet = xmp ? JpegSegments.getXmpPacket(xmp) : XmpEditor.createPacket();
+      insertAt('xmp', JpegSegments.createXmpSegment(XmpEditor.setProperties(packet, this.getXmpProperties(values))), position);
+    }
+
+    const datasets = this.getIptcDatasets(values);
+    const edited = segments.map((segment) =>
+      segment.kind === 'photoshop' && datasets.size > 0
+        ? JpegSegments.createPhotoshopSegment(IptcEditor.setDatasets(JpegSegments.getPhotoshopResources(segment), 2, datasets))
+        : segment
+    );
+
+    return JpegSegments.serialize({ segments: edited, scanData: parsed.scanData });
+  }
+
+  /**
+   * Writes the edited fields into the EXIF TIFF structure
+   *
+   * @param editor - Editor of the existing or a new TIFF structure
+   * @param values - Validated values by field
+   */
+  private static writeExif(editor: TiffEditor, values: Map<EditableFieldId, string>): void {
+    (Object.keys(TEXT_FIELDS) as Array<keyof typeof TEXT_FIELDS>).forEach((id) => {
+      const value = values.get(id);
+      if (value === undefined) return;
+      const [ifd, tag] = TEXT_FIELDS[id].exif;
+      if (value === '') {
+        editor.removeTag(ifd, tag);
+      } else {
+        editor.setTag(ifd, tag, 2, value.length + 1, editor.encodeAscii(value));
+      }
+    });
+
+    const date = values.get('dateTimeOriginal');
+    if (date !== undefined) {
+      // The old fraction of a second belongs to the old time
+      editor.removeTag('exif', SUB_SEC_TIME_ORIGINAL);
+      const match = DATE_PATTERN.exec(date);
+      if (!match) {
+        editor.removeTag('exif', DATE_TIME_ORIGINAL);
+        editor.removeTag('exif', OFFSET_TIME_ORIGINAL);
+      } else {
+        editor.addIfd('exif');
+        const dateTime = date.slice(0, 19);
+        editor.setTag('exif', DATE_TIME_ORIGINAL, 2, dateTime.length + 1, editor.encodeAscii(dateTime));
+        if (match[7]) {
+          const offset = `${match[7]}${match[8]}:${match[9]}`;
+          editor.setTag('exif', OFFSET_TIME_ORIGINAL, 2, offset.length + 1, editor.encodeAscii(offset));
+        } else {
+          editor.removeTag('exif', OFFSET_TIME_ORIGINAL);
+        }
+      }
+    }
+
+    const position = values.get('position');
+    if (position !== undefined) {
+      const point = this.parsePosition(position);
+      if (!point) {
+        // Altitude, direction and the other GPS details mean nothing without a position
+        editor.removeIfd('gps');
+      } else {
+        editor.addIfd('gps');
+        if (!editor.getEntry('gps', GPS_VERSION_ID)) {
+          editor.setTag('gps', GPS_VERSION_ID, 1, 4, new Uint8Array([2, 3, 0, 0]));
+        }
+        editor.setTag('gps', GPS_LATITUDE_REF, 2, 2, editor.encodeAscii(point.latitude < 0 ? 'S' : 'N'));
+        editor.setTag('gps', GPS_LATITUDE, 5, 3, editor.encodeRationals(this.toDms(point.latitude)));
+        editor.setTag('gps', GPS_LONGITUDE_REF, 2, 2, editor.encodeAscii(point.longitude < 0 ? 'W' : 'E'));
+        editor.setTag('gps', GPS_LONGITUDE, 5, 3, editor.encodeRationals(this.toDms(point.longitude)));
+      }
+    }
+  }
+
+  /**
+   * Builds the XMP properties for the edited fields
+   *
+   * @param values - Validated values by field
+   * @returns Properties to write; null values remove the property
+   */
+  private static getXmpProperties(values: Map<EditableFieldId, string>): XmpPropertyValue[] {
+    const properties: XmpPropertyValue[] = [];
+
+    (Object.keys(TEXT_FIELDS) as Array<keyof typeof TEXT_FIELDS>).forEach((id) => {
+      const value = values.get(id);
+      if (value !== undefined) properties.push({ ...TEXT_FIELDS[id].xmp, value: value || null });
+    });
+
+    const date = values.get('dateTimeOriginal');
+    if (date !== undefined) {
+      const match = DATE_PATTERN.exec(date);
+      const iso = match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${match[7] ? `${match[7]}${match[8]}:${match[9]}` : ''}` : null;
+      properties.push(
+        { namespace: XMP_NAMESPACES.exif, prefix: 'exif', name: 'DateTimeOriginal', value: iso },
+        { namespace: XMP_NAMESPACES.photoshop, prefix: 'photoshop', name: 'DateCreated', value: iso }
+      );
+    }
+
+    const keywords = values.get('keywords');
+    if (keywords !== undefined) {
+      properties.push({ namespace: XMP_NAMESPACES.dc, prefix: 'dc', name: 'subject', container: 'Bag', value: this.splitList(keywords) });
+    }
+
+    const position = values.get('position');
+    if (position !== undefined) {
+      const point = this.parsePosition(position);
+      properties.push(
+        { namespace: XMP_NAMESPACES.exif, prefix: 'exif', name: 'GPSLatitude', value: point && XmpEditor.formatCoordinate(point.latitude, 'N', 'S') },
+        { namespace: XMP_NAMESPACES.exif, prefix: 'exif', name: 'GPSLongitude', value: point && XmpEditor.formatCoordinate(point.longitude, 'E', 'W') }
+      );
+    }
+
+    return properties;
+  }
+
+  /**
+   * Builds the IPTC application record datasets for the edited fields
+   *
+   * @param values - Validated values by field
+   * @returns New values by dataset number; empty arrays remove the dataset
+   */
+  private static getIptcDatasets(values: Map<EditableFieldId, string>): Map<number, string[]> {
+    const datasets = new Map<number, string[]>();
+
+    (Object.keys(TEXT_FIELDS) as Array<keyof typeof TEXT_FIELDS>).forEach((id) => {
+      const value = values.get(id);
+      if (value !== undefined) datasets.set(TEXT_FIELDS[id].iptc, value ? [value] : []);
+    });
+
+    const date = values.get('dateTimeOriginal');
+    if (date !== undefined) {
+      const match = DATE_PATTERN.exec(date);
+      datasets.set(IPTC_DATE_CREATED, match ? [`${match[1]}${match[2]}${match[3]}`] : []);
+      datasets.set(IPTC_TIME_CREATED, match ? [`${match[4]}${match[5]}${match[6]}${match[7] ? `${match[7]}${match[8]}${match[9]}` : ''}`] : []);
+    }
+
+    const keywords = values.get('keywords');
+    if (keywords !== undefined) {
+      datasets.set(IPTC_KEYWORDS, this.splitList(keywords));
+    }
+
+    return datasets;
+  }
+
+  /**
+   * Converts decimal degrees to EXIF degree, minute and second rationals
+   */
+  private static toDms(value: number): Array<[number, number]> {
+    const total = Math.round(Math.abs(value) * 3600 * SECONDS_DENOMINATOR);
+    const perDegree = 3600 * SECONDS_DENOMINATOR;
+    const perMinute = 60 * SECONDS_DENOMINATOR;
+    return [
+      [Math.floor(total / perDegree), 1],
+      [Math.floor((total % perDegree) / perMinute), 1],
+      [total % perMinute, SECONDS_DENOMINATOR]
+    ];
+  }
+
+  /**
+   * Splits a comma-separated list, dropping empty items
+   */
+  private static splitList(value: string): string[] {
+    return value.split(',').map((item) => item.trim()).filter(Boolean);
+  }
+}
@@ -0,0 +1,126 @@
+import { MetadataModel, MetadataData, MetadataGroup, CleanedField, RawTag, METADATA_GROUPS } from './MetadataModel';
+import { PrivacyService } from './PrivacyService';
+import { TagRegistry } from './TagRegistry';
+
+/**
+ * Criteria for narrowing down the fields shown
+ */
+export interface FieldFilter {
+  query: string;         // Text to find in the tag name, label, value or group; empty matches everything
+  privacyOnly: boolean;  // Keep only fields a privacy check flags
+  hideEmpty: boolean;    // Drop fields without a value and tags the reader could not name
+}
+
+/**
+ * Filter that keeps every field
+ */
+export const EMPTY_FILTER: FieldFilter = { query: '', privacyOnly: false, hideEmpty: false };
+
+// Descriptions that carry no information
+const EMPTY_VALUES = /^(|unknown|undefined|null|\[\])$/i;
+
+/**
+ * Service class for searching the cleaned and raw metadata of an image
+ */
+export class MetadataFilterService {
+  /**
+   * Tells whether a filter hides anything
+   *
+   * @param filter - Filter to check
+   * @returns True if any criterion is set
+   */
+  public static isActive(filter: FieldFilter): boolean {
+    return filter.query.trim() !== '' || filter.privacyOnly || filter.hideEmpty;
+  }
+
+  /**
+   * Returns the text of a cleaned field as it is displayed
+   *
+   * @param field - Cleaned field
+   * @returns Formatted value; composite values give their JSON
+   */
+  public static getDisplayText({ name, group, value }: CleanedField): string {
+    if (typeof value === 'object') {
+      return 'formatted' in value ? value.formatted : JSON.stringify(value);
+    }
+    return TagRegistry.formatValue(name, group, value);
+  }
+
+  /**
+   * Filters the cleaned fields
+   *
+   * @param metadata - Parsed metadata
+   * @param filter - Criteria to apply
+   * @returns Key/field pairs that match, in their original order
+   */
+  public static filterCleaned(metadata: MetadataModel, filter: FieldFilter): Array<[string, CleanedField]> {
+    return Object.entries(metadata.cleaned).filter(([, field]) =>
+      this.matches(field.name, field.group, this.getDisplayText(field), filter) &&
+      (!filter.privacyOnly || PrivacyService.isSensitive(field))
+    );
+  }
+
+  /**
+   * Filters the raw metadata
+   *
+   * @param metadata - Parsed metadata
+   * @param filter - Criteria to apply
+   * @returns Raw metadata holding only the matching tags; groups left empty are dropped
+   */
+  public static filterRaw(metadata: MetadataModel, filter: FieldFilter): MetadataData {
+    const filtered: MetadataData = {};
+
+    (Object.keys(metadata.raw) as MetadataGroup[]).forEach((group) => {
+      const tags = Object.entries(metadata.raw[group] ?? {}).filter(([name, tag]) =>
+        this.matches(name, group, this.getRawText(tag), filter) &&
+        (!filter.privacyOnly || PrivacyService.isSensitive({ name, group, value: tag.description }))
+      );
+      if (tags.length > 0) {
+        filtered[group] = Object.fromEntries(tags);
+      }
+    });
+
+    return filtered;
+  }
+
+  /**
+   * Counts the tags in raw metadata
+   *
+   * @param raw - Raw metadata
+   * @returns Number of tags over all groups
+   */
+  public static countRaw(raw: MetadataData): number {
+    return Object.values(raw).reduce((sum, tags) => sum + Object.keys(tags ?? {}).length, 0);
+  }
+
+  /**
+   * Returns the searchable text of a raw tag
+   *
+   * @param tag - Raw tag
+   * @returns Description, followed by the value when it differs
+   */
+  private static getRawText(tag: RawTag): string {
+    const description = String(tag.description);
+    const value = typeof tag.value === 'string' ? tag.value : JSON.stringify(tag.value) ?? '';
+    return value === description ? description : `${description} ${value}`;
+  }
+
+  /**
+   * Checks a tag against the query and the empty-tag criterion
+   *
+   * @param name - Tag name
+   * @param group - Group the tag was read from
+   * @param text - Value text of the tag
+   * @param filter - Criteria to apply
+   * @returns True if the tag should be shown
+   */
+  private static matches(name: string, group: MetadataGroup, text: string, filter: FieldFilter): boolean {
+    if (filter.hideEmpty && (EMPTY_VALUES.test(text.trim()) || /^undefined-/.test(name))) {
+      return false;
+    }
+
+    const query = filter.query.trim().toLowerCase();
+    return query === '' ||
+      [name, TagRegistry.getLabel(name, group), METADATA_GROUPS[group], text].some((part) => part.toLowerCase().includes(query));
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Source of a metadata tag inside the image file
+ */
+export type MetadataGroup =
+  | 'file'        // Image structure read from the file header (JPEG SOF, etc.)
+  | 'jfif'
+  | 'exif'        // TIFF/EXIF IFDs, except GPS
+  | 'gps'         // GPS IFD
+  | 'iptc'
+  | 'xmp'
+  | 'icc'
+  | 'photoshop'
+  | 'makerNotes'
+  | 'mpf'         // Multi-Picture Format index
+  | 'thumbnail'   // IFD1 describing the embedded thumbnail
+  | 'png'
+  | 'pngText'
+  | 'riff'
+  | 'gif'
+  | 'composite';  // Values the reader library derives from other tags
+
+/**
+ * Display labels for metadata groups, in priority order
+ *
+ * When the same tag name appears in several groups, the group listed first
+ * keeps the plain field name in the cleaned data.
+ */
+export const METADATA_GROUPS: Record<MetadataGroup, string> = {
+  exif: 'EXIF',
+  gps: 'GPS',
+  iptc: 'IPTC',
+  xmp: 'XMP',
+  makerNotes: 'MakerNotes',
+  icc: 'ICC',
+  photoshop: 'Photoshop',
+  file: 'File',
+  jfif: 'JFIF',
+  png: 'PNG',
+  pngText: 'PNG Text',
+  riff: 'RIFF',
+  gif: 'GIF',
+  mpf: 'MPF',
+  thumbnail: 'Thumbnail',
+  composite: 'Composite'
+};
+
+/**
+ * A single tag as delivered by the reader library
+ */
+export interface RawTag {
+  id?: number;                          // Numeric tag ID for TIFF-based and IPTC tags
+  value: unknown;                       // Decoded value; shape depends on the tag type
+  description: string | number;         // Human-readable form of the value
+  attributes?: Record<string, string>;  // XMP qualifiers
+}
+
+/**
+ * Raw metadata: the tags of every group, keyed by tag name
+ */
+export type MetadataData = Partial<Record<MetadataGroup, Record<string, RawTag>>>;
+
+/**
+ * Interface for location coordinate data with multiple representations
+ *
+ * Map links are not part of the parsed data; MapProviderService builds
+ * them for the map provider the user has chosen.
+ */
+export interface LocationCoordinates {
+  latitude: number;      // Decimal degrees latitude
+  longitude: number;     // Decimal degrees longitude
+  formatted: string;     // Human-readable coordinate string (e.g., "40.123456° N, 74.123456° W")
+  altitude?: number;                     // Metres above sea level; negative below it
+  imgDirection?: number;                 // Degrees clockwise from north the camera was pointing
+  imgDirectionRef?: DirectionReference;  // North the image direction is measured from
+  speed?: GpsSpeed;                      // Speed of the GPS receiver
+  timestamp?: string;                    // GPS date and time as ISO 8601 UTC
+  dop?: number;                          // Dilution of precision of the fix
+  horizontalError?: number;              // Horizontal positioning error in metres
+  datum?: string;                        // Geodetic datum (e.g. "WGS-84")
+  place?: Place;                         // Nearest named place, from the offline gazetteer
+}
+
+/**
+ * Named place nearest to a location
+ */
+export interface Place {
+  city: string;            // Name of the nearest city or town
+  region: string | null;   // First-level administrative division (state, province, ...)
+  country: string;         // English country name
+  countryCode: string;     // ISO 3166-1 alpha-2 country code
+  distance: number;        // Kilometres from the location to the place
+}
+
+/**
+ * North a GPS direction is measured from
+ */
+export type DirectionReference = 'true' | 'magnetic';
+
+/**
+ * Speed with the unit it was recorded in
+ */
+export interface GpsSpeed {
+  value: number;
+  unit: 'km/h' | 'mph' | 'kn';
+}
+
+/**
+ * Canonical capture time combined from the date, sub-second and offset tags
+ */
+export interface CaptureTime {
+  formatted: string;                            // ISO 8601 as shot, with the UTC offset when known
+  local: string;                                // ISO 8601 local date and time as shot, without offset
+  offset: string | null;                        // UTC offset such as "+02:00"
+  offsetSource: 'recorded' | 'timezone' | 'inferred' | null; // Time zone offsets come from the GPS position, inferred ones from the GPS time
+  timeZone: string | null;                      // IANA time zone at the GPS position
+  dst: boolean | null;                          // Whether daylight saving time was in effect there, when the zone is known
+  utc: string | null;                           // ISO 8601 UTC time, when the offset is known
+  source: string;                               // Key of the field the date was read from
+  gpsTime: string | null;                       // GPS UTC time the camera clock was compared against
+  clockDrift: number | null;                    // Seconds the camera clock was ahead of GPS time; negative when behind
+}
+
+/**
+ * Display-ready value of a cleaned field
+ */
+export type CleanedValue = string | number | LocationCoordinates | CaptureTime;
+
+/**
+ * A cleaned field together with where it came from
+ */
+export interface CleanedField {
+  name: string;          // Tag name as defined by its standard
+  group: MetadataGroup;  // Group the tag was read from
+  value: CleanedValue;
+}
+
+/**
+ * Cleaned metadata keyed by field key
+ *
+ * The key is the plain tag name for the highest-priority group containing
+ * the tag and "group:Name" (e.g. "xmp:DateTimeOriginal") for the others,
+ * so same-named tags from different groups never overwrite each other.
+ */
+export type CleanedData = Record<string, CleanedField>;
+
+/**
+ * How much a parse diagnostic affects the data shown
+ */
+export type DiagnosticSeverity =
+  | 'error'     // The value is unusable and was left out
+  | 'warning'   // The value was used, but inferred or corrected
+  | 'info';     // The value was used as recorded but looks suspicious
+
+/**
+ * A raw tag involved in a diagnostic
+ */
+export interface DiagnosticTag {
+  group: MetadataGroup;
+  name: string;
+  value: unknown;  // Raw value, or undefined when the tag is missing
+}
+
+/**
+ * A problem found while turning raw tags into cleaned fields
+ */
+export interface ParseDiagnostic {
+  code: string;           // Stable identifier, e.g. "missing-longitude-ref"
+  severity: DiagnosticSeverity;
+  message: string;
+  field: string;          // Key of the cleaned field the diagnostic is shown with
+  tags: DiagnosticTag[];  // Raw tags the diagnostic is about
+}
+
+/**
+ * Raw and cleaned metadata of one image
+ *
+ * This is a plain object so it can be posted from the parsing worker.
+ */
+export interface ParsedMetadata {
+  rawData: MetadataData;
+  cleanedData: CleanedData;
+  diagnostics: ParseDiagnostic[];  // Problems found while cleaning, most severe first
+}
+
+/**
+ * Exposure settings as numbers, for calculations and sorting
+ */
+export interface ExposureSettings {
+  exposureTime: number | null;  // Seconds
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null;   // Millimetres
+  exposureBias: number | null;  // EV
+}
+
+/**
+ * Interface for the handful of fields shown when many images are listed together
+ */
+export interface MetadataSummary {
+  captureDate: string | null;  // Original capture date as written by the camera
+  camera: string | null;       // Camera make and model
+  lens: string | null;         // Lens model
+  iso: number | null;          // ISO sensitivity
+  hasGps: boolean;             // Whether usable GPS coordinates were found
+  country: string | null;      // Country of the nearest named place
+  city: string | null;         // Nearest named place
+}
+
+// EXIF tags stored as (signed) rationals that are read through getNumber
+const RATIONAL_TAGS = new Set(['ExposureTime', 'FNumber', 'FocalLength', 'ExposureBiasValue', 'ApertureValue',
+  'ShutterSpeedValue', 'BrightnessValue', 'MaxApertureValue', 'SubjectDistance', 'DigitalZoomRatio',
+  'FocalPlaneXResolution', 'FocalPlaneYResolution']);
+
+/**
+ * Typed, group-aware view of the metadata of one image
+ *
+ * Wraps the parsed raw and cleaned data and provides accessors for the fields
+ * most of the app needs, so components never have to dig through raw tags.
+ * Accessors look through the groups in a fixed order (EXIF before XMP before
+ * IPTC), which mirrors how photo software resolves conflicting values.
+ */
+export class MetadataModel {
+  public readonly raw: MetadataData;
+  public readonly cleaned: CleanedData;
+  public readonly diagnostics: ParseDiagnostic[];
+
+  constructor({ rawData, cleanedData, diagnostics }: ParsedMetadata) {
+    this.raw = rawData;
+    this.cleaned = cleanedData;
+    this.diagnostics = diagnostics;
+  }
+
+  /**
+   * Looks up a raw tag
+   *
+   * @param group - Group to look in
+   * @param name - Tag name
+   * @returns The tag, or undefined if the group does not contain it
+   */
+  public getTag(group: MetadataGroup, name: string): RawTag | undefined {
+    return this.raw[group]?.[name];
+  }
+
+  /**
+   * Finds the key of the cleaned field showing a raw tag
+   *
+   * @param group - Group of the tag
+   * @param name - Tag name
+   * @returns Cleaned field key (e.g. "Software" or "xmp:CreatorTool"), or null if no field shows the tag
+   */
+  public getFieldKey(group: MetadataGroup, name: string): string | null {
+    return Object.keys(this.cleaned).find((key) => this.cleaned[key].group === group && this.cleaned[key].name === name) ?? null;
+  }
+
+  /**
+   * Returns the description of the first of several tags that is present and not empty
+   *
+   * @param candidates - [group, name] pairs in order of preference
+   * @returns Trimmed description, or null if none of the tags has one
+   */
+  public getText(...candidates: Array<[MetadataGroup, string]>): string | null {
+    for (const [group, name] of candidates) {
+      const description = this.getTag(group, name)?.description;
+      const text = description === undefined ? '' : String(description).trim();
+      if (text) return text;
+    }
+    return null;
+  }
+
+  /**
+   * Reads a numeric tag value
+   *
+   * Rationals ([numerator, denominator]) are divided out; arrays yield their first number.
+   *
+   * @param group - Group to look in
+   * @param name - Tag name
+   * @returns The number, or null if missing, not numeric or a rational with a zero denominator
+   */
+  public getNumber(group: MetadataGroup, name: string): number | null {
+    const value = this.getTag(group, name)?.value;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string') {
+      const parsed = parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    if (Array.isArray(value)) {
+      const [first, second] = value;
+      if (Array.isArray(first)) return this.divide(first);
+      if (typeof first === 'number' && typeof second === 'number' && this.isRational(group, name)) {
+        return this.divide([first, second]);
+      }
+      return typeof first === 'number' ? first : null;
+    }
+    return null;
+  }
+
+  /**
+   * Original capture date as written by the camera, falling back to XMP and IPTC
+   */
+  public get captureDate(): string | null {
+    return this.getText(
+      ['exif', 'DateTimeOriginal'],
+      ['exif', 'DateTimeDigitized'],
+      ['xmp', 'DateTimeOriginal'],
+      ['xmp', 'CreateDate'],
+      ['iptc', 'Date Created'],
+      ['exif', 'DateTime']
+    );
+  }
+
+  /**
+   * Camera make and model as one string
+   */
+  public get camera(): string | null {
+    const make = this.getText(['exif', 'Make'], ['xmp', 'Make']);
+    const model = this.getText(['exif', 'Model'], ['xmp', 'Model']);
+
+    // Many cameras repeat the make in the model name ("Canon" + "Canon EOS R5")
+    return make && model && !model.toLowerCase().startsWith(make.toLowerCase())
+      ? `${make} ${model}`
+      : model || make;
+  }
+
+  /**
+   * Lens model
+   */
+  public get lens(): string | null {
+    return this.getText(['exif', 'LensModel'], ['xmp', 'LensModel'], ['xmp', 'Lens'], ['makerNotes', 'LensModel'], ['makerNotes', 'Lens']);
+  }
+
+  /**
+   * Exposure settings from the EXIF IFD
+   */
+  public get exposure(): ExposureSettings {
+    return {
+      exposureTime: this.getNumber('exif', 'ExposureTime'),
+      fNumber: this.getNumber('exif', 'FNumber'),
+      iso: this.getNumber('exif', 'ISOSpeedRatings') ?? this.getNumber('exif', 'PhotographicSensitivity'),
+      focalLength: this.getNumber('exif', 'FocalLength'),
+      exposureBias: this.getNumber('exif', 'ExposureBiasValue')
+    };
+  }
+
+  /**
+   * GPS position in decimal degrees, or null when the image has no usable coordinates
+   */
+  public get location(): LocationCoordinates | null {
+    const value = this.cleaned.GPSCoordinates?.value;
+    return value && typeof value === 'object' && 'latitude' in value ? value : null;
+  }
+
+  /**
+   * Canonical capture time with its UTC offset, or null when the image has no usable date
+   */
+  public get captureTime(): CaptureTime | null {
+    const value = this.cleaned.CaptureTime?.value;
+    return value && typeof value === 'object' && 'local' in value ? value : null;
+  }
+
+  /**
+   * Extracts the key fields used for overview tables
+   *
+   * @returns Summary of capture date, camera, lens, ISO and GPS presence
+   */
+  public getSummary(): MetadataSummary {
+    return {
+      captureDate: this.captureDate,
+      camera: this.camera,
+      lens: this.lens,
+      iso: this.exposure.iso,
+      hasGps: this.location !== null,
+      country: this.location?.place?.country ?? null,
+      city: this.location?.place?.city ?? null
+    };
+  }
+
+  /**
+   * Checks whether a two-number value is a single rational rather than a pair of integers
+   *
+   * The reader library decodes both the same way, so the tag type is inferred
+   * from the tags this model reads as rationals.
+   */
+  private isRational(group: MetadataGroup, name: string): boolean {
+    return group === 'exif' && RATIONAL_TAGS.has(name);
+  }
+
+  /**
+   * Divides a [numerator, denominator] pair
+   */
+  private divide([numerator, denominator]: unknown[]): number | null {
+    if (typeof numerator !== 'number' || typeof denominator !== 'number' || denominator === 0) return null;
+    return numerator / denominator;
+  }
+}
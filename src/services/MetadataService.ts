@@ -1,23 +1,83 @@
-import MetadataReader from 'exifreader';
+import MetadataReader, { ExpandedTags } from 'exifreader';
+import { SegmentReader, MetadataBuffer } from './SegmentReader';
+import { CaptureTimeService } from './CaptureTimeService';
+import { GeocodingService } from './GeocodingService';
+import { TimeZoneService } from './TimeZoneService';
+import { MakerNoteService } from './MakerNoteService';
+import { JpegSegments } from './JpegSegments';
+import { ExposureService } from './ExposureService';
+import {
+  MetadataModel,
+  MetadataData,
+  MetadataGroup,
+  METADATA_GROUPS,
+  RawTag,
+  CleanedData,
+  CleanedValue,
+  LocationCoordinates,
+  GpsSpeed,
+  ParsedMetadata,
+  ParseDiagnostic,
+  DiagnosticSeverity
+} from './MetadataModel';
 
-// Type definitions for metadata structures
-export interface MetadataData {
-  [key: string]: any;
+/**
+ * Minimal XML parser interface needed for XMP parsing
+ * 
+ * Matches the browser's DOMParser; environments without one (web workers,
+ * Node) can pass a compatible implementation such as xmldom.
+ */
+export interface XmlParser {
+  parseFromString(source: string, mimeType: string): unknown;
 }
 
-export interface CleanedData {
-  [key: string]: any;
+/**
+ * Options for parsing metadata from file contents
+ */
+export interface ParseOptions {
+  domParser?: XmlParser;  // XML parser for XMP when no global DOMParser exists
 }
 
 /**
- * Interface for location coordinate data with multiple representations
+ * Groups of the reader library's expanded output and the group each maps to
+ * 
+ * "gps" (decimal values derived from the GPS IFD) and "pngFile" (a subset of
+ * "png") only repeat other tags and are left out.
  */
-export interface LocationCoordinates {
-  latitude: number;      // Decimal degrees latitude
-  longitude: number;     // Decimal degrees longitude
-  formatted: string;     // Human-readable coordinate string
-  mapsUrl: string;      // Maps URL for the location
-}
+const READER_GROUPS: Record<string, MetadataGroup | undefined> = {
+  file: 'file',
+  jfif: 'jfif',
+  exif: 'exif',
+  iptc: 'iptc',
+  xmp: 'xmp',
+  icc: 'icc',
+  photoshop: 'photoshop',
+  makerNotes: 'makerNotes',
+  mpf: 'mpf',
+  Thumbnail: 'thumbnail',
+  png: 'png',
+  pngText: 'pngText',
+  riff: 'riff',
+  gif: 'gif',
+  composite: 'composite'
+};
+
+// File extensions of supported images, for folders and sources without a MIME type (e.g. RAW files)
+export const IMAGE_FILE_EXTENSIONS = /\.(jpe?g|tiff?|png|webp|heic|heif|avif|gif|dng|cr2|nef|arw|orf|rw2)$/i;
+
+/**
+ * Records a diagnostic about the GPS tags with the given names
+ */
+type DiagnosticReporter = (code: string, severity: DiagnosticSeverity, message: string, names: string[]) => void;
+
+// Severities from most to least severe
+const SEVERITY_ORDER: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+// GPSSpeedRef codes and the units they stand for
+const SPEED_UNITS: Record<string, GpsSpeed['unit']> = { K: 'km/h', M: 'mph', N: 'kn' };
+
+// Entries of a reader group that are payloads rather than tags
+const SKIPPED_KEYS = new Set(['base64', 'image', '_raw']);
 
 /**
  * Service class for handling metadata extraction and processing
@@ -29,40 +89,49 @@ export interface LocationCoordinates {
  * - Handle various edge cases in GPS coordinate processing
  */
 export class MetadataService {
-  /**
-   * Safely divides two numbers, returning 0 if denominator is 0
-   * 
-   * This prevents division by zero errors that can occur in metadata
-   * where some values might be malformed or missing
-   * 
-   * @param param0 - Array containing [numerator, denominator]
-   * @returns The division result or 0 if denominator is 0
-   */
-  private static safeDivide = ([num, denom]: number[]): number =>
-    denom === 0 ? 0 : num / denom;
-
   /**
    * Converts location coordinates from Degrees, Minutes, Seconds (DMS) format to decimal degrees
    * 
    * Location data is typically stored in DMS format as arrays of fractions.
    * This method converts that format to decimal degrees for easier use in mapping APIs.
+   * Problems are reported instead of being papered over: a zero denominator
+   * in the degrees, or a value that is not a list of fractions, makes the
+   * coordinate unusable rather than 0 (which is a real place).
    * 
    * Formula: decimal = degrees + (minutes/60) + (seconds/3600)
    * 
-   * @param dmsArray - Array of [degrees, minutes, seconds] where each is [numerator, denominator]
-   * @returns Decimal degrees representation of the coordinate
-   */
-  private static convertDMSToDecimal(dmsArray: number[][]): number {
-    // Validate input format
-    if (!Array.isArray(dmsArray) || dmsArray.length !== 3) return 0;
-    
-    // Extract and convert each component using safe division
-    const degrees = this.safeDivide(dmsArray[0]);
-    const minutes = this.safeDivide(dmsArray[1]);
-    const seconds = this.safeDivide(dmsArray[2]);
-    
+   * @param tag - Raw GPSLatitude or GPSLongitude tag
+   * @param name - Name of the tag, for diagnostics
+   * @param report - Collects diagnostics about the tag
+   * @returns Decimal degrees, or null if the value is unusable
+   */
+  private static convertDMSToDecimal(tag: RawTag, name: string, report: DiagnosticReporter): number | null {
+    // Validate input format; some writers leave out trailing components
+    const dmsArray = tag.value;
+    if (!this.isRationalList(dmsArray) || dmsArray.length === 0 || dmsArray.length > 3) {
+      report('malformed-coordinate', 'error', `${name} is not a list of degrees, minutes and seconds, so the location was left out`, [name]);
+      return null;
+    }
+
+    const [degrees, minutes = 0, seconds = 0] = dmsArray.map(([num, denom], index) => {
+      if (denom !== 0) return num / denom;
+      if (index > 0) {
+        report('zero-denominator', 'warning', `The ${index === 1 ? 'minutes' : 'seconds'} of ${name} have a zero denominator and were read as 0`, [name]);
+        return 0;
+      }
+      return null;
+    });
+
+    if (degrees === null) {
+      report('zero-denominator', 'error', `The degrees of ${name} have a zero denominator, so the location was left out`, [name]);
+      return null;
+    }
+    if ((minutes ?? 0) >= 60 || (seconds ?? 0) >= 60) {
+      report('out-of-range', 'warning', `${name} has minutes or seconds of 60 or more`, [name]);
+    }
+
     // Convert to decimal degrees
-    return degrees + minutes / 60 + seconds / 3600;
+    return degrees + (minutes ?? 0) / 60 + (seconds ?? 0) / 3600;
   }
 
   /**
@@ -72,47 +141,49 @@ export class MetadataService {
    * 1. Extracting location latitude and longitude from metadata
    * 2. Converting from DMS to decimal format
    * 3. Applying hemisphere corrections (N/S for latitude, E/W for longitude)
-   * 4. Formatting coordinates for display
-   * 5. Generating map URLs
+   * 4. Detecting swapped, out-of-range and placeholder coordinates
+   * 5. Formatting coordinates for display
+   * 
+   * Anything inferred or corrected along the way is reported as a diagnostic.
+   * A missing hemisphere reference is assumed to be north or east, which is
+   * what the raw values say; the position is never moved to another
+   * hemisphere on a guess.
    * 
    * @param rawData - Raw metadata containing location information
-   * @returns Processed location coordinates or null if location data is not available
+   * @param diagnostics - Collects problems found in the location tags
+   * @returns Processed location coordinates or null if location data is not available or unusable
    */
-  private static processLocationCoordinates(rawData: MetadataData): LocationCoordinates | null {
+  private static processLocationCoordinates(rawData: MetadataData, diagnostics: ParseDiagnostic[]): LocationCoordinates | null {
+    const gps = rawData.gps;
+
     // Check if location data is present
-    if (!rawData.GPSLatitude || !rawData.GPSLongitude) return null;
+    if (!gps?.GPSLatitude || !gps.GPSLongitude) return null;
 
-    // Extract coordinate arrays and hemisphere references
-    const latArray = rawData.GPSLatitude.value;
-    const lonArray = rawData.GPSLongitude.value;
-    const latRefRaw = rawData.GPSLatitudeRef?.description || rawData.GPSLatitudeRef?.value || '';
-    const lonRefRaw = rawData.GPSLongitudeRef?.description || rawData.GPSLongitudeRef?.value || '';
+    const found: ParseDiagnostic[] = [];
+    const report: DiagnosticReporter = (code, severity, message, names) => {
+      found.push({ code, severity, message, field: '', tags: names.map((name) => ({ group: 'gps', name, value: gps[name]?.value })) });
+    };
 
-    // Normalize hemisphere references to uppercase for consistent comparison
-    const normalizedLatRef = latRefRaw.toString().trim().toUpperCase();
-    const normalizedLonRef = lonRefRaw.toString().trim().toUpperCase();
+    // Convert DMS to decimal degrees
+    const rawLatitude = this.convertDMSToDecimal(gps.GPSLatitude, 'GPSLatitude', report);
+    const rawLongitude = this.convertDMSToDecimal(gps.GPSLongitude, 'GPSLongitude', report);
 
-    // Validate that we have proper coordinate arrays
-    if (!Array.isArray(latArray) || !Array.isArray(lonArray)) return null;
+    // Hemisphere references are single letters ("N", "S", "E", "W")
+    const latRef = this.readCode(gps.GPSLatitudeRef).toUpperCase();
+    const lonRef = this.readCode(gps.GPSLongitudeRef).toUpperCase();
 
-    // Convert DMS to decimal degrees
-    let latitude = this.convertDMSToDecimal(latArray);
-    let longitude = this.convertDMSToDecimal(lonArray);
+    const coordinates = rawLatitude === null || rawLongitude === null
+      ? null
+      : this.resolveHemispheres(rawLatitude, rawLongitude, latRef, lonRef, report);
 
-    // Apply hemisphere corrections
-    // Southern latitudes are negative
-    if (normalizedLatRef === 'S') {
-      latitude = -Math.abs(latitude);
-    }
+    // Diagnostics go with the combined field, or with the raw tags when there is none
+    diagnostics.push(...found.map((diagnostic) => ({
+      ...diagnostic,
+      field: coordinates ? 'GPSCoordinates' : diagnostic.tags[0].name
+    })));
 
-    // Western longitudes are negative
-    if (normalizedLonRef.startsWith('W')) {
-      longitude = -Math.abs(longitude);
-    } else if (!normalizedLonRef && longitude > 0 && longitude < 180) {
-      // Fallback for missing longitude reference
-      // This handles cases where the hemisphere reference is missing
-      longitude = -Math.abs(longitude);
-    }
+    if (!coordinates) return null;
+    const { latitude, longitude } = coordinates;
 
     // Determine display directions for formatting
     const latDir = latitude >= 0 ? 'N' : 'S';
@@ -122,97 +193,425 @@ export class MetadataService {
       latitude: parseFloat(latitude.toFixed(6)),
       longitude: parseFloat(longitude.toFixed(6)),
       formatted: `${Math.abs(latitude).toFixed(6)}° ${latDir}, ${Math.abs(longitude).toFixed(6)}° ${lonDir}`,
-      mapsUrl: `https://maps.google.com/?q=${latitude},${longitude}`
+      ...this.processGpsDetails(gps)
     };
   }
 
+  /**
+   * Validates decimal coordinates and applies their hemisphere references
+   * 
+   * @param latitude - Unsigned latitude from GPSLatitude
+   * @param longitude - Unsigned longitude from GPSLongitude
+   * @param latRef - GPSLatitudeRef code
+   * @param lonRef - GPSLongitudeRef code
+   * @param report - Collects diagnostics
+   * @returns Signed coordinates, or null if they are out of range
+   */
+  private static resolveHemispheres(
+    latitude: number,
+    longitude: number,
+    latRef: string,
+    lonRef: string,
+    report: DiagnosticReporter
+  ): { latitude: number; longitude: number } | null {
+    const allTags = ['GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef'];
+
+    // Latitude and longitude written to each other's tags show up as crossed references
+    // or as a latitude beyond 90° next to a longitude that would be a valid latitude
+    const crossedRefs = /^[EW]$/.test(latRef) && /^[NS]$/.test(lonRef);
+    if (crossedRefs || (Math.abs(latitude) > 90 && Math.abs(longitude) <= 90 && !/^[NS]$/.test(latRef))) {
+      [latitude, longitude] = [longitude, latitude];
+      if (crossedRefs) [latRef, lonRef] = [lonRef, latRef];
+      report('swapped-coordinates', 'warning', 'Latitude and longitude appear to be swapped and were exchanged', allTags);
+    }
+
+    if (!latRef) {
+      report('missing-latitude-ref', 'warning', 'GPSLatitudeRef is missing; the latitude was assumed to be north', ['GPSLatitudeRef', 'GPSLatitude']);
+    } else if (!/^[NS]$/.test(latRef)) {
+      report('invalid-latitude-ref', 'warning', `GPSLatitudeRef "${latRef}" is not N or S; the latitude was assumed to be north`, ['GPSLatitudeRef']);
+    }
+    if (!lonRef) {
+      report('missing-longitude-ref', 'warning', 'GPSLongitudeRef is missing; the longitude was assumed to be east', ['GPSLongitudeRef', 'GPSLongitude']);
+    } else if (!/^[EW]$/.test(lonRef)) {
+      report('invalid-longitude-ref', 'warning', `GPSLongitudeRef "${lonRef}" is not E or W; the longitude was assumed to be east`, ['GPSLongitudeRef']);
+    }
+
+    if (latitude > 90 || longitude > 180) {
+      report('out-of-range', 'error', 'The coordinates are outside the valid range (latitude up to 90°, longitude up to 180°), so the location was left out', allTags);
+      return null;
+    }
+
+    // Apply hemisphere corrections: southern latitudes and western longitudes are negative
+    if (latRef === 'S') latitude = -latitude;
+    if (lonRef === 'W') longitude = -longitude;
+
+    if (latitude === 0 && longitude === 0) {
+      report('null-island', 'warning', 'The coordinates are exactly 0, 0, which is usually a placeholder written without a GPS fix', allTags);
+    }
+
+    return { latitude, longitude };
+  }
+
+  /**
+   * Reads the rest of the GPS IFD that describes the fix
+   * 
+   * Covers altitude (negated below sea level), image direction, speed, the
+   * UTC date and time, precision and datum. Tags that are missing or
+   * malformed are left out.
+   * 
+   * @param gps - Tags of the GPS IFD
+   * @returns The details found, to be merged into the coordinates
+   */
+  private static processGpsDetails(gps: Record<string, RawTag>): Partial<LocationCoordinates> {
+    const details: Partial<LocationCoordinates> = {};
+
+    const altitude = this.readRational(gps.GPSAltitude);
+    if (altitude !== null) {
+      // GPSAltitudeRef 1 means the altitude is below sea level
+      details.altitude = this.readCode(gps.GPSAltitudeRef) === '1' ? -altitude : altitude;
+    }
+
+    const direction = this.readRational(gps.GPSImgDirection);
+    if (direction !== null) {
+      details.imgDirection = direction % 360;
+      const ref = this.readCode(gps.GPSImgDirectionRef);
+      if (ref === 'T' || ref === 'M') details.imgDirectionRef = ref === 'T' ? 'true' : 'magnetic';
+    }
+
+    const speed = this.readRational(gps.GPSSpeed);
+    if (speed !== null) {
+      // Kilometres per hour is the EXIF default when the reference is missing
+      details.speed = { value: speed, unit: SPEED_UNITS[this.readCode(gps.GPSSpeedRef)] ?? 'km/h' };
+    }
+
+    const timestamp = this.readGpsTimestamp(gps);
+    if (timestamp) details.timestamp = timestamp;
+
+    const dop = this.readRational(gps.GPSDOP);
+    if (dop !== null) details.dop = dop;
+
+    const horizontalError = this.readRational(gps.GPSHPositioningError);
+    if (horizontalError !== null) details.horizontalError = horizontalError;
+
+    const datum = this.readCode(gps.GPSMapDatum);
+    if (datum) details.datum = datum;
+
+    return details;
+  }
+
+  /**
+   * Combines GPSDateStamp and GPSTimeStamp into an ISO 8601 UTC timestamp
+   * 
+   * @param gps - Tags of the GPS IFD
+   * @returns Timestamp such as "2024-01-02T03:04:05.5Z", or null if either tag is missing or malformed
+   */
+  private static readGpsTimestamp(gps: Record<string, RawTag>): string | null {
+    const date = /^(\d{4})[:-](\d{2})[:-](\d{2})$/.exec(this.readCode(gps.GPSDateStamp));
+    const time = gps.GPSTimeStamp?.value;
+    if (!date || !this.isRationalList(time) || time.length !== 3 || time.some(([, denom]) => denom === 0)) return null;
+
+    const [hours, minutes, seconds] = time.map(([num, denom]) => num / denom);
+    const wholeSeconds = Math.floor(seconds);
+    const fraction = seconds - wholeSeconds;
+    const pad = (value: number) => String(Math.floor(value)).padStart(2, '0');
+    const secondsText = fraction > 0 ? `${pad(wholeSeconds)}${fraction.toFixed(3).slice(1).replace(/0+$/, '')}` : pad(wholeSeconds);
+
+    return `${date[1]}-${date[2]}-${date[3]}T${pad(hours)}:${pad(minutes)}:${secondsText}Z`;
+  }
+
+  /**
+   * Reads a single unsigned rational tag
+   * 
+   * @param tag - Raw tag
+   * @returns The quotient, or null if the tag is missing, malformed or has a zero denominator
+   */
+  private static readRational(tag: RawTag | undefined): number | null {
+    const value = Array.isArray(tag?.value) && Array.isArray(tag.value[0]) ? tag.value[0] : tag?.value;
+    if (!Array.isArray(value) || value.length !== 2) return null;
+
+    const [num, denom] = value;
+    if (typeof num !== 'number' || typeof denom !== 'number' || denom === 0) return null;
+    return num / denom;
+  }
+
+  /**
+   * Reads a reference code or short ASCII tag as a trimmed string
+   * 
+   * @param tag - Raw tag, whose value may be a number, a string or a list of characters
+   * @returns The code (e.g. "N", "T", "1"), or an empty string if the tag is missing
+   */
+  private static readCode(tag: RawTag | undefined): string {
+    const value = tag?.value;
+    if (value === undefined || value === null) return '';
+    return (Array.isArray(value) ? value.join('') : String(value)).replace(/\0/g, '').trim();
+  }
+
+  /**
+   * Checks that a value is a list of [numerator, denominator] pairs
+   * 
+   * @param value - Raw tag value
+   * @returns True if every item is a pair of numbers
+   */
+  private static isRationalList(value: unknown): value is number[][] {
+    return Array.isArray(value) && value.every((item) =>
+      Array.isArray(item) && item.length === 2 && item.every((part) => typeof part === 'number'));
+  }
+
+  /**
+   * Checks that a value is a tag with a usable description
+   * 
+   * @param value - Entry of a reader group
+   * @returns True for objects with a value and a string or numeric description
+   */
+  private static isTag(value: unknown): value is RawTag {
+    if (!value || typeof value !== 'object' || !('value' in value)) return false;
+    const { description } = value as { description?: unknown };
+    return typeof description === 'string' || typeof description === 'number';
+  }
+
+  /**
+   * Normalizes the tags of one group as returned by the reader library
+   * 
+   * Binary payloads such as thumbnail and preview images are dropped, lists
+   * (repeated IPTC datasets, the MPF image index) are wrapped into a single
+   * tag and every tag is given a description.
+   * 
+   * @param groupTags - Tags of one group keyed by name
+   * @returns Tags ready to be cleaned and posted between threads
+   */
+  private static normalizeGroup(groupTags: Record<string, unknown>): Record<string, RawTag> {
+    const normalized: Record<string, RawTag> = {};
+
+    // Keys are checked before reading values: base64 is a lazily computed getter
+    Object.keys(groupTags)
+      .filter((name) => !SKIPPED_KEYS.has(name))
+      .forEach((name) => {
+        const tag = groupTags[name];
+        if (tag instanceof ArrayBuffer || ArrayBuffer.isView(tag)) return;
+
+        if (Array.isArray(tag) && tag.every((item) => this.isTag(item))) {
+          // Repeatable IPTC datasets (keywords, ...) are a list of tags with the same name
+          normalized[name] = {
+            id: tag[0]?.id,
+            value: tag,
+            description: tag.map((item) => item.description).join(', ')
+          };
+        } else if (Array.isArray(tag)) {
+          normalized[name] = {
+            value: tag.map((item) => (item && typeof item === 'object' ? this.normalizeGroup(item) : item)),
+            description: `${tag.length} ${tag.length === 1 ? 'entry' : 'entries'}`
+          };
+        } else if (this.isTag(tag)) {
+          normalized[name] = tag;
+        } else if (tag && typeof tag === 'object' && 'value' in tag) {
+          normalized[name] = { ...tag, value: tag.value, description: String(tag.value) };
+        } else if (typeof tag === 'string' || typeof tag === 'number') {
+          normalized[name] = { value: tag, description: tag };
+        }
+      });
+
+    return normalized;
+  }
+
+  /**
+   * Converts the expanded output of the reader library into grouped raw metadata
+   * 
+   * @param tags - Tags read with the expanded option
+   * @returns Raw metadata keyed by group and tag name
+   */
+  private static groupTags(tags: ExpandedTags): MetadataData {
+    const rawData: MetadataData = {};
+
+    Object.entries(tags).forEach(([readerGroup, groupTags]: [string, unknown]) => {
+      const group = READER_GROUPS[readerGroup];
+      if (group && groupTags && typeof groupTags === 'object') {
+        rawData[group] = this.normalizeGroup(groupTags as Record<string, unknown>);
+      }
+    });
+
+    // The reader returns the GPS IFD as part of EXIF; give it a group of its own
+    const exif = rawData.exif;
+    const gpsNames = exif ? Object.keys(exif).filter((name) => /^GPS[A-Z]/.test(name)) : [];
+    if (exif && gpsNames.length > 0) {
+      rawData.gps = {};
+      gpsNames.forEach((name) => {
+        rawData.gps![name] = exif[name];
+        delete exif[name];
+      });
+    }
+
+    return rawData;
+  }
+
   /**
    * Cleans and formats raw metadata for display
    * 
    * This method processes raw metadata by:
-   * 1. Filtering out binary data and base64 content
-   * 2. Extracting meaningful values from metadata objects
+   * 1. Taking the human-readable description of every tag
+   * 2. Keeping same-named tags from different groups apart
    * 3. Processing GPS coordinates into usable formats
-   * 4. Organizing data for user-friendly display
+   * 4. Deriving a canonical capture time, using the time zone at the GPS position
+   * 5. Formatting exposure values and deriving EV, field of view, depth of field and image size
    * 
-   * @param rawData - Raw metadata from reader library
-   * @returns Cleaned and formatted data object
+   * @param rawData - Grouped raw metadata
+   * @param diagnostics - Collects problems found while cleaning
+   * @returns Cleaned fields keyed by field key
    */
-  public static cleanMetadata(rawData: MetadataData): CleanedData {
+  public static cleanMetadata(rawData: MetadataData, diagnostics: ParseDiagnostic[] = []): CleanedData {
     const cleaned: CleanedData = {};
-    
-    // Filter out binary data and other non-displayable content
-    // This prevents large base64 strings and binary buffers from cluttering the display
-    const filteredData = Object.entries(rawData).reduce((acc, [key, value]) => {
-      if (key !== 'base64' && (typeof value !== 'object' || (typeof value === 'object' && value !== null && !ArrayBuffer.isView(value)))) {
-        acc[key] = value;
-      }
-      return acc;
-    }, {} as MetadataData);
-
-    // Extract meaningful values from metadata objects
-    // Metadata often comes wrapped in objects with 'description' or 'value' properties
-    Object.entries(filteredData).forEach(([key, value]) => {
-      if (value && typeof value === 'object' && 'description' in value) {
-        // Prefer human-readable descriptions when available
-        cleaned[key] = value.description;
-      } else if (value && typeof value === 'object' && 'value' in value) {
-        // Fall back to raw values
-        cleaned[key] = value.value;
-      } else {
-        // Use the value as-is for simple types
-        cleaned[key] = value;
-      }
+
+    // Groups are visited in priority order, so the first group holding a tag keeps the plain name
+    (Object.keys(METADATA_GROUPS) as MetadataGroup[]).forEach((group) => {
+      Object.entries(rawData[group] ?? {}).forEach(([name, tag]) => {
+        const key = Object.prototype.hasOwnProperty.call(cleaned, name) ? `${group}:${name}` : name;
+        cleaned[key] = { name, group, value: tag.description };
+      });
     });
 
     // Process GPS coordinates into a more usable format
-    const locationCoordinates = this.processLocationCoordinates(rawData);
+    const locationCoordinates = this.processLocationCoordinates(rawData, diagnostics);
     if (locationCoordinates) {
+      const gpsField = (name: string, value: CleanedValue) => ({ name, group: 'gps' as const, value });
       // Add individual coordinate values for easy access
-      cleaned.GPSLatitude = locationCoordinates.latitude;
-      cleaned.GPSLongitude = locationCoordinates.longitude;
+      cleaned.GPSLatitude = gpsField('GPSLatitude', locationCoordinates.latitude);
+      cleaned.GPSLongitude = gpsField('GPSLongitude', locationCoordinates.longitude);
+      // The raw altitude is unsigned; show it with the sign GPSAltitudeRef gives it
+      if (locationCoordinates.altitude !== undefined && cleaned.GPSAltitude?.group === 'gps') {
+        cleaned.GPSAltitude = gpsField('GPSAltitude', `${locationCoordinates.altitude} m`);
+      }
       // Add the complete coordinate object for advanced display
-      cleaned.GPSCoordinates = locationCoordinates;
+      cleaned.GPSCoordinates = gpsField('GPSCoordinates', locationCoordinates);
     }
 
+    // Combine the date, sub-second and offset tags into one timestamp, checked against the GPS clock
+    const captureTime = CaptureTimeService.resolve(
+      rawData,
+      rawData.gps ? this.readGpsTimestamp(rawData.gps) : null,
+      locationCoordinates ? TimeZoneService.lookup(locationCoordinates) : null,
+      diagnostics
+    );
+    if (captureTime) {
+      cleaned.CaptureTime = { name: 'CaptureTime', group: 'composite', value: captureTime };
+    }
+
+    // Photographic formatting of the EXIF exposure tags, and the values computed from them
+    const model = new MetadataModel({ rawData, cleanedData: cleaned, diagnostics });
+    Object.entries(ExposureService.format(model)).forEach(([name, value]) => {
+      if (cleaned[name]?.group === 'exif') {
+        cleaned[name] = { ...cleaned[name], value };
+      }
+    });
+    Object.entries(ExposureService.derive(model)).forEach(([name, value]) => {
+      // Replaces a composite value of the reader library with the same name
+      const key = cleaned[name] && cleaned[name].group !== 'composite' ? `composite:${name}` : name;
+      cleaned[key] = { name, group: 'composite', value };
+    });
+
     return cleaned;
   }
 
+  /**
+   * Finds the EXIF TIFF structure in file contents
+   * 
+   * @param bytes - File contents, or a reduced file from SegmentReader
+   * @returns The TIFF structure of a JPEG's Exif segment or of a TIFF-based file, or null for other formats
+   */
+  private static findTiff(bytes: Uint8Array): Uint8Array | null {
+    if (JpegSegments.isJpeg(bytes)) {
+      try {
+        const exif = JpegSegments.parse(bytes).segments.find((segment) => segment.kind === 'exif');
+        return exif ? JpegSegments.getTiffData(exif) : null;
+      } catch {
+        return null;
+      }
+    }
+    // TIFF, DNG and most raw files start with the TIFF structure itself
+    return bytes[0] === bytes[1] && (bytes[0] === 0x49 || bytes[0] === 0x4D) ? bytes : null;
+  }
+
+  /**
+   * Parses metadata from file contents that are already in memory
+   * 
+   * This is the synchronous core shared by the main thread, the parsing worker
+   * and the command-line tool.
+   * 
+   * @param buffer - File contents, or a reduced file from SegmentReader; Node Buffers are accepted
+   * @param options - Parsing options
+   * @returns Object containing raw and cleaned metadata and any parse diagnostics
+   * @throws Error if metadata parsing fails
+   */
+  public static parseBuffer(buffer: ArrayBuffer | Uint8Array, options: ParseOptions = {}): ParsedMetadata {
+    // Views may cover part of a larger (pooled) buffer, so copy out just their bytes
+    const arrayBuffer = buffer instanceof Uint8Array
+      ? buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+      : buffer;
+
+    // Extract metadata tags per group using reader library
+    // The domParser option is supported by the reader but missing from its type definitions
+    const tags = MetadataReader.load(arrayBuffer, { expanded: true, domParser: options.domParser } as { expanded: true });
+    const rawData = this.groupTags(tags);
+
+    // The reader only knows a few MakerNote tags; add those of the vendor decoders
+    const diagnostics: ParseDiagnostic[] = [];
+    const makerNotes = MakerNoteService.decode(rawData, this.findTiff(new Uint8Array(arrayBuffer)), diagnostics);
+    if (Object.keys(makerNotes).length > 0) {
+      rawData.makerNotes = { ...rawData.makerNotes, ...makerNotes };
+    }
+    const cleanedData = this.cleanMetadata(rawData, diagnostics);
+
+    return {
+      rawData,
+      cleanedData,
+      diagnostics: diagnostics.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    };
+  }
+
+  /**
+   * Parses the metadata bytes read by SegmentReader
+   * 
+   * A damaged structure that made the reader fall back to the whole file
+   * is reported as a diagnostic on the file type.
+   * 
+   * @param metadataBuffer - Result of SegmentReader.readMetadataBuffer
+   * @param options - Parsing options
+   * @returns Object containing raw and cleaned metadata and any parse diagnostics
+   * @throws Error if metadata parsing fails
+   */
+  public static parseMetadataBuffer({ buffer, fallbackReason }: MetadataBuffer, options: ParseOptions = {}): ParsedMetadata {
+    const parsed = this.parseBuffer(buffer, options);
+    if (fallbackReason) {
+      parsed.diagnostics.push({
+        code: 'segment-read-fallback',
+        severity: 'info',
+        message: `The file structure could not be walked (${fallbackReason}), so the whole file was read`,
+        field: 'FileType',
+        tags: [{ group: 'file', name: 'FileType', value: parsed.rawData.file?.FileType?.value }]
+      });
+    }
+    return parsed;
+  }
+
   /**
    * Main method to parse metadata from an image file
    * 
    * This is the primary entry point for metadata processing. It:
-   * 1. Converts the file to an ArrayBuffer for processing
-   * 2. Uses reader library to extract raw metadata
+   * 1. Reads the metadata-bearing parts of the file into an ArrayBuffer
+   * 2. Uses reader library to extract raw metadata per group, decoding the vendor MakerNote
    * 3. Cleans the data for display purposes
-   * 4. Returns both raw and cleaned versions
+   * 4. Adds the nearest named place to the location
+   * 5. Returns both raw and cleaned versions
+   * 
+   * Runs on the calling thread; use MetadataWorkerClient to keep the UI responsive.
+   * Accepts any Blob, so Node can pass the result of fs.openAsBlob.
    * 
    * @param file - Image file to process
+   * @param options - Parsing options
    * @returns Promise resolving to an object containing both raw and cleaned metadata
    * @throws Error if file reading or metadata parsing fails
    */
-  public static async parseMetadata(file: File): Promise<{ rawData: MetadataData; cleanedData: CleanedData }> {
-    // Convert file to ArrayBuffer for metadata reader
-    const arrayBuffer = await file.arrayBuffer();
-    
-    // Extract metadata tags using reader library
-    const tags = MetadataReader.load(arrayBuffer);
-    
-    // Prepare raw data for display by removing base64 content
-    // Base64 data can be extremely large and is not useful for display
-    const rawDataForDisplay = Object.entries(tags).reduce((acc, [key, value]) => {
-      if (key !== 'base64') {
-        acc[key] = value;
-      }
-      return acc;
-    }, {} as MetadataData);
-
-    // Clean and format the data for user-friendly display
-    const cleanedData = this.cleanMetadata(tags);
-
-    return {
-      rawData: rawDataForDisplay,
-      cleanedData
-    };
+  public static async parseMetadata(file: Blob, options: ParseOptions = {}): Promise<ParsedMetadata> {
+    // Read only the segments that carry metadata instead of the whole file
+    const metadataBuffer = await SegmentReader.readMetadataBuffer(file);
+    return GeocodingService.addPlace(this.parseMetadataBuffer(metadataBuffer, options));
   }
-}
\ No newline at end of file
+}
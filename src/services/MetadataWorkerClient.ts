@@ -0,0 +1,146 @@
+import { MetadataService } from './MetadataService';
+import { GeocodingService } from './GeocodingService';
+import { MetadataModel, ParsedMetadata } from './MetadataModel';
+
+/**
+ * Stages reported while a file is being processed
+ */
+export type ParseStage = 'reading' | 'parsing';
+
+/**
+ * Progress information for a running parse
+ */
+export interface ParseProgress {
+  stage: ParseStage;
+  bytesRead: number;   // Bytes of the file read so far
+  totalBytes: number;  // Number of bytes that will be read in total
+}
+
+/**
+ * Messages posted from the parsing worker to the main thread
+ */
+export type MetadataWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; metadata: ParsedMetadata }
+  | { type: 'error'; message: string };
+
+/**
+ * Message posted from the main thread to start parsing
+ */
+export interface MetadataWorkerRequest {
+  type: 'parse';
+  file: File;
+}
+
+/**
+ * Options for a worker parse
+ */
+export interface WorkerParseOptions {
+  onProgress?: (progress: ParseProgress) => void; // Called as the worker reports progress
+  signal?: AbortSignal;                           // Aborting terminates the worker and rejects the promise
+}
+
+/**
+ * Service class for parsing metadata off the main thread
+ *
+ * Every parse runs in its own dedicated worker, which is terminated as soon
+ * as the parse finishes or is cancelled. Terminating (rather than asking the
+ * worker to stop) guarantees that a cancelled parse can never deliver a stale
+ * result, even while the reader library is busy.
+ *
+ * The nearest place is added on the main thread, so the gazetteer is loaded
+ * and indexed once rather than in every worker.
+ */
+export class MetadataWorkerClient {
+  /**
+   * Parses metadata from an image file in a web worker
+   *
+   * Falls back to parsing on the main thread where workers are unavailable.
+   *
+   * @param file - Image file to process
+   * @param options - Progress callback and abort signal
+   * @returns Promise resolving to the metadata model
+   * @throws DOMException named 'AbortError' if the signal is aborted
+   * @throws Error if reading or parsing fails
+   */
+  public static parse(
+    file: File,
+    { onProgress, signal }: WorkerParseOptions = {}
+  ): Promise<MetadataModel> {
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+
+    if (typeof Worker === 'undefined') {
+      return MetadataService.parseMetadata(file).then((parsed) => new MetadataModel(parsed));
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/metadataWorker.ts', import.meta.url), { type: 'module' });
+
+      /**
+       * Stops the worker and detaches the abort listener
+       */
+      const cleanup = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', handleAbort);
+      };
+
+      const handleAbort = () => {
+        cleanup();
+        reject(this.createAbortError());
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+
+      worker.onmessage = (event: MessageEvent<MetadataWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'result':
+            cleanup();
+            GeocodingService.addPlace(message.metadata).then((parsed) => {
+              if (signal?.aborted) {
+                reject(this.createAbortError());
+                return;
+              }
+              // Class instances do not survive postMessage, so the model is built on this side
+              resolve(new MetadataModel(parsed));
+            });
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        cleanup();
+        reject(new Error(event.message || 'Metadata worker failed'));
+      };
+
+      const request: MetadataWorkerRequest = { type: 'parse', file };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Checks whether an error was caused by cancelling a parse
+   *
+   * @param error - Caught error
+   * @returns True for abort errors
+   */
+  public static isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
+  /**
+   * Creates the error used to reject cancelled parses
+   */
+  private static createAbortError(): DOMException {
+    return new DOMException('Metadata parsing was cancelled', 'AbortError');
+  }
+}
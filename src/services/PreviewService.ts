@@ -0,0 +1,443 @@
+import { MetadataModel, RawTag } from './MetadataModel';
+import { SegmentReader } from './SegmentReader';
+import { JpegSegments } from './JpegSegments';
+import { TiffEditor } from './TiffEditor';
+
+/**
+ * Where in the file an embedded preview was found
+ */
+export type PreviewSource =
+  | 'thumbnail'   // IFD1 thumbnail of the EXIF data
+  | 'mpf'         // Image of the Multi-Picture Format index, stored after the main image
+  | 'makernote';  // JPEG embedded in the vendor MakerNote
+
+/**
+ * A preview image embedded in an image file
+ */
+export interface EmbeddedPreview {
+  source: PreviewSource;
+  label: string;          // Human-readable description (e.g. "EXIF thumbnail")
+  blob: Blob;             // The preview as a JPEG file
+  offset: number;         // Position of the preview in the file
+  width: number | null;   // Pixel dimensions from the JPEG frame header, if readable
+  height: number | null;
+}
+
+/**
+ * How an embedded preview relates to the main image
+ */
+export type PreviewVerdict =
+  | 'match'       // Same content and framing
+  | 'reframed'    // Different aspect ratio, e.g. the uncropped original
+  | 'different'   // Different content altogether
+  | 'altered';    // Same picture, but part of the frame differs, e.g. before a retouch
+
+/**
+ * Result of comparing an embedded preview with the main image
+ */
+export interface PreviewComparison {
+  verdict: PreviewVerdict;
+  message: string;
+  similarity: number;        // Correlation of the downscaled images; 1 for identical content
+  regionDifference: number;  // Largest difference of any part of the frame, in standard deviations
+  aspectRatio: number;       // Width / height of the preview content, without letterbox bars
+  mainAspectRatio: number;   // Width / height of the main image as displayed
+}
+
+/**
+ * Embedded previews of a file with their comparisons, shared by the views that show them
+ */
+export interface PreviewAnalysis {
+  previews: EmbeddedPreview[];
+  comparisons: Array<PreviewComparison | null> | null;  // One per preview, null where not decodable; null while comparing
+}
+
+/**
+ * Downscaled grayscale image with its aspect ratio
+ */
+interface ImageSample {
+  grid: Float32Array;   // GRID_SIZE x GRID_SIZE values, normalized to zero mean and unit variance
+  aspectRatio: number;
+}
+
+// Side of the grid images are compared on
+const GRID_SIZE = 16;
+
+// Images are drawn at this size first and then averaged down, which avoids aliasing
+const DRAW_SIZE = 64;
+
+// Side of the grid parts compared on their own to find local edits
+const REGION_SIZE = 4;
+
+// Largest size a preview is drawn at to look for letterbox bars
+const BAR_SCAN_SIZE = 256;
+
+// Rows and columns darker than this throughout are letterbox bars (0-255)
+const BAR_LUMINANCE = 24;
+
+// Aspect ratios differing by less than this are the same framing (ratio of logarithms)
+const ASPECT_TOLERANCE = 0.04;
+
+// Below this correlation a preview shows different content
+const SIMILARITY_THRESHOLD = 0.6;
+
+// Above this difference in some part of the frame, that part was changed
+const REGION_THRESHOLD = 1.2;
+
+// Start of an embedded JPEG: SOI followed by another marker
+const JPEG_START = [0xFF, 0xD8, 0xFF];
+
+// EXIF MakerNote tag
+const MAKER_NOTE_TAG = 0x927C;
+
+/**
+ * Service class for extracting embedded preview images and checking them against the main image
+ *
+ * Editors often rewrite the main image but leave the EXIF thumbnail and
+ * other embedded previews untouched, so a preview that shows something else
+ * than the main image may leak the uncropped or unretouched original and is
+ * a sign the file was edited.
+ */
+export class PreviewService {
+  /**
+   * Extracts the preview images embedded in a file
+   *
+   * @param file - Image file the metadata was parsed from
+   * @param metadata - Parsed metadata of the file, for the thumbnail and MPF offsets
+   * @returns Previews in file order; empty if the file has none
+   */
+  public static async extract(file: Blob, metadata: MetadataModel): Promise<EmbeddedPreview[]> {
+    const { buffer, strategy } = await SegmentReader.readMetadataBuffer(file);
+    const bytes = new Uint8Array(buffer);
+    const previews: EmbeddedPreview[] = [];
+
+    // Offsets in the EXIF data count from the start of its TIFF structure
+    let tiff: Uint8Array | null = null;
+    if (strategy === 'jpeg-segments') {
+      const exif = JpegSegments.parse(bytes).segments.find((segment) => segment.kind === 'exif');
+      tiff = exif ? JpegSegments.getTiffData(exif) : null;
+    } else if (bytes[0] === bytes[1] && (bytes[0] === 0x49 || bytes[0] === 0x4D)) {
+      // TIFF-based formats (TIFF, DNG and most raw files) start with the structure itself
+      tiff = bytes;
+    }
+
+    const thumbnail = metadata.raw.thumbnail;
+    const thumbnailOffset = thumbnail?.JPEGInterchangeFormat?.value;
+    const thumbnailLength = thumbnail?.JPEGInterchangeFormatLength?.value;
+    if (tiff && typeof thumbnailOffset === 'number' && typeof thumbnailLength === 'number' && thumbnailLength > 0) {
+      const preview = await this.readPreview(file, tiff.byteOffset + thumbnailOffset, thumbnailLength, 'thumbnail', 'EXIF thumbnail');
+      if (preview) previews.push(preview);
+    }
+
+    if (tiff && strategy === 'jpeg-segments') {
+      const skip = typeof thumbnailOffset === 'number' ? thumbnailOffset : -1;
+      previews.push(...this.findEmbeddedJpegs(tiff, skip));
+    }
+
+    // The MPF index lists the primary image first; offsets are already absolute
+    const images = metadata.raw.mpf?.Images?.value;
+    if (Array.isArray(images)) {
+      for (const [index, image] of (images as Array<Record<string, RawTag> | null>).entries()) {
+        const offset = image?.ImageOffset?.value;
+        const size = image?.ImageSize?.value;
+        if (index === 0 || typeof offset !== 'number' || typeof size !== 'number' || size === 0) continue;
+
+        const type = image?.ImageType?.description;
+        const preview = await this.readPreview(file, offset, size, 'mpf', `MPF image ${index + 1}${type ? ` (${type})` : ''}`);
+        if (preview) previews.push(preview);
+      }
+    }
+
+    return previews.sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * Compares embedded previews with the main image
+   *
+   * Both images are decoded by the browser, reduced to a small grayscale
+   * grid and correlated. Letterbox bars that cameras add to fit thumbnails
+   * into a fixed size are ignored, and the preview is tried in every
+   * orientation, since the main image is displayed rotated by its
+   * Orientation tag while previews usually are not.
+   *
+   * @param file - Main image
+   * @param previews - Previews to compare
+   * @returns One comparison per preview; null where an image cannot be decoded
+   */
+  public static async compare(file: Blob, previews: EmbeddedPreview[]): Promise<Array<PreviewComparison | null>> {
+    const main = await this.sampleImage(file, false);
+    if (!main) return previews.map(() => null);
+
+    return Promise.all(previews.map(async (preview) => {
+      const sample = await this.sampleImage(preview.blob, true);
+      return sample ? this.compareSamples(main, sample) : null;
+    }));
+  }
+
+  /**
+   * Reads a preview from the file, checking that it is a JPEG
+   */
+  private static async readPreview(
+    file: Blob,
+    offset: number,
+    length: number,
+    source: PreviewSource,
+    label: string
+  ): Promise<EmbeddedPreview | null> {
+    if (offset < 0 || offset + length > file.size) return null;
+
+    const blob = file.slice(offset, offset + length, 'image/jpeg');
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (!JPEG_START.every((byte, index) => bytes[index] === byte)) return null;
+
+    return { source, label, blob, offset, ...this.readJpegSize(bytes) };
+  }
+
+  /**
+   * Finds JPEG images stored inside the MakerNote of the EXIF data
+   *
+   * Vendors store their previews in proprietary structures, so the MakerNote
+   * is searched for complete JPEG streams rather than decoded.
+   *
+   * @param tiff - EXIF TIFF structure, as a view into the file's leading bytes
+   * @param skip - Offset of the IFD1 thumbnail within the TIFF structure, which is reported separately
+   */
+  private static findEmbeddedJpegs(tiff: Uint8Array, skip: number): EmbeddedPreview[] {
+    let makerNote: { start: number; end: number };
+    try {
+      const entry = new TiffEditor(tiff).getEntry('exif', MAKER_NOTE_TAG);
+      if (!entry?.dataOffset) return [];
+      makerNote = { start: entry.dataOffset, end: entry.dataOffset + entry.data.length };
+    } catch {
+      return [];
+    }
+
+    const previews: EmbeddedPreview[] = [];
+    // Vendor previews may also be referenced from the MakerNote but stored right after it
+    for (let position = makerNote.start; position < tiff.length - JPEG_START.length; position++) {
+      if (position === skip || !JPEG_START.every((byte, index) => tiff[position + index] === byte)) continue;
+
+      const length = this.measureJpeg(tiff.subarray(position));
+      if (!length) continue;
+
+      const bytes = tiff.subarray(position, position + length);
+      previews.push({
+        source: 'makernote',
+        label: position < makerNote.end ? 'MakerNote preview' : 'Vendor preview',
+        blob: new Blob([bytes], { type: 'image/jpeg' }),
+        offset: tiff.byteOffset + position,
+        ...this.readJpegSize(bytes)
+      });
+      position += length - 1;
+    }
+    return previews;
+  }
+
+  /**
+   * Measures a complete JPEG stream
+   *
+   * @param bytes - Data starting with an SOI marker
+   * @returns Length up to and including EOI, or 0 if the data is not a complete JPEG with a frame header
+   */
+  private static measureJpeg(bytes: Uint8Array): number {
+    try {
+      const { segments, scanData } = JpegSegments.parse(bytes);
+      if (!segments.some((segment) => this.isFrameHeader(segment.marker)) || scanData.length < 4) return 0;
+
+      const end = JpegSegments.findEndOfImage(scanData);
+      const found = scanData[end - 2] === 0xFF && scanData[end - 1] === 0xD9;
+      return found ? scanData.byteOffset - bytes.byteOffset + end : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Reads the pixel dimensions from the frame header of a JPEG
+   */
+  private static readJpegSize(bytes: Uint8Array): { width: number | null; height: number | null } {
+    try {
+      const frame = JpegSegments.parse(bytes).segments.find((segment) => this.isFrameHeader(segment.marker));
+      if (frame && frame.data.length >= 5) {
+        return { width: (frame.data[3] << 8) | frame.data[4], height: (frame.data[1] << 8) | frame.data[2] };
+      }
+    } catch {
+      // Unreadable headers leave the size unknown
+    }
+    return { width: null, height: null };
+  }
+
+  /**
+   * Checks for a Start Of Frame marker (SOF0-SOF15 except DHT, JPG and DAC)
+   */
+  private static isFrameHeader(marker: number): boolean {
+    return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+  }
+
+  /**
+   * Decodes an image and reduces it to a normalized grayscale grid
+   *
+   * @param blob - Image to sample
+   * @param trimBars - Whether to cut away letterbox bars first
+   * @returns The sample, or null if the browser cannot decode the image
+   */
+  private static async sampleImage(blob: Blob, trimBars: boolean): Promise<ImageSample | null> {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(blob);
+    } catch {
+      return null;
+    }
+
+    try {
+      const box = trimBars ? this.findContentBox(bitmap) : { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+      const pixels = this.draw(bitmap, box, DRAW_SIZE, DRAW_SIZE);
+      const factor = DRAW_SIZE / GRID_SIZE;
+      const grid = new Float32Array(GRID_SIZE * GRID_SIZE);
+
+      for (let y = 0; y < DRAW_SIZE; y++) {
+        for (let x = 0; x < DRAW_SIZE; x++) {
+          grid[Math.floor(y / factor) * GRID_SIZE + Math.floor(x / factor)] += pixels[y * DRAW_SIZE + x] / (factor * factor);
+        }
+      }
+
+      return { grid: this.normalize(grid), aspectRatio: box.width / box.height };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Finds the part of an image inside dark letterbox bars
+   */
+  private static findContentBox(bitmap: ImageBitmap): { x: number; y: number; width: number; height: number } {
+    const scale = Math.min(1, BAR_SCAN_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const pixels = this.draw(bitmap, { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, width, height);
+
+    const isBar = (from: number, count: number, step: number) => {
+      for (let i = 0; i < count; i++) {
+        if (pixels[from + i * step] > BAR_LUMINANCE) return false;
+      }
+      return true;
+    };
+
+    let top = 0;
+    let bottom = height;
+    let left = 0;
+    let right = width;
+    while (top < bottom - 1 && isBar(top * width, width, 1)) top++;
+    while (bottom - 1 > top && isBar((bottom - 1) * width, width, 1)) bottom--;
+    while (left < right - 1 && isBar(left, height, width)) left++;
+    while (right - 1 > left && isBar(right - 1, height, width)) right--;
+
+    // A fully dark image has no bars to remove
+    if (bottom - top <= 1 || right - left <= 1) {
+      return { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    }
+    return { x: left / scale, y: top / scale, width: (right - left) / scale, height: (bottom - top) / scale };
+  }
+
+  /**
+   * Draws part of a bitmap at the given size and returns its luminance
+   */
+  private static draw(
+    bitmap: ImageBitmap,
+    box: { x: number; y: number; width: number; height: number },
+    width: number,
+    height: number
+  ): Float32Array {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context unavailable');
+
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, box.x, box.y, box.width, box.height, 0, 0, width, height);
+    const { data } = context.getImageData(0, 0, width, height);
+
+    const luminance = new Float32Array(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return luminance;
+  }
+
+  /**
+   * Shifts and scales values to zero mean and unit variance
+   */
+  private static normalize(values: Float32Array): Float32Array {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    // Flat images have no structure to compare; keep them flat instead of dividing by zero
+    const deviation = Math.sqrt(variance) || 1;
+    return values.map((value) => (value - mean) / deviation);
+  }
+
+  /**
+   * Rotates or mirrors a grid into one of the eight orientations EXIF can describe
+   *
+   * @param grid - Square grid
+   * @param orientation - 0-7: bit 0 mirrors, bit 1 flips, bit 2 transposes
+   */
+  private static orient(grid: Float32Array, orientation: number): Float32Array {
+    const last = GRID_SIZE - 1;
+    return grid.map((_, index) => {
+      let x = index % GRID_SIZE;
+      let y = Math.floor(index / GRID_SIZE);
+      if (orientation & 4) [x, y] = [y, x];
+      if (orientation & 1) x = last - x;
+      if (orientation & 2) y = last - y;
+      return grid[y * GRID_SIZE + x];
+    });
+  }
+
+  /**
+   * Compares the samples of the main image and a preview
+   */
+  private static compareSamples(main: ImageSample, preview: ImageSample): PreviewComparison {
+    // The orientation that fits best is the one the preview is stored in
+    let best = { similarity: -Infinity, grid: preview.grid, transposed: false };
+    for (let orientation = 0; orientation < 8; orientation++) {
+      const grid = this.orient(preview.grid, orientation);
+      const similarity = grid.reduce((sum, value, index) => sum + value * main.grid[index], 0) / grid.length;
+      if (similarity > best.similarity) best = { similarity, grid, transposed: (orientation & 4) !== 0 };
+    }
+
+    // Mean difference within each part of the frame; a local edit stands out in its part
+    const regions = GRID_SIZE / REGION_SIZE;
+    let regionDifference = 0;
+    for (let region = 0; region < regions * regions; region++) {
+      let total = 0;
+      for (let cell = 0; cell < REGION_SIZE * REGION_SIZE; cell++) {
+        const x = (region % regions) * REGION_SIZE + (cell % REGION_SIZE);
+        const y = Math.floor(region / regions) * REGION_SIZE + Math.floor(cell / REGION_SIZE);
+        total += Math.abs(best.grid[y * GRID_SIZE + x] - main.grid[y * GRID_SIZE + x]);
+      }
+      regionDifference = Math.max(regionDifference, total / (REGION_SIZE * REGION_SIZE));
+    }
+
+    const aspectRatio = best.transposed ? 1 / preview.aspectRatio : preview.aspectRatio;
+    const reframed = Math.abs(Math.log(aspectRatio / main.aspectRatio)) > ASPECT_TOLERANCE;
+    const similarity = Math.round(best.similarity * 1000) / 1000;
+
+    const [verdict, message]: [PreviewVerdict, string] = reframed
+      ? ['reframed', `Framed differently from the main image (aspect ratio ${aspectRatio.toFixed(2)} vs ${main.aspectRatio.toFixed(2)}); it may show the uncropped original`]
+      : similarity < SIMILARITY_THRESHOLD
+        ? ['different', 'Shows different content from the main image']
+        : regionDifference > REGION_THRESHOLD
+          ? ['altered', 'Differs from the main image in part of the frame; it may show the picture before an edit']
+          : ['match', 'Matches the main image'];
+
+    return {
+      verdict,
+      message,
+      similarity,
+      regionDifference: Math.round(regionDifference * 100) / 100,
+      aspectRatio: Math.round(aspectRatio * 1000) / 1000,
+      mainAspectRatio: Math.round(main.aspectRatio * 1000) / 1000
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { MetadataModel, CleanedField } from './MetadataModel';
+import { TagRegistry } from './TagRegistry';
+
+/**
+ * How much a finding reveals about the photographer or subject
+ */
+export type PrivacySeverity = 'high' | 'medium' | 'low';
+
+/**
+ * A category of sensitive metadata found in an image
+ */
+export interface PrivacyFinding {
+  id: string;
+  severity: PrivacySeverity;
+  title: string;
+  explanation: string;     // Why the data is sensitive
+  fields: CleanedField[];  // Fields that triggered the finding
+}
+
+/**
+ * Result of analyzing an image for privacy risks
+ */
+export interface PrivacyReport {
+  score: number;                       // 0 (nothing found) to 100 (severe exposure)
+  level: PrivacySeverity | 'none';     // Highest severity among the findings
+  findings: PrivacyFinding[];          // Sorted from most to least severe
+}
+
+/**
+ * Definition of a privacy check over the cleaned fields
+ */
+interface PrivacyRule {
+  id: string;
+  severity: PrivacySeverity;
+  title: string;
+  explanation: string;
+  matches: (field: CleanedField) => boolean;
+}
+
+// Contribution of each finding to the score
+const SEVERITY_WEIGHTS: Record<PrivacySeverity, number> = { high: 40, medium: 20, low: 5 };
+
+// Severities from most to least severe
+const SEVERITY_ORDER: PrivacySeverity[] = ['high', 'medium', 'low'];
+
+/**
+ * Privacy checks, in the order findings are listed within a severity
+ */
+const PRIVACY_RULES: PrivacyRule[] = [
+  {
+    id: 'gps-position',
+    severity: 'high',
+    title: 'Precise location',
+    explanation: 'GPS coordinates place where the photo was taken to within a few metres, which can reveal a home, workplace or routine.',
+    matches: ({ name }) => /^GPS(Latitude|Longitude|Coordinates)$/.test(name)
+  },
+  {
+    id: 'people',
+    severity: 'high',
+    title: 'Tagged faces and people',
+    explanation: 'Face regions and person tags name the people in the photo and mark where they appear.',
+    matches: ({ name, group }) => group === 'xmp' && /^(Regions|RegionInfo|RegionList|PersonInImage|PersonInImageWDetails)$/.test(name)
+  },
+  {
+    id: 'gps-altitude',
+    severity: 'medium',
+    title: 'Altitude',
+    explanation: 'Altitude narrows the location further, for example to a floor of a building.',
+    matches: ({ name }) => name === 'GPSAltitude'
+  },
+  {
+    id: 'gps-direction',
+    severity: 'medium',
+    title: 'Camera direction',
+    explanation: 'The compass direction the camera was pointing, or moving in, shows what was photographed from where.',
+    matches: ({ name }) => /^GPS(ImgDirection|DestBearing|Track)$/.test(name)
+  },
+  {
+    id: 'serial-numbers',
+    severity: 'medium',
+    title: 'Camera and lens serial numbers',
+    explanation: 'Serial numbers identify the exact camera body or lens, linking this photo to every other photo taken with it and to its registered owner.',
+    matches: ({ name }) => /serial/i.test(name)
+  },
+  {
+    id: 'owner-names',
+    severity: 'medium',
+    title: 'Owner and artist names',
+    explanation: 'The photographer or camera owner is named directly in the file.',
+    matches: ({ name }) => /^(Artist|CameraOwnerName|OwnerName|By-line|creator|CreatorContactInfo|Writer\/Editor|Contact)$/.test(name)
+  },
+  {
+    id: 'unique-ids',
+    severity: 'medium',
+    title: 'Unique identifiers',
+    explanation: 'Unique image and document IDs can link this file to the original and to other copies or edits of it.',
+    matches: ({ name }) => /^(ImageUniqueID|DocumentID|OriginalDocumentID|InstanceID|ContentIdentifier|BurstUUID|MediaGroupUUID)$/.test(name)
+  },
+  {
+    id: 'thumbnails',
+    severity: 'medium',
+    title: 'Embedded previews',
+    explanation: 'Embedded thumbnails and preview images are often not updated by editors and may still show the uncropped or unretouched original.',
+    matches: ({ name, group }) =>
+      (group === 'thumbnail' && name === 'JPEGInterchangeFormatLength') || (group === 'mpf' && name === 'Images')
+  },
+  {
+    id: 'edit-history',
+    severity: 'low',
+    title: 'Edit history',
+    explanation: 'The XMP history lists the software, times and sometimes original file names of every edit.',
+    matches: ({ name, group }) => group === 'xmp' && /^(History|DerivedFrom|Ingredients|Pantry)$/.test(name)
+  },
+  {
+    id: 'copyright',
+    severity: 'low',
+    title: 'Copyright notice',
+    explanation: 'Copyright and rights statements usually name the rights holder.',
+    matches: ({ name }) => /^(Copyright|Copyright Notice|rights)$/.test(name)
+  }
+];
+
+/**
+ * Checks for the fields the tag registry marks as sensitive that no check above covers
+ */
+const REGISTRY_RULES: PrivacyRule[] = SEVERITY_ORDER.map((severity) => ({
+  id: `registered-${severity}`,
+  severity,
+  title: 'Other identifying fields',
+  explanation: 'These fields are known to reveal details about the photographer, the people or places shown, or the device used.',
+  matches: (field) =>
+    TagRegistry.getDefinition(field.name, field.group)?.sensitivity === severity &&
+    !PRIVACY_RULES.some((rule) => rule.matches(field))
+}));
+
+/**
+ * Service class for assessing what an image's metadata reveals
+ *
+ * Each check looks for a category of sensitive fields in the cleaned
+ * metadata; fields the tag registry marks as sensitive are reported even
+ * when no check covers them. The score adds up the weight of every finding, capped at 100.
+ */
+export class PrivacyService {
+  /**
+   * Analyzes an image's metadata for privacy risks
+   *
+   * @param metadata - Parsed metadata
+   * @returns Score, overall level and findings with the fields behind them
+   */
+  public static analyze(metadata: MetadataModel): PrivacyReport {
+    const fields = Object.values(metadata.cleaned);
+
+    const findings = [...PRIVACY_RULES, ...REGISTRY_RULES]
+      .map((rule): PrivacyFinding => ({
+        id: rule.id,
+        severity: rule.severity,
+        title: rule.title,
+        explanation: rule.explanation,
+        fields: fields.filter(rule.matches)
+      }))
+      .filter((finding) => finding.fields.length > 0)
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    const score = Math.min(100, findings.reduce((sum, finding) => sum + SEVERITY_WEIGHTS[finding.severity], 0));
+
+    return {
+      score,
+      level: findings[0]?.severity ?? 'none',
+      findings
+    };
+  }
+
+  /**
+   * Tells whether any privacy check flags a field
+   *
+   * @param field - Cleaned field, or a raw tag with its description as value
+   * @returns True if the field reveals something sensitive
+   */
+  public static isSensitive(field: CleanedField): boolean {
+    return [...PRIVACY_RULES, ...REGISTRY_RULES].some((rule) => rule.matches(field));
+  }
+}
@@ -0,0 +1,363 @@
+import { MetadataData, MetadataGroup, METADATA_GROUPS } from './MetadataModel';
+
+/**
+ * Kind of value a node of the raw tree holds, shown as its badge
+ */
+export type RawValueType =
+  | 'group'     // Metadata group such as EXIF or XMP
+  | 'object'
+  | 'array'
+  | 'range'     // Slice of a long array, so it can be expanded part by part
+  | 'rational'  // Numerator/denominator pair, or an XMP "n/d" string
+  | 'ascii'     // Text of a TIFF-based or IPTC tag
+  | 'string'
+  | 'bytes'     // Long array of byte values, such as an undecoded MakerNote
+  | 'number'
+  | 'boolean'
+  | 'null';
+
+/**
+ * A visible row of the raw tree
+ */
+export interface RawTreeNode {
+  path: string;         // JavaScript path of the value from the raw metadata root, e.g. exif.Make.value[0]
+  label: string;        // Group label, key or array index
+  depth: number;        // Nesting level; groups are 0, tags 1
+  type: RawValueType;
+  preview: string;      // One-line summary of the value
+  value: unknown;       // Value the node stands for
+  expandable: boolean;  // Whether the node has children
+  expanded: boolean;
+  tag?: { group: MetadataGroup; name: string };  // Tag the node describes, for tag nodes
+}
+
+/**
+ * A tag to reveal in the raw tree
+ */
+export interface RawTreeFocus {
+  group: MetadataGroup;
+  name: string;
+}
+
+// Groups whose text values are plain ASCII by their standard
+const ASCII_GROUPS: MetadataGroup[] = ['exif', 'gps', 'thumbnail', 'iptc', 'makerNotes'];
+
+// Arrays longer than this are split into ranges of this many items
+const RANGE_SIZE = 100;
+
+// Number arrays at least this long, with values 0-255, are shown as bytes
+const MIN_BYTES = 16;
+
+// Characters allowed in a path segment written with a dot
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Context a value is classified in
+ */
+interface ValueContext {
+  group: MetadataGroup;
+  description?: string;  // Description of the tag the value belongs to, if it is a tag value
+  inPairArray: boolean;  // Whether the value is an item of an array of number pairs
+}
+
+/**
+ * Service class turning raw metadata into the rows of a collapsible tree
+ *
+ * Only the rows of expanded nodes are produced, so the cost of a render
+ * depends on what is open rather than on the size of the metadata.
+ */
+export class RawTreeService {
+  /**
+   * Lists the visible rows of the tree
+   *
+   * Groups start expanded and everything else collapsed; a path in
+   * `toggled` flips the state of its node.
+   *
+   * @param raw - Raw metadata
+   * @param toggled - Paths of the nodes the user expanded or collapsed
+   * @returns Visible rows in display order
+   */
+  public static flatten(raw: MetadataData, toggled: ReadonlySet<string>): RawTreeNode[] {
+    const rows: RawTreeNode[] = [];
+
+    (Object.keys(METADATA_GROUPS) as MetadataGroup[]).forEach((group) => {
+      const tags = raw[group];
+      const names = Object.keys(tags ?? {});
+      if (!tags || names.length === 0) return;
+
+      const expanded = !toggled.has(group);
+      rows.push({
+        path: group,
+        label: METADATA_GROUPS[group],
+        depth: 0,
+        type: 'group',
+        preview: `${names.length} ${names.length === 1 ? 'tag' : 'tags'}`,
+        value: tags,
+        expandable: true,
+        expanded
+      });
+      if (!expanded) return;
+
+      names.forEach((name) => {
+        const tag = tags[name];
+        const path = this.appendKey(group, name);
+        const isExpanded = toggled.has(path);
+        rows.push({
+          path,
+          label: name,
+          depth: 1,
+          type: this.classify(tag.value, { group, description: String(tag.description), inPairArray: false }),
+          preview: String(tag.description),
+          value: tag,
+          expandable: true,
+          expanded: isExpanded,
+          tag: { group, name }
+        });
+        if (isExpanded) {
+          Object.entries(tag).forEach(([key, value]) => {
+            const context = { group, description: key === 'value' ? String(tag.description) : undefined, inPairArray: false };
+            this.addValue(rows, this.appendKey(path, key), key, value, 2, context, toggled);
+          });
+        }
+      });
+    });
+
+    return rows;
+  }
+
+  /**
+   * Returns the path of a tag node
+   *
+   * @param group - Group of the tag
+   * @param name - Tag name
+   * @returns Path as used in the rows
+   */
+  public static getTagPath(group: MetadataGroup, name: string): string {
+    return this.appendKey(group, name);
+  }
+
+  /**
+   * Returns the text copied for a node's value
+   *
+   * @param node - Tree row
+   * @returns Strings as they are, anything else as indented JSON
+   */
+  public static getCopyText(node: RawTreeNode): string {
+    return typeof node.value === 'string' ? node.value : JSON.stringify(node.value, null, 2) ?? String(node.value);
+  }
+
+  /**
+   * Formats a rational as its fraction and decimal value
+   *
+   * @param numerator - Numerator
+   * @param denominator - Denominator
+   * @returns Text such as "1/200 (0.005)"
+   */
+  public static formatRational(numerator: number, denominator: number): string {
+    if (denominator === 0) return `${numerator}/0 (undefined)`;
+    return `${numerator}/${denominator} (${Number((numerator / denominator).toPrecision(6))})`;
+  }
+
+  /**
+   * Adds a value and, when it is expanded, its children to the rows
+   *
+   * @param rows - Rows collected so far
+   * @param path - Path of the value
+   * @param label - Key or index of the value
+   * @param value - Value to add
+   * @param depth - Nesting level of the value
+   * @param context - Context the value is classified in
+   * @param toggled - Paths of the nodes the user expanded or collapsed
+   */
+  private static addValue(
+    rows: RawTreeNode[],
+    path: string,
+    label: string,
+    value: unknown,
+    depth: number,
+    context: ValueContext,
+    toggled: ReadonlySet<string>
+  ): void {
+    const type = this.classify(value, context);
+    const children = this.getChildren(path, value, type);
+    const expanded = children.length > 0 && toggled.has(path);
+    rows.push({ path, label, depth, type, preview: this.preview(value, type), value, expandable: children.length > 0, expanded });
+    if (!expanded) return;
+
+    const inPairArray = Array.isArray(value) && value.length > 0 && value.every((item) => this.isPair(item));
+    children.forEach(([childPath, childLabel, childValue, rangeStart]) => {
+      if (rangeStart !== undefined) {
+        this.addRange(rows, path, rangeStart, childValue as unknown[], depth + 1, { group: context.group, inPairArray }, toggled);
+      } else {
+        this.addValue(rows, childPath, childLabel, childValue, depth + 1, { group: context.group, inPairArray }, toggled);
+      }
+    });
+  }
+
+  /**
+   * Adds a slice of a long array and, when it is expanded, its items to the rows
+   *
+   * @param rows - Rows collected so far
+   * @param arrayPath - Path of the whole array
+   * @param start - Index of the first item of the slice in the whole array
+   * @param items - Items of the slice
+   * @param depth - Nesting level of the range
+   * @param context - Context the items are classified in
+   * @param toggled - Paths of the nodes the user expanded or collapsed
+   */
+  private static addRange(
+    rows: RawTreeNode[],
+    arrayPath: string,
+    start: number,
+    items: unknown[],
+    depth: number,
+    context: ValueContext,
+    toggled: ReadonlySet<string>
+  ): void {
+    const label = `[${start}…${start + items.length - 1}]`;
+    const path = `${arrayPath}${label}`;
+    const expanded = toggled.has(path);
+    rows.push({ path, label, depth, type: 'range', preview: `${items.length} items`, value: items, expandable: true, expanded });
+    if (!expanded) return;
+
+    items.forEach((item, offset) => {
+      this.addValue(rows, `${arrayPath}[${start + offset}]`, String(start + offset), item, depth + 1, context, toggled);
+    });
+  }
+
+  /**
+   * Lists the children of a value
+   *
+   * @param path - Path of the value
+   * @param value - Value whose children to list
+   * @param type - Type the value was classified as
+   * @returns Path, label and value per child, and for ranges the index of their first item
+   */
+  private static getChildren(path: string, value: unknown, type: RawValueType): Array<[string, string, unknown, number?]> {
+    if (type === 'rational' || value === null || typeof value !== 'object') {
+      return [];
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length <= RANGE_SIZE) {
+        return value.map((item, index) => [`${path}[${index}]`, String(index), item]);
+      }
+      const ranges: Array<[string, string, unknown, number]> = [];
+      for (let start = 0; start < value.length; start += RANGE_SIZE) {
+        ranges.push(['', '', value.slice(start, start + RANGE_SIZE), start]);
+      }
+      return ranges;
+    }
+
+    return Object.entries(value).map(([key, item]) => [this.appendKey(path, key), key, item]);
+  }
+
+  /**
+   * Determines the type of a value
+   *
+   * The reader library gives single rationals as [numerator, denominator]
+   * without their TIFF type, so a number pair counts as a rational only
+   * when it sits in an array of pairs or the tag's description shows its
+   * quotient or fraction; other pairs, such as YCbCrSubSampling, stay arrays.
+   *
+   * @param value - Value to classify
+   * @param context - Where the value was found
+   * @returns Type of the value
+   */
+  private static classify(value: unknown, context: ValueContext): RawValueType {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'string') {
+      if (/^-?\d+\/\d+$/.test(value)) return 'rational';
+      return ASCII_GROUPS.includes(context.group) ? 'ascii' : 'string';
+    }
+    if (Array.isArray(value)) {
+      if (this.isPair(value) && (context.inPairArray || this.describesRational(value as [number, number], context.description))) {
+        return 'rational';
+      }
+      if (value.length > 0 && value.every((item) => typeof item === 'string')) {
+        return ASCII_GROUPS.includes(context.group) ? 'ascii' : 'array';
+      }
+      if (value.length >= MIN_BYTES && value.every((item) => Number.isInteger(item) && item >= 0 && item <= 255)) {
+        return 'bytes';
+      }
+      return 'array';
+    }
+    return 'object';
+  }
+
+  /**
+   * Checks whether a value is an array of exactly two numbers
+   *
+   * @param value - Value to check
+   * @returns True for a number pair
+   */
+  private static isPair(value: unknown): boolean {
+    return Array.isArray(value) && value.length === 2 && value.every((item) => typeof item === 'number');
+  }
+
+  /**
+   * Checks whether a tag description shows a number pair as a rational
+   *
+   * @param pair - Numerator and denominator
+   * @param description - Tag description
+   * @returns True if the description holds the fraction or its quotient
+   */
+  private static describesRational([numerator, denominator]: [number, number], description?: string): boolean {
+    if (!description || denominator === 0) return false;
+    if (description.includes(`${numerator}/${denominator}`)) return true;
+
+    const shown = description.match(/-?\d+(\.\d+)?/);
+    const quotient = numerator / denominator;
+    return shown !== null && Math.abs(Number(shown[0]) - quotient) <= Math.max(0.01, Math.abs(quotient) * 0.01);
+  }
+
+  /**
+   * Summarizes a value on one line
+   *
+   * @param value - Value to summarize
+   * @param type - Type of the value
+   * @returns Summary text
+   */
+  private static preview(value: unknown, type: RawValueType): string {
+    switch (type) {
+      case 'rational': {
+        if (typeof value === 'string') {
+          const [numerator, denominator] = value.split('/').map(Number);
+          return this.formatRational(numerator, denominator);
+        }
+        const [numerator, denominator] = value as [number, number];
+        return this.formatRational(numerator, denominator);
+      }
+      case 'bytes': {
+        const bytes = value as number[];
+        const hex = bytes.slice(0, 16).map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+        return `${bytes.length} bytes: ${hex}${bytes.length > 16 ? ' …' : ''}`;
+      }
+      case 'array': {
+        const items = value as unknown[];
+        return `[${items.length} ${items.length === 1 ? 'item' : 'items'}]`;
+      }
+      case 'object':
+        return `{${Object.keys(value as object).length} keys}`;
+      case 'ascii':
+        return Array.isArray(value) ? value.map((item) => JSON.stringify(item)).join(', ') : JSON.stringify(value);
+      case 'string':
+        return JSON.stringify(value);
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Appends a key to a path, quoting it unless it is a plain identifier
+   *
+   * @param path - Path so far
+   * @param key - Key to append
+   * @returns Extended path, e.g. exif.Make or file["Image Width"]
+   */
+  private static appendKey(path: string, key: string): string {
+    return IDENTIFIER.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+  }
+}
@@ -0,0 +1,385 @@
+import { version } from '../../package.json';
+import { MetadataModel, CleanedField, LocationCoordinates, METADATA_GROUPS } from './MetadataModel';
+import { TagRegistry } from './TagRegistry';
+import { MetadataFilterService } from './MetadataFilterService';
+import { ExportService } from './ExportService';
+import { GeocodingService } from './GeocodingService';
+import { MapProviderService } from './MapProviderService';
+import { WorldOutlineService, MapBounds } from './WorldOutlineService';
+import { HashService } from './HashService';
+
+/**
+ * How the image appears in a report
+ */
+export type ReportImageMode = 'original' | 'downscaled' | 'blurred' | 'none';
+
+/**
+ * Labels and descriptions of the image options, in display order
+ */
+export const REPORT_IMAGE_MODES: Record<ReportImageMode, { label: string; description: string }> = {
+  original: { label: 'Original image', description: 'Embeds the file itself, at full size and with its metadata' },
+  downscaled: { label: 'Downscaled preview', description: 'A smaller re-encoded copy without metadata' },
+  blurred: { label: 'Blurred preview', description: 'Shows the composition only, for images that must not be shared' },
+  none: { label: 'No image', description: 'The report holds the metadata only' }
+};
+
+/**
+ * Options for generating a report
+ */
+export interface ReportOptions {
+  image: ReportImageMode;
+}
+
+// Longest side of the downscaled preview in pixels
+const PREVIEW_SIZE = 1024;
+
+// Longest side the blurred preview is reduced to before it is enlarged again
+const BLUR_SIZE = 24;
+
+// Types every browser can show, which the original image is embedded as
+const EMBEDDABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Width in degrees of the regional map, as in the offline map
+const REGION_SPAN = 40;
+
+// The world repeats on both sides so views near the antimeridian stay filled
+const WORLD_COPIES = [-360, 0, 360];
+
+/**
+ * Styles of the report, for the screen and for printing to PDF
+ */
+const REPORT_STYLES = `
+  :root { color-scheme: light; }
+  body { margin: 0; font: 14px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; background: #f3f4f6; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 24px; background: #fff; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #e5e7eb; }
+  h3 { font-size: 15px; margin: 20px 0 6px; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .mono { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { width: 30%; font-weight: 600; }
+  td { word-break: break-word; }
+  .preview { text-align: center; }
+  .preview img { max-width: 100%; max-height: 480px; border: 1px solid #e5e7eb; }
+  .location { padding: 8px 12px; background: #eff6ff; border: 1px solid #dbeafe; border-radius: 6px; }
+  .location dl { display: grid; grid-template-columns: auto 1fr; gap: 2px 12px; margin: 8px 0; font-size: 12px; }
+  .location dt { color: #6b7280; }
+  .location dd { margin: 0; }
+  .maps { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; margin-top: 8px; }
+  .maps svg { width: 100%; height: auto; background: #f0f9ff; border: 1px solid #e5e7eb; border-radius: 6px; }
+  pre { font-size: 11px; white-space: pre-wrap; word-break: break-all; background: #f9fafb; padding: 12px; border: 1px solid #e5e7eb; }
+  footer { margin-top: 32px; }
+  @page { size: A4; margin: 15mm; }
+  @media print {
+    body { background: #fff; font-size: 11pt; }
+    main { max-width: none; padding: 0; }
+    h2, h3 { break-after: avoid; }
+    tr, .preview, .location, .maps { break-inside: avoid; }
+    .appendix { break-before: page; }
+    pre { font-size: 7pt; border: none; padding: 0; background: none; }
+    .location, .maps svg { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+/**
+ * Escapes text for use in HTML content and attributes
+ *
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Service class for self-contained metadata reports
+ *
+ * A report is a single HTML file with the image, its fingerprint, the
+ * categorized cleaned metadata, the location on an offline map and the full
+ * raw dump, so it can be attached to a ticket or printed to PDF. It loads
+ * nothing from the network, and records when and with which version of the
+ * tool it was generated.
+ */
+export class ReportService {
+  /**
+   * Generates the report of an image
+   *
+   * @param file - Image file the metadata was read from
+   * @param fileName - Name to show for the image
+   * @param metadata - Its parsed metadata
+   * @param options - What to include
+   * @returns HTML document
+   */
+  public static async generate(file: File, fileName: string, metadata: MetadataModel, options: ReportOptions): Promise<string> {
+    const [hash, image] = await Promise.all([HashService.sha256(file), this.getImage(file, options.image)]);
+    const generatedAt = new Date();
+    const location = Object.values(metadata.cleaned).find((field) => typeof field.value === 'object' && 'latitude' in field.value);
+    const countryPaths = location ? await WorldOutlineService.loadCountryPaths() : null;
+
+    const fileRows: Array<[string, string]> = [
+      ['File name', fileName],
+      ['SHA-256', hash],
+      ['Size', `${file.size.toLocaleString('en-US')} bytes`],
+      ['Type', file.type || 'Unknown'],
+      ['Last modified', file.lastModified ? new Date(file.lastModified).toISOString() : 'Unknown']
+    ];
+
+    const categories = TagRegistry.groupByCategory(Object.entries(metadata.cleaned)).map(([category, fields]) => `
+      <h3>${escapeHtml(TagRegistry.getCategoryConfig(category).label)} <span class="muted">(${fields.length})</span></h3>
+      <table>${fields.map(([, field]) => this.renderField(field, countryPaths)).join('')}</table>`);
+
+    const imageSection = options.image === 'none' ? '' : `
+      <h2>Image</h2>
+      <div class="preview">
+        ${image
+          ? `<img src="${image}" alt="${escapeHtml(fileName)}">
+             <div class="muted">${escapeHtml(REPORT_IMAGE_MODES[options.image].label)}</div>`
+          : '<p class="muted">This browser cannot display the image.</p>'}
+      </div>`;
+
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Metadata Parser ${escapeHtml(version)}">
+<title>Metadata report: ${escapeHtml(fileName)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${countryPaths ? this.renderCountryDefinitions(countryPaths) : ''}
+<main>
+  <header>
+    <h1>Metadata report</h1>
+    <div class="mono">${escapeHtml(fileName)}</div>
+    <div class="muted">Generated ${escapeHtml(generatedAt.toISOString())} (${escapeHtml(generatedAt.toString())}) by Metadata Parser ${escapeHtml(version)}</div>
+  </header>
+  ${imageSection}
+  <h2>File</h2>
+  <table>${fileRows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td class="mono">${escapeHtml(value)}</td></tr>`).join('')}</table>
+  <h2>Metadata</h2>
+  ${categories.length > 0 ? categories.join('') : '<p class="muted">No metadata found.</p>'}
+  <section class="appendix">
+    <h2>Appendix: raw metadata</h2>
+    <p class="muted">Every tag as read from the file, before cleaning.</p>
+    <pre>${escapeHtml(ExportService.toJson(metadata, 'raw'))}</pre>
+  </section>
+  <footer class="muted">
+    Generated locally in the browser; neither the image nor its metadata were uploaded.
+    The SHA-256 hash identifies the exact file this report describes.
+  </footer>
+</main>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Opens the print dialog for a report, so it can be saved as PDF
+   *
+   * The report is printed from a hidden frame, which is removed afterwards.
+   *
+   * @param html - Report document
+   */
+  public static print(html: string): void {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) return;
+      view.addEventListener('afterprint', () => frame.remove());
+      view.focus();
+      view.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  }
+
+  /**
+   * Renders a cleaned field as a table row
+   *
+   * @param field - Cleaned field
+   * @param countryPaths - Country outlines for the location maps, if loaded
+   * @returns HTML of the row
+   */
+  private static renderField(field: CleanedField, countryPaths: string[] | null): string {
+    const { name, group, value } = field;
+    const label = TagRegistry.getLabel(name, group);
+    const content = typeof value === 'object' && 'latitude' in value
+      ? this.renderLocation(value, countryPaths ?? [])
+      : escapeHtml(MetadataFilterService.getDisplayText(field));
+
+    return `<tr>
+      <th>${escapeHtml(label)}<div class="muted mono">${escapeHtml(name)} · ${escapeHtml(METADATA_GROUPS[group])}</div></th>
+      <td>${content}</td>
+    </tr>`;
+  }
+
+  /**
+   * Renders the location block with its place, GPS details and maps
+   *
+   * @param coordinates - Location of the image
+   * @param countryPaths - Country outlines for the maps
+   * @returns HTML of the block
+   */
+  private static renderLocation(coordinates: LocationCoordinates, countryPaths: string[]): string {
+    const { latitude, longitude, place } = coordinates;
+    const details = MapProviderService.getFixDetails(coordinates);
+    const world = { west: -180, south: -90, east: 180, north: 90 };
+
+    return `<div class="location">
+      <div><strong>${escapeHtml(coordinates.formatted)}</strong></div>
+      ${place
+        ? `<div>${escapeHtml(GeocodingService.formatPlace(place))}
+             <span class="muted">${place.distance < 1 ? '(nearby)' : `(${place.distance} km away)`}</span></div>`
+        : ''}
+      <div class="muted mono">Lat: ${latitude}, Lng: ${longitude}</div>
+      ${details.length > 0
+        ? `<dl>${details.map(([label, detail]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(detail)}</dd>`).join('')}</dl>`
+        : ''}
+      ${countryPaths.length > 0
+        ? `<div class="maps">
+             ${this.renderMap(world, coordinates, 'Location on a world map')}
+             ${this.renderMap(WorldOutlineService.getBounds(latitude, longitude, REGION_SPAN), coordinates, 'Location on a regional map')}
+           </div>`
+        : ''}
+    </div>`;
+  }
+
+  /**
+   * Renders the country outlines once, for the maps to reference
+   *
+   * @param countryPaths - One path per country
+   * @returns HTML of an invisible SVG holding the outlines
+   */
+  private static renderCountryDefinitions(countryPaths: string[]): string {
+    return `<svg width="0" height="0" style="position:absolute" aria-hidden="true"><defs><g id="countries" fill="#e5e7eb" stroke="#9ca3af">
+      ${countryPaths.map((path) => `<path d="${path}" stroke-width="0.5" vector-effect="non-scaling-stroke"/>`).join('')}
+    </g></defs></svg>`;
+  }
+
+  /**
+   * Renders one view of the offline map with the location marked
+   *
+   * @param bounds - Area to show
+   * @param coordinates - Location to mark
+   * @param title - Accessible title of the map
+   * @returns HTML of the SVG image
+   */
+  private static renderMap(bounds: MapBounds, coordinates: LocationCoordinates, title: string): string {
+    const span = bounds.east - bounds.west;
+    const markerRadius = span / 90;
+    const x = coordinates.longitude;
+    const y = -coordinates.latitude;
+    const accuracy = MapProviderService.getAccuracyRadius(coordinates);
+    const accuracySize = accuracy && MapProviderService.metresToDegrees(coordinates.latitude, accuracy.metres);
+
+    return `<svg viewBox="${WorldOutlineService.toViewBox(bounds)}" role="img" aria-label="${escapeHtml(title)}">
+      <title>${escapeHtml(title)}</title>
+      ${WORLD_COPIES.map((offset) => `<use href="#countries" transform="translate(${offset} 0)"/>`).join('')}
+      ${accuracySize
+        ? `<ellipse cx="${x}" cy="${y}" rx="${accuracySize.x}" ry="${accuracySize.y}" fill="#2563eb" fill-opacity="0.12"
+             stroke="#2563eb" stroke-opacity="0.6" vector-effect="non-scaling-stroke"/>`
+        : ''}
+      ${coordinates.imgDirection !== undefined
+        ? `<path d="${MapProviderService.getDirectionConePath(x, y, coordinates.imgDirection, span / 12)}" fill="#f59e0b"
+             fill-opacity="0.35" stroke="#d97706" vector-effect="non-scaling-stroke"/>`
+        : ''}
+      <circle cx="${x}" cy="${y}" r="${markerRadius * 2.5}" fill="#2563eb" fill-opacity="0.2"/>
+      <circle cx="${x}" cy="${y}" r="${markerRadius}" fill="#2563eb" stroke="white" stroke-width="1.5" vector-effect="non-scaling-stroke"/>
+    </svg>`;
+  }
+
+  /**
+   * Prepares the image for embedding
+   *
+   * @param file - Image file
+   * @param mode - How the image should appear
+   * @returns Data URL of the image, or null when it is left out or cannot be decoded
+   */
+  private static async getImage(file: File, mode: ReportImageMode): Promise<string | null> {
+    switch (mode) {
+      case 'original':
+        return EMBEDDABLE_TYPES.includes(file.type) ? this.readAsDataUrl(file) : this.drawImage(file, Infinity, Infinity);
+      case 'downscaled':
+        return this.drawImage(file, PREVIEW_SIZE, PREVIEW_SIZE);
+      case 'blurred':
+        // Enlarging a tiny copy blurs it in every browser, unlike canvas filters
+        return this.drawImage(file, BLUR_SIZE, PREVIEW_SIZE);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Reads a file as a data URL
+   *
+   * @param file - File to read
+   * @returns Data URL with the file's bytes
+   */
+  private static readAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+
+  /**
+   * Re-encodes an image as JPEG, reduced and then enlarged to the given sizes
+   *
+   * @param file - Image to draw
+   * @param sampleSize - Longest side the image is reduced to
+   * @param outputSize - Longest side of the result; larger than sampleSize to blur
+   * @returns Data URL of the JPEG, or null if the browser cannot decode the image
+   */
+  private static async drawImage(file: Blob, sampleSize: number, outputSize: number): Promise<string | null> {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      return null;
+    }
+
+    try {
+      const longest = Math.max(bitmap.width, bitmap.height);
+      const sample = this.createCanvas(bitmap.width, bitmap.height, Math.min(1, sampleSize / longest));
+      const output = this.createCanvas(bitmap.width, bitmap.height, Math.min(1, outputSize / longest));
+      const sampleContext = sample.getContext('2d');
+      const outputContext = output.getContext('2d');
+      if (!sampleContext || !outputContext) return null;
+
+      sampleContext.imageSmoothingQuality = 'high';
+      sampleContext.drawImage(bitmap, 0, 0, sample.width, sample.height);
+      outputContext.imageSmoothingQuality = 'high';
+      outputContext.drawImage(sample, 0, 0, output.width, output.height);
+      return output.toDataURL('image/jpeg', 0.9);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Creates a canvas for an image at a scale
+   *
+   * @param width - Image width in pixels
+   * @param height - Image height in pixels
+   * @param scale - Factor to scale the image by
+   * @returns Canvas of the scaled size, at least one pixel wide and high
+   */
+  private static createCanvas(width: number, height: number, scale: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    return canvas;
+  }
+}
@@ -0,0 +1,214 @@
+import { JpegSegment, JpegSegments } from './JpegSegments';
+import { TiffEditor, IfdName } from './TiffEditor';
+import { IptcEditor, IptcDatasetId } from './IptcEditor';
+import { XmpEditor, XmpPropertyMatcher, XMP_NAMESPACES } from './XmpEditor';
+
+/**
+ * Groups of metadata that can be removed from an image
+ *
+ * 'location', 'serial' and 'copyright' match the categories used by DataDisplay.
+ */
+export type SanitizeGroup = 'location' | 'serial' | 'copyright' | 'xmp' | 'makerNotes' | 'thumbnail' | 'all';
+
+/**
+ * Human-readable description of each sanitize group for the UI
+ */
+export const SANITIZE_GROUPS: Record<SanitizeGroup, { label: string; description: string }> = {
+  location: { label: 'Location & GPS', description: 'GPS block, IPTC place names and XMP location fields' },
+  serial: { label: 'Serial Numbers', description: 'Body and lens serial numbers and unique image IDs' },
+  copyright: { label: 'Owner & Artist', description: 'Artist, copyright, camera owner and creator fields' },
+  xmp: { label: 'XMP', description: 'The complete XMP packet, including edit history' },
+  makerNotes: { label: 'Maker Notes', description: 'Proprietary manufacturer data' },
+  thumbnail: { label: 'Embedded Previews', description: 'EXIF thumbnail and multi-picture preview images' },
+  all: { label: 'Everything', description: 'All metadata except the colour profile' }
+};
+
+/**
+ * EXIF tags to remove for each group, by the IFD they live in
+ */
+const EXIF_TAGS: Partial<Record<SanitizeGroup, Array<[IfdName, number]>>> = {
+  serial: [
+    ['ifd0', 0xC62F], // CameraSerialNumber (DNG)
+    ['exif', 0xA420], // ImageUniqueID
+    ['exif', 0xA431], // BodySerialNumber
+    ['exif', 0xA435]  // LensSerialNumber
+  ],
+  copyright: [
+    ['ifd0', 0x013B], // Artist
+    ['ifd0', 0x8298], // Copyright
+    ['ifd0', 0x9C9D], // XPAuthor
+    ['exif', 0xA430]  // CameraOwnerName
+  ],
+  makerNotes: [
+    ['exif', 0x927C]  // MakerNote
+  ]
+};
+
+/**
+ * IPTC datasets (record 2) to remove for each group
+ */
+const IPTC_DATASETS: Partial<Record<SanitizeGroup, number[]>> = {
+  location: [26, 90, 92, 95, 100, 101], // Location code, City, Sub-location, Province, Country code, Country
+  copyright: [80, 85, 110, 115, 116, 118] // By-line, By-line title, Credit, Source, Copyright notice, Contact
+};
+
+/**
+ * XMP properties to remove for each group when the packet itself is kept
+ */
+const XMP_PROPERTIES: Partial<Record<SanitizeGroup, XmpPropertyMatcher[]>> = {
+  location: [
+    { namespace: XMP_NAMESPACES.exif, prefix: 'GPS' },
+    { namespace: XMP_NAMESPACES.photoshop, names: ['City', 'State', 'Country'] },
+    { namespace: XMP_NAMESPACES.Iptc4xmpCore, names: ['Location', 'CountryCode'] },
+    { namespace: XMP_NAMESPACES.Iptc4xmpExt, names: ['LocationCreated', 'LocationShown'] }
+  ],
+  serial: [
+    { namespace: XMP_NAMESPACES.aux, names: ['SerialNumber', 'LensSerialNumber', 'ImageNumber'] },
+    { namespace: XMP_NAMESPACES.exifEX, names: ['BodySerialNumber', 'LensSerialNumber'] },
+    { namespace: XMP_NAMESPACES.exif, names: ['ImageUniqueID'] },
+    { namespace: XMP_NAMESPACES.xmpMM, names: ['DocumentID', 'InstanceID', 'OriginalDocumentID'] }
+  ],
+  copyright: [
+    { namespace: XMP_NAMESPACES.dc, names: ['creator', 'rights'] },
+    { namespace: XMP_NAMESPACES.xmpRights, prefix: '' },
+    { namespace: XMP_NAMESPACES.photoshop, names: ['AuthorsPosition', 'Credit', 'Source'] },
+    { namespace: XMP_NAMESPACES.Iptc4xmpCore, names: ['CreatorContactInfo'] },
+    { namespace: XMP_NAMESPACES.aux, names: ['OwnerName'] },
+    { namespace: XMP_NAMESPACES.exifEX, names: ['CameraOwnerName'] }
+  ]
+};
+
+// Segments that are kept when removing everything: they affect how the image is decoded or displayed
+const ESSENTIAL_SEGMENT_KINDS = new Set(['jfif', 'icc', 'adobe']);
+
+/**
+ * Service class for writing copies of images with selected metadata removed
+ *
+ * Sanitizing works on the JPEG marker segments directly, so the compressed
+ * image data is copied byte for byte and the picture is never re-encoded.
+ */
+export class SanitizerService {
+  /**
+   * Creates a sanitized copy of an image file
+   *
+   * @param file - Image file to sanitize
+   * @param groups - Metadata groups to remove
+   * @returns Promise resolving to the sanitized image
+   * @throws Error if the file is not a JPEG or its metadata cannot be rewritten
+   */
+  public static async sanitize(file: Blob, groups: SanitizeGroup[]): Promise<Blob> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return new Blob([this.sanitizeBytes(bytes, groups)], { type: 'image/jpeg' });
+  }
+
+  /**
+   * Removes the selected metadata groups from JPEG file contents
+   *
+   * @param bytes - JPEG file contents
+   * @param groups - Metadata groups to remove
+   * @returns The sanitized file contents
+   * @throws Error if the data is not a JPEG or its metadata cannot be rewritten
+   */
+  public static sanitizeBytes(bytes: Uint8Array, groups: SanitizeGroup[]): Uint8Array {
+    if (!JpegSegments.isJpeg(bytes)) {
+      throw new Error('Lossless sanitizing is currently only supported for JPEG images');
+    }
+
+    const selected = new Set(groups);
+    const parsed = JpegSegments.parse(bytes);
+
+    // Trailing data after the main image holds MPF previews and vendor trailers
+    const dropTrailer = selected.has('all') || selected.has('thumbnail');
+    const scanData = dropTrailer
+      ? parsed.scanData.subarray(0, JpegSegments.findEndOfImage(parsed.scanData))
+      : parsed.scanData;
+
+    if (selected.has('all')) {
+      const segments = parsed.segments.filter((segment) =>
+        ESSENTIAL_SEGMENT_KINDS.has(segment.kind) || (segment.kind === 'other' && !this.isAppSegment(segment))
+      );
+      return JpegSegments.serialize({ segments, scanData });
+    }
+
+    const scrubXmp = ['location', 'serial', 'copyright'].some((group) => selected.has(group as SanitizeGroup));
+
+    const segments = parsed.segments.flatMap((segment): JpegSegment[] => {
+      switch (segment.kind) {
+        case 'exif':
+          return [this.sanitizeExif(segment, selected)];
+        case 'xmp':
+          if (selected.has('xmp')) return [];
+          return scrubXmp ? [this.sanitizeXmp(segment, selected)] : [segment];
+        case 'xmpExtended':
+          // Extended XMP is split over several checksummed chunks and cannot be edited piecewise
+          return selected.has('xmp') || scrubXmp ? [] : [segment];
+        case 'mpf':
+          return selected.has('thumbnail') ? [] : [segment];
+        case 'photoshop':
+          return [this.sanitizePhotoshop(segment, selected)];
+        default:
+          return [segment];
+      }
+    });
+
+    return JpegSegments.serialize({ segments, scanData });
+  }
+
+  /**
+   * Removes the selected groups from an Exif APP1 segment
+   *
+   * @param segment - Exif segment
+   * @param selected - Groups to remove
+   * @returns The rewritten segment
+   */
+  private static sanitizeExif(segment: JpegSegment, selected: Set<SanitizeGroup>): JpegSegment {
+    const editor = new TiffEditor(JpegSegments.getTiffData(segment));
+
+    if (selected.has('location')) editor.removeIfd('gps');
+    if (selected.has('thumbnail')) editor.removeIfd('ifd1');
+
+    selected.forEach((group) => {
+      EXIF_TAGS[group]?.forEach(([ifd, tag]) => editor.removeTag(ifd, tag));
+    });
+
+    return JpegSegments.createExifSegment(editor.toBytes());
+  }
+
+  /**
+   * Removes the properties belonging to the selected groups from an XMP segment
+   *
+   * @param segment - XMP segment
+   * @param selected - Groups to remove
+   * @returns The rewritten segment
+   */
+  private static sanitizeXmp(segment: JpegSegment, selected: Set<SanitizeGroup>): JpegSegment {
+    const matchers = Array.from(selected).flatMap((group) => XMP_PROPERTIES[group] ?? []);
+    const packet = XmpEditor.removeProperties(JpegSegments.getXmpPacket(segment), matchers);
+    return JpegSegments.createXmpSegment(packet);
+  }
+
+  /**
+   * Removes the IPTC datasets belonging to the selected groups from an APP13 segment
+   *
+   * @param segment - Photoshop segment
+   * @param selected - Groups to remove
+   * @returns The rewritten segment
+   */
+  private static sanitizePhotoshop(segment: JpegSegment, selected: Set<SanitizeGroup>): JpegSegment {
+    const datasets = new Set(Array.from(selected).flatMap((group) => IPTC_DATASETS[group] ?? []));
+    if (datasets.size === 0) return segment;
+
+    const resources = IptcEditor.removeDatasets(
+      JpegSegments.getPhotoshopResources(segment),
+      ({ record, dataset }: IptcDatasetId) => record === 2 && datasets.has(dataset)
+    );
+    return JpegSegments.createPhotoshopSegment(resources);
+  }
+
+  /**
+   * Checks whether a segment is an application (APPn) or comment segment
+   */
+  private static isAppSegment(segment: JpegSegment): boolean {
+    return (segment.marker >= 0xE0 && segment.marker <= 0xEF) || segment.marker === 0xFE;
+  }
+}
@@ -0,0 +1,322 @@
+import { TIFF_TYPE_SIZES } from './TiffEditor';
+
+/**
+ * How the metadata bytes of a file were obtained
+ */
+export type ReadStrategy =
+  | 'jpeg-segments'  // Only the marker segments before the first scan
+  | 'png-chunks'     // Every chunk except the image data (IDAT)
+  | 'tiff-prefix'    // The start of a TIFF-based file up to the last metadata byte
+  | 'full';          // The complete file
+
+/**
+ * Metadata-bearing bytes of a file, ready to be handed to the metadata reader
+ */
+export interface MetadataBuffer {
+  buffer: ArrayBuffer;    // A valid (possibly reduced) file containing all metadata
+  bytesRead: number;      // Bytes actually read from the source file
+  strategy: ReadStrategy;
+  fallbackReason?: string; // Why the segment-aware read failed and the whole file was read instead
+}
+
+/**
+ * Callback receiving the number of bytes read so far and the source size
+ */
+export type ReadProgressCallback = (bytesRead: number, totalBytes: number) => void;
+
+// Size of each read when walking a file structure
+const WINDOW_SIZE = 64 * 1024;
+
+// Upper bound on directories followed in a TIFF, to survive offset loops in corrupt files
+const MAX_TIFF_IFDS = 64;
+
+// TIFF tags whose value is an offset to another IFD
+const TIFF_POINTER_TAGS = new Set([0x8769, 0x8825, 0xA005, 0x014A]);
+
+// TIFF tags describing an embedded JPEG thumbnail
+const TIFF_THUMBNAIL_OFFSET = 0x0201;
+const TIFF_THUMBNAIL_LENGTH = 0x0202;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+/**
+ * Random-access reader over a Blob that fetches data in windows
+ *
+ * Consecutive small reads (marker headers, IFD entries) are served from the
+ * current window, so walking a file structure needs only a few slice reads.
+ */
+class BlobCursor {
+  private window = new Uint8Array(0);
+  private windowStart = 0;
+  public bytesRead = 0;
+
+  constructor(
+    private readonly blob: Blob,
+    private readonly onProgress?: ReadProgressCallback
+  ) {}
+
+  /**
+   * Size of the underlying blob
+   */
+  public get size(): number {
+    return this.blob.size;
+  }
+
+  /**
+   * Reads bytes at an absolute position
+   *
+   * @param offset - Start position
+   * @param length - Number of bytes wanted
+   * @returns The bytes; shorter than requested if the blob ends first
+   */
+  public async read(offset: number, length: number): Promise<Uint8Array> {
+    const windowEnd = this.windowStart + this.window.length;
+    if (offset >= this.windowStart && offset + length <= windowEnd) {
+      return this.window.subarray(offset - this.windowStart, offset - this.windowStart + length);
+    }
+
+    const end = Math.min(this.blob.size, offset + Math.max(length, WINDOW_SIZE));
+    this.window = new Uint8Array(await this.blob.slice(offset, end).arrayBuffer());
+    this.windowStart = offset;
+    this.bytesRead += this.window.length;
+    this.onProgress?.(this.bytesRead, this.blob.size);
+
+    return this.window.subarray(0, length);
+  }
+}
+
+/**
+ * Service class for reading only the metadata-bearing parts of image files
+ *
+ * Instead of loading a whole file into memory, the reader walks the file
+ * structure with Blob.slice and builds a reduced but valid file that
+ * contains every metadata segment:
+ * - JPEG: all marker segments up to the first Start Of Scan
+ * - PNG: all chunks except the compressed image data
+ * - TIFF and TIFF-based RAW: the prefix up to the last IFD or value byte
+ * Formats without a known structure are read in full.
+ */
+export class SegmentReader {
+  /**
+   * Reads the metadata-bearing bytes of a file
+   *
+   * @param blob - File or blob to read
+   * @param onProgress - Optional progress callback
+   * @returns The metadata buffer and how it was obtained, with the reason when a damaged structure forced a full read
+   */
+  public static async readMetadataBuffer(blob: Blob, onProgress?: ReadProgressCallback): Promise<MetadataBuffer> {
+    const cursor = new BlobCursor(blob, onProgress);
+    const header = await cursor.read(0, 16);
+
+    try {
+      if (header[0] === 0xFF && header[1] === 0xD8) {
+        return await this.readJpeg(cursor);
+      }
+      if (PNG_SIGNATURE.every((byte, index) => header[index] === byte)) {
+        return await this.readPng(cursor);
+      }
+      if (this.isTiff(header)) {
+        const prefix = await this.readTiffPrefix(cursor);
+        if (prefix) return prefix;
+      }
+    } catch (err) {
+      // A damaged structure is left to the metadata reader to diagnose on the full file
+      const full = await this.readFull(blob, onProgress);
+      return { ...full, fallbackReason: err instanceof Error ? err.message : String(err) };
+    }
+
+    return this.readFull(blob, onProgress);
+  }
+
+  /**
+   * Reads a complete blob, reporting progress while streaming
+   *
+   * @param blob - Blob to read
+   * @param onProgress - Optional progress callback
+   * @returns The full contents
+   */
+  public static async readFull(blob: Blob, onProgress?: ReadProgressCallback): Promise<MetadataBuffer> {
+    const buffer = new Uint8Array(blob.size);
+    const reader = blob.stream().getReader();
+    let bytesRead = 0;
+    let lastReported = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer.set(value, bytesRead);
+      bytesRead += value.length;
+
+      // Report roughly every percent to keep message traffic low
+      if (bytesRead - lastReported >= blob.size / 100) {
+        lastReported = bytesRead;
+        onProgress?.(bytesRead, blob.size);
+      }
+    }
+
+    return { buffer: buffer.buffer, bytesRead, strategy: 'full' };
+  }
+
+  /**
+   * Collects all JPEG marker segments before the first scan
+   *
+   * @param cursor - Cursor over the file
+   * @returns A JPEG consisting of SOI, the collected segments and EOI
+   */
+  private static async readJpeg(cursor: BlobCursor): Promise<MetadataBuffer> {
+    const parts: Uint8Array[] = [new Uint8Array([0xFF, 0xD8])];
+    let offset = 2;
+
+    while (offset + 4 <= cursor.size) {
+      const head = await cursor.read(offset, 4);
+      if (head[0] !== 0xFF) {
+        throw new Error(`Invalid JPEG marker at offset ${offset}`);
+      }
+
+      const marker = head[1];
+      // Fill bytes before a marker
+      if (marker === 0xFF) {
+        offset++;
+        continue;
+      }
+      // Start Of Scan or End Of Image: no more metadata segments follow
+      if (marker === 0xDA || marker === 0xD9) break;
+      // Standalone markers carry no length field
+      if ((marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) {
+        offset += 2;
+        continue;
+      }
+
+      const length = (head[2] << 8) | head[3];
+      parts.push((await cursor.read(offset, length + 2)).slice());
+      offset += length + 2;
+    }
+
+    parts.push(new Uint8Array([0xFF, 0xD9]));
+    return { buffer: this.concat(parts), bytesRead: cursor.bytesRead, strategy: 'jpeg-segments' };
+  }
+
+  /**
+   * Collects all PNG chunks except the image data
+   *
+   * @param cursor - Cursor over the file
+   * @returns A PNG consisting of the signature and every non-IDAT chunk
+   */
+  private static async readPng(cursor: BlobCursor): Promise<MetadataBuffer> {
+    const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= cursor.size) {
+      const head = await cursor.read(offset, 8);
+      const length = new DataView(head.buffer, head.byteOffset, 8).getUint32(0);
+      const type = String.fromCharCode(head[4], head[5], head[6], head[7]);
+      const total = length + 12; // Length, type, data and CRC
+
+      if (type !== 'IDAT') {
+        parts.push((await cursor.read(offset, total)).slice());
+      }
+      if (type === 'IEND') break;
+      offset += total;
+    }
+
+    return { buffer: this.concat(parts), bytesRead: cursor.bytesRead, strategy: 'png-chunks' };
+  }
+
+  /**
+   * Reads a TIFF-based file up to the end of its last metadata region
+   *
+   * All IFDs reachable from the header are walked, including EXIF, GPS,
+   * Interop and SubIFDs, together with their out-of-line values and embedded
+   * JPEG thumbnails. Image strips and tiles are not followed.
+   *
+   * @param cursor - Cursor over the file
+   * @returns The prefix buffer, or null when the metadata reaches the end of the file anyway
+   */
+  private static async readTiffPrefix(cursor: BlobCursor): Promise<MetadataBuffer | null> {
+    const header = await cursor.read(0, 8);
+    const view = new DataView(header.buffer, header.byteOffset, 8);
+    const littleEndian = header[0] === 0x49;
+
+    let metadataEnd = 8;
+    const pending = [view.getUint32(4, littleEndian)];
+    const visited = new Set<number>();
+
+    while (pending.length > 0 && visited.size < MAX_TIFF_IFDS) {
+      const ifdOffset = pending.shift()!;
+      if (!ifdOffset || visited.has(ifdOffset) || ifdOffset + 2 > cursor.size) continue;
+      visited.add(ifdOffset);
+
+      const countBytes = await cursor.read(ifdOffset, 2);
+      const count = new DataView(countBytes.buffer, countBytes.byteOffset, 2).getUint16(0, littleEndian);
+      const dirLength = 2 + count * 12 + 4;
+      const dir = await cursor.read(ifdOffset, dirLength);
+      if (dir.length < dirLength) continue;
+      const dirView = new DataView(dir.buffer, dir.byteOffset, dir.length);
+      metadataEnd = Math.max(metadataEnd, ifdOffset + dirLength);
+
+      let thumbnailOffset = 0;
+      let thumbnailLength = 0;
+
+      for (let i = 0; i < count; i++) {
+        const position = 2 + i * 12;
+        const tag = dirView.getUint16(position, littleEndian);
+        const type = dirView.getUint16(position + 2, littleEndian);
+        const valueCount = dirView.getUint32(position + 4, littleEndian);
+        const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount;
+        const valueOffset = size > 4 ? dirView.getUint32(position + 8, littleEndian) : 0;
+
+        if (size > 4) {
+          metadataEnd = Math.max(metadataEnd, valueOffset + size);
+        }
+
+        if (TIFF_POINTER_TAGS.has(tag)) {
+          if (size <= 4) {
+            pending.push(dirView.getUint32(position + 8, littleEndian));
+          } else {
+            // SubIFDs may hold several offsets stored out of line
+            const offsets = await cursor.read(valueOffset, size);
+            const offsetsView = new DataView(offsets.buffer, offsets.byteOffset, offsets.length);
+            for (let j = 0; j + 4 <= offsets.length; j += 4) {
+              pending.push(offsetsView.getUint32(j, littleEndian));
+            }
+          }
+        }
+        if (tag === TIFF_THUMBNAIL_OFFSET) thumbnailOffset = dirView.getUint32(position + 8, littleEndian);
+        if (tag === TIFF_THUMBNAIL_LENGTH) thumbnailLength = dirView.getUint32(position + 8, littleEndian);
+      }
+
+      if (thumbnailOffset && thumbnailLength) {
+        metadataEnd = Math.max(metadataEnd, thumbnailOffset + thumbnailLength);
+      }
+
+      pending.push(dirView.getUint32(2 + count * 12, littleEndian));
+    }
+
+    // Metadata stored after the image data: a prefix would be the whole file
+    if (metadataEnd >= cursor.size) return null;
+
+    const prefix = (await cursor.read(0, metadataEnd)).slice();
+    return { buffer: prefix.buffer, bytesRead: cursor.bytesRead, strategy: 'tiff-prefix' };
+  }
+
+  /**
+   * Checks for a classic (non-Big) TIFF header in either byte order
+   */
+  private static isTiff(header: Uint8Array): boolean {
+    return (header[0] === 0x49 && header[1] === 0x49 && header[2] === 42 && header[3] === 0) ||
+      (header[0] === 0x4D && header[1] === 0x4D && header[2] === 0 && header[3] === 42);
+  }
+
+  /**
+   * Joins byte arrays into a single ArrayBuffer
+   */
+  private static concat(parts: Uint8Array[]): ArrayBuffer {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((position, part) => {
+      output.set(part, position);
+      return position + part.length;
+    }, 0);
+    return output.buffer;
+  }
+}
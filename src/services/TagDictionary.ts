@@ -0,0 +1,306 @@
+import { MetadataGroup } from './MetadataModel';
+import type { MetadataCategory, TagDefinition } from './TagRegistry';
+
+/**
+ * Extra properties of a dictionary entry beyond its name, label and description
+ */
+type TagExtras = Pick<TagDefinition, 'unit' | 'format' | 'sensitivity'>;
+
+/**
+ * A dictionary entry: tag name, label, description and optional extras
+ */
+type TagEntry = [string, string, string, TagExtras?];
+
+// TIFF/EXIF tag names, which XMP reuses in its tiff and exif namespaces
+const EXIF_GROUPS: MetadataGroup[] = ['exif', 'thumbnail', 'xmp'];
+
+// GPS tag names, which XMP reuses in its exif namespace
+const GPS_GROUPS: MetadataGroup[] = ['gps', 'xmp'];
+
+/**
+ * Builds the definitions for a list of tags sharing a category and groups
+ *
+ * @param category - Category of every tag in the list
+ * @param groups - Groups the tags are read from
+ * @param entries - Tags with their label, description and extras
+ * @returns Tag definitions
+ */
+const define = (category: MetadataCategory, groups: MetadataGroup[], entries: TagEntry[]): TagDefinition[] =>
+  entries.map(([name, label, description, extras]) => ({ name, groups, category, label, description, ...extras }));
+
+/**
+ * Tags known to the application, by category
+ *
+ * Names are the ones the reader library reports, so IPTC datasets keep
+ * their spaced names and XMP properties their local names.
+ */
+export const BUILT_IN_TAGS: TagDefinition[] = [
+  ...define('copyright', EXIF_GROUPS, [
+    ['Copyright', 'Copyright', 'Copyright notice of the image', { sensitivity: 'low' }],
+    ['Artist', 'Artist', 'Person who created the image', { sensitivity: 'medium' }]
+  ]),
+  ...define('copyright', ['xmp'], [
+    ['creator', 'Creator', 'Authors of the image', { sensitivity: 'medium' }],
+    ['rights', 'Rights', 'Rights statement for the image', { sensitivity: 'low' }],
+    ['Marked', 'Copyrighted', 'Whether the image is marked as copyrighted'],
+    ['UsageTerms', 'Usage terms', 'Instructions on how the image may be used'],
+    ['WebStatement', 'Rights web statement', 'Web page describing the rights of the image'],
+    ['Credit', 'Credit line', 'Credit to give when publishing the image'],
+    ['CreatorContactInfo', 'Creator contact', 'Address, phone and e-mail of the creator', { sensitivity: 'medium' }],
+    ['AuthorsPosition', 'Creator job title', 'Job title of the creator']
+  ]),
+  ...define('copyright', ['iptc'], [
+    ['By-line', 'By-line', 'Name of the creator', { sensitivity: 'medium' }],
+    ['By-line Title', 'By-line title', 'Job title of the creator'],
+    ['Copyright Notice', 'Copyright notice', 'Copyright notice of the image', { sensitivity: 'low' }],
+    ['Credit', 'Credit line', 'Credit to give when publishing the image'],
+    ['Source', 'Source', 'Original owner of the image'],
+    ['Writer/Editor', 'Caption writer', 'Person who wrote the caption', { sensitivity: 'medium' }],
+    ['Contact', 'Contact', 'Person or organisation to contact about the image', { sensitivity: 'medium' }]
+  ]),
+  ...define('copyright', ['pngText'], [
+    ['Author', 'Author', 'Person who created the image', { sensitivity: 'medium' }],
+    ['Copyright', 'Copyright', 'Copyright notice of the image', { sensitivity: 'low' }],
+    ['Disclaimer', 'Disclaimer', 'Legal disclaimer']
+  ]),
+
+  ...define('serial', EXIF_GROUPS, [
+    ['BodySerialNumber', 'Body serial number', 'Serial number of the camera body', { sensitivity: 'medium' }],
+    ['LensSerialNumber', 'Lens serial number', 'Serial number of the lens', { sensitivity: 'medium' }],
+    ['CameraSerialNumber', 'Camera serial number', 'Serial number of the camera', { sensitivity: 'medium' }],
+    ['CameraOwnerName', 'Camera owner', 'Name of the camera owner', { sensitivity: 'medium' }]
+  ]),
+  ...define('serial', ['xmp'], [
+    ['SerialNumber', 'Body serial number', 'Serial number of the camera body', { sensitivity: 'medium' }],
+    ['OwnerName', 'Camera owner', 'Name of the camera owner', { sensitivity: 'medium' }]
+  ]),
+
+  ...define('location', GPS_GROUPS, [
+    ['GPSVersionID', 'GPS version', 'Version of the GPS IFD'],
+    ['GPSLatitudeRef', 'Latitude reference', 'Hemisphere of the latitude'],
+    ['GPSLatitude', 'Latitude', 'Latitude where the image was taken', { unit: '°', sensitivity: 'high' }],
+    ['GPSLongitudeRef', 'Longitude reference', 'Hemisphere of the longitude'],
+    ['GPSLongitude', 'Longitude', 'Longitude where the image was taken', { unit: '°', sensitivity: 'high' }],
+    ['GPSAltitudeRef', 'Altitude reference', 'Whether the altitude is above or below sea level'],
+    ['GPSAltitude', 'Altitude', 'Height above sea level', { unit: 'm', sensitivity: 'medium' }],
+    ['GPSTimeStamp', 'GPS time', 'UTC time of the GPS fix'],
+    ['GPSDateStamp', 'GPS date', 'UTC date of the GPS fix'],
+    ['GPSSatellites', 'Satellites', 'Satellites used for the fix'],
+    ['GPSStatus', 'Receiver status', 'Whether a measurement was in progress'],
+    ['GPSMeasureMode', 'Measurement mode', 'Two- or three-dimensional fix'],
+    ['GPSDOP', 'Dilution of precision', 'Precision of the fix; lower is better'],
+    ['GPSSpeedRef', 'Speed unit', 'Unit of the receiver speed'],
+    ['GPSSpeed', 'Speed', 'Speed of the receiver'],
+    ['GPSTrackRef', 'Track reference', 'North the direction of movement is measured from'],
+    ['GPSTrack', 'Direction of movement', 'Direction the receiver was moving in', { unit: '°', sensitivity: 'medium' }],
+    ['GPSImgDirectionRef', 'Image direction reference', 'North the image direction is measured from'],
+    ['GPSImgDirection', 'Image direction', 'Direction the camera was pointing', { unit: '°', sensitivity: 'medium' }],
+    ['GPSMapDatum', 'Map datum', 'Geodetic datum of the position'],
+    ['GPSDestLatitude', 'Destination latitude', 'Latitude of the photographed subject', { unit: '°', sensitivity: 'high' }],
+    ['GPSDestLongitude', 'Destination longitude', 'Longitude of the photographed subject', { unit: '°', sensitivity: 'high' }],
+    ['GPSDestBearing', 'Destination bearing', 'Bearing to the photographed subject', { unit: '°', sensitivity: 'medium' }],
+    ['GPSDestDistance', 'Destination distance', 'Distance to the photographed subject'],
+    ['GPSProcessingMethod', 'Positioning method', 'How the position was found (GPS, cell network, ...)'],
+    ['GPSAreaInformation', 'Area information', 'Name of the GPS area'],
+    ['GPSDifferential', 'Differential correction', 'Whether differential correction was applied'],
+    ['GPSHPositioningError', 'Horizontal error', 'Horizontal positioning error', { unit: 'm' }],
+    ['GPSCoordinates', 'Coordinates', 'Position combined from the latitude and longitude tags', { sensitivity: 'high' }]
+  ]),
+  ...define('location', ['xmp'], [
+    ['Location', 'Sublocation', 'Sublocation shown in the image', { sensitivity: 'medium' }],
+    ['City', 'City', 'City shown in the image', { sensitivity: 'medium' }],
+    ['State', 'Province or state', 'Province or state shown in the image'],
+    ['Country', 'Country', 'Country shown in the image'],
+    ['CountryCode', 'Country code', 'ISO code of the country shown in the image'],
+    ['LocationCreated', 'Location created', 'Where the image was taken', { sensitivity: 'medium' }],
+    ['LocationShown', 'Location shown', 'Places shown in the image']
+  ]),
+  ...define('location', ['iptc'], [
+    ['Sub-location', 'Sublocation', 'Sublocation shown in the image', { sensitivity: 'medium' }],
+    ['City', 'City', 'City shown in the image', { sensitivity: 'medium' }],
+    ['Province/State', 'Province or state', 'Province or state shown in the image'],
+    ['Country/Primary Location Code', 'Country code', 'ISO code of the country shown in the image'],
+    ['Country/Primary Location Name', 'Country', 'Country shown in the image']
+  ]),
+
+  ...define('datetime', EXIF_GROUPS, [
+    ['DateTime', 'Modified', 'When the file was last changed'],
+    ['DateTimeOriginal', 'Taken', 'When the image was captured'],
+    ['DateTimeDigitized', 'Digitized', 'When the image was stored digitally'],
+    ['SubSecTime', 'Modified subseconds', 'Fraction of a second of the modification time'],
+    ['SubSecTimeOriginal', 'Taken subseconds', 'Fraction of a second of the capture time'],
+    ['SubSecTimeDigitized', 'Digitized subseconds', 'Fraction of a second of the digitized time'],
+    ['OffsetTime', 'Modified UTC offset', 'Time zone offset of the modification time'],
+    ['OffsetTimeOriginal', 'Taken UTC offset', 'Time zone offset of the capture time'],
+    ['OffsetTimeDigitized', 'Digitized UTC offset', 'Time zone offset of the digitized time']
+  ]),
+  ...define('datetime', ['xmp'], [
+    ['CreateDate', 'Created', 'When the image was created'],
+    ['ModifyDate', 'Modified', 'When the file was last changed'],
+    ['MetadataDate', 'Metadata modified', 'When the metadata was last changed'],
+    ['DateCreated', 'Taken', 'When the image was captured']
+  ]),
+  ...define('datetime', ['iptc'], [
+    ['Date Created', 'Date created', 'Date the content was created'],
+    ['Time Created', 'Time created', 'Time the content was created'],
+    ['Digital Creation Date', 'Digitized date', 'Date the digital image was created'],
+    ['Digital Creation Time', 'Digitized time', 'Time the digital image was created']
+  ]),
+  ...define('datetime', ['pngText'], [
+    ['Creation Time', 'Created', 'When the image was created']
+  ]),
+  ...define('datetime', ['composite'], [
+    ['CaptureTime', 'Capture time', 'Capture time combined from the date, subsecond and offset tags']
+  ]),
+
+  ...define('camera', EXIF_GROUPS, [
+    ['Make', 'Camera make', 'Manufacturer of the camera'],
+    ['Model', 'Camera model', 'Model of the camera'],
+    ['LensMake', 'Lens make', 'Manufacturer of the lens'],
+    ['LensModel', 'Lens model', 'Model of the lens'],
+    ['LensSpecification', 'Lens specification', 'Focal length and aperture range of the lens'],
+    ['FocalLength', 'Focal length', 'Actual focal length of the lens', { unit: 'mm' }],
+    ['FocalLengthIn35mmFilm', '35 mm equivalent focal length', 'Focal length on a full-frame camera with the same field of view', { unit: 'mm' }]
+  ]),
+  ...define('camera', ['xmp'], [
+    ['Lens', 'Lens', 'Name of the lens'],
+    ['LensInfo', 'Lens specification', 'Focal length and aperture range of the lens'],
+    ['LensID', 'Lens ID', 'Identifier of the lens model']
+  ]),
+
+  ...define('settings', EXIF_GROUPS, [
+    ['ExposureTime', 'Exposure time', 'How long the shutter was open', { unit: 's' }],
+    ['FNumber', 'F-number', 'Aperture the image was taken at'],
+    ['ExposureProgram', 'Exposure program', 'Mode used to set the exposure'],
+    ['ISOSpeedRatings', 'ISO', 'Sensitivity of the sensor'],
+    ['PhotographicSensitivity', 'ISO', 'Sensitivity of the sensor'],
+    ['ISO', 'ISO', 'Sensitivity of the sensor'],
+    ['SensitivityType', 'Sensitivity type', 'Which ISO value the sensitivity refers to'],
+    ['RecommendedExposureIndex', 'Recommended exposure index', 'Exposure index recommended by the camera'],
+    ['ShutterSpeedValue', 'Shutter speed', 'Shutter speed as an APEX value'],
+    ['ApertureValue', 'Aperture', 'Aperture as an APEX value'],
+    ['BrightnessValue', 'Brightness', 'Scene brightness as an APEX value'],
+    ['ExposureBiasValue', 'Exposure compensation', 'Exposure compensation applied', { unit: 'EV' }],
+    ['MaxApertureValue', 'Maximum aperture', 'Widest aperture of the lens at the focal length used'],
+    ['SubjectDistance', 'Subject distance', 'Distance to the focused subject', { unit: 'm' }],
+    ['SubjectDistanceRange', 'Subject distance range', 'Rough distance to the subject'],
+    ['MeteringMode', 'Metering mode', 'How the camera measured the light'],
+    ['LightSource', 'Light source', 'Kind of light the image was taken in'],
+    ['Flash', 'Flash', 'Whether and how the flash fired'],
+    ['FlashEnergy', 'Flash energy', 'Strobe energy of the flash'],
+    ['ExposureMode', 'Exposure mode', 'Automatic, manual or bracketed exposure'],
+    ['ExposureIndex', 'Exposure index', 'Exposure index selected on the camera'],
+    ['WhiteBalance', 'White balance', 'Automatic or manual white balance'],
+    ['DigitalZoomRatio', 'Digital zoom', 'Digital zoom ratio; 0 or 1 means none'],
+    ['SceneCaptureType', 'Scene type', 'Kind of scene the camera was set for'],
+    ['SceneType', 'Scene source', 'Whether the image was directly photographed'],
+    ['GainControl', 'Gain control', 'Degree of overall image gain adjustment'],
+    ['Contrast', 'Contrast', 'Contrast processing applied by the camera'],
+    ['Saturation', 'Saturation', 'Saturation processing applied by the camera'],
+    ['Sharpness', 'Sharpness', 'Sharpness processing applied by the camera'],
+    ['SensingMethod', 'Sensing method', 'Kind of image sensor'],
+    ['CustomRendered', 'Custom rendering', 'Whether special processing was applied'],
+    ['FocalPlaneXResolution', 'Focal plane X resolution', 'Horizontal sensor pixels per resolution unit'],
+    ['FocalPlaneYResolution', 'Focal plane Y resolution', 'Vertical sensor pixels per resolution unit'],
+    ['FocalPlaneResolutionUnit', 'Focal plane resolution unit', 'Unit of the focal plane resolution']
+  ]),
+
+  ...define('settings', ['composite'], [
+    ['ExposureValue', 'Exposure value', 'Aperture and shutter speed combined into one number, at the ISO used'],
+    ['LightValue', 'Light value (EV100)', 'Scene brightness the exposure corresponds to, normalised to ISO 100'],
+    ['CropFactor', 'Crop factor', 'Diagonal of a 35 mm frame divided by the sensor diagonal'],
+    ['FieldOfView', 'Field of view', 'Angles of view of the lens at the focal length used'],
+    ['FocalLength35efl', '35 mm equivalent focal length', 'Focal length scaled to a full-frame camera, as computed by the reader library'],
+    ['ScaleFactorTo35mmEquivalent', 'Scale factor to 35 mm', 'Crop factor as computed by the reader library'],
+    ['HyperfocalDistance', 'Hyperfocal distance', 'Focus distance from which everything to infinity is acceptably sharp'],
+    ['DepthOfField', 'Depth of field', 'Range of acceptable sharpness around the subject distance'],
+    ['Megapixels', 'Megapixels', 'Pixel count of the image'],
+    ['AspectRatio', 'Aspect ratio', 'Width to height ratio of the image as displayed']
+  ]),
+
+  ...define('makerNotes', ['exif'], [
+    ['MakerNote', 'Maker note', 'Vendor-specific data written by the camera']
+  ]),
+  ...define('makerNotes', ['makerNotes'], [
+    ['SerialNumber', 'Serial number', 'Serial number of the camera body', { sensitivity: 'medium' }],
+    ['InternalSerialNumber', 'Internal serial number', 'Serial number used inside the manufacturer', { sensitivity: 'medium' }],
+    ['LensSerialNumber', 'Lens serial number', 'Serial number of the lens', { sensitivity: 'medium' }],
+    ['OwnerName', 'Owner name', 'Name of the camera owner', { sensitivity: 'medium' }],
+    ['ShutterCount', 'Shutter count', 'Number of shutter actuations of the camera'],
+    ['ImageCount', 'Image count', 'Number of images taken by the camera'],
+    ['FileNumber', 'File number', 'Folder and file number given by the camera'],
+    ['Lens', 'Lens', 'Lens as identified by the camera'],
+    ['LensModel', 'Lens model', 'Lens as identified by the camera'],
+    ['FocusMode', 'Focus mode', 'Autofocus or manual focus mode'],
+    ['AFMode', 'AF mode', 'Autofocus area selection'],
+    ['AFAreaMode', 'AF area mode', 'How the autofocus points were chosen'],
+    ['AFPoint', 'AF point', 'Autofocus point used'],
+    ['AFPointsInFocus', 'AF points in focus', 'Autofocus points that achieved focus'],
+    ['ImageStabilization', 'Image stabilization', 'Stabilization mode'],
+    ['VibrationReduction', 'Vibration reduction', 'Whether Nikon VR was on'],
+    ['PictureStyle', 'Picture style', 'Canon picture style'],
+    ['PictureControlName', 'Picture control', 'Nikon picture control'],
+    ['CreativeStyle', 'Creative style', 'Sony creative style'],
+    ['FilmMode', 'Film simulation', 'Fujifilm film simulation'],
+    ['PictureMode', 'Picture mode', 'Olympus picture mode']
+  ]),
+
+  ...define('other', EXIF_GROUPS, [
+    ['ImageWidth', 'Image width', 'Width of the image', { unit: 'px' }],
+    ['ImageLength', 'Image height', 'Height of the image', { unit: 'px' }],
+    ['PixelXDimension', 'Pixel width', 'Width of the stored image', { unit: 'px' }],
+    ['PixelYDimension', 'Pixel height', 'Height of the stored image', { unit: 'px' }],
+    ['Orientation', 'Orientation', 'How the image should be rotated for display'],
+    ['XResolution', 'Horizontal resolution', 'Pixels per resolution unit across'],
+    ['YResolution', 'Vertical resolution', 'Pixels per resolution unit down'],
+    ['ResolutionUnit', 'Resolution unit', 'Unit of the resolution'],
+    ['Software', 'Software', 'Software or firmware that wrote the file'],
+    ['HostComputer', 'Host computer', 'Computer or operating system that wrote the file'],
+    ['ImageDescription', 'Description', 'Title or description of the image'],
+    ['UserComment', 'User comment', 'Comment added by the user', { sensitivity: 'low' }],
+    ['ImageUniqueID', 'Unique image ID', 'Identifier unique to this image', { sensitivity: 'medium' }],
+    ['ColorSpace', 'Colour space', 'Colour space the image is in'],
+    ['ExifVersion', 'EXIF version', 'Version of the EXIF standard'],
+    ['FlashpixVersion', 'Flashpix version', 'Version of the Flashpix standard'],
+    ['ComponentsConfiguration', 'Components configuration', 'Order of the colour channels'],
+    ['YCbCrPositioning', 'YCbCr positioning', 'Position of the chroma samples'],
+    ['Compression', 'Compression', 'Compression scheme of the image data'],
+    ['JPEGInterchangeFormat', 'JPEG offset', 'Byte offset of the embedded JPEG'],
+    ['JPEGInterchangeFormatLength', 'JPEG length', 'Byte length of the embedded JPEG', { unit: 'bytes' }],
+    ['Rating', 'Rating', 'Star rating of the image']
+  ]),
+  ...define('other', ['xmp'], [
+    ['title', 'Title', 'Title of the image'],
+    ['description', 'Description', 'Description of the image'],
+    ['subject', 'Keywords', 'Keywords describing the image'],
+    ['Headline', 'Headline', 'Short summary of the image'],
+    ['Label', 'Label', 'Colour label given in photo software'],
+    ['CreatorTool', 'Creator tool', 'Software that created the file'],
+    ['DocumentID', 'Document ID', 'Identifier of the document the file belongs to', { sensitivity: 'medium' }],
+    ['OriginalDocumentID', 'Original document ID', 'Identifier of the original document', { sensitivity: 'medium' }],
+    ['InstanceID', 'Instance ID', 'Identifier of this version of the document', { sensitivity: 'medium' }],
+    ['History', 'Edit history', 'Actions performed on the document', { sensitivity: 'low' }],
+    ['DerivedFrom', 'Derived from', 'Document this file was made from', { sensitivity: 'low' }],
+    ['PersonInImage', 'People shown', 'Names of the people in the image', { sensitivity: 'high' }],
+    ['Regions', 'Image regions', 'Tagged areas such as faces', { sensitivity: 'high' }],
+    ['format', 'Format', 'MIME type of the file']
+  ]),
+  ...define('other', ['iptc'], [
+    ['Object Name', 'Title', 'Short name of the image'],
+    ['Headline', 'Headline', 'Short summary of the image'],
+    ['Caption/Abstract', 'Caption', 'Description of the image'],
+    ['Keywords', 'Keywords', 'Keywords describing the image'],
+    ['Special Instructions', 'Special instructions', 'Instructions for editors'],
+    ['Original Transmission Reference', 'Job ID', 'Job or transmission identifier'],
+    ['Category', 'Category', 'Subject category'],
+    ['Supplemental Category', 'Supplemental category', 'Further subject categories'],
+    ['Urgency', 'Urgency', 'Editorial urgency']
+  ]),
+  ...define('other', ['file'], [
+    ['Image Width', 'Image width', 'Width of the image', { unit: 'px' }],
+    ['Image Height', 'Image height', 'Height of the image', { unit: 'px' }],
+    ['Bits Per Sample', 'Bits per sample', 'Bit depth of each colour component'],
+    ['Color Components', 'Colour components', 'Number of colour components'],
+    ['Subsampling', 'Chroma subsampling', 'Resolution of the colour channels relative to brightness']
+  ])
+];
@@ -0,0 +1,220 @@
+import { MetadataGroup, RawTag } from './MetadataModel';
+import type { PrivacySeverity } from './PrivacyService';
+import { BUILT_IN_TAGS } from './TagDictionary';
+
+/**
+ * Categories that come with the application
+ */
+export type BuiltInCategory = 'copyright' | 'serial' | 'location' | 'datetime' | 'camera' | 'settings' | 'makerNotes' | 'other';
+
+/**
+ * Logical groups used to organize metadata fields for display
+ *
+ * Besides the built-in categories, any category registered with
+ * TagRegistry.registerCategory can be used.
+ */
+export type MetadataCategory = BuiltInCategory | (string & {});
+
+/**
+ * Icons a category can be shown with; the components map them to icon images
+ */
+export type CategoryIconName =
+  | 'copyright' | 'hash' | 'mapPin' | 'calendar' | 'camera' | 'settings' | 'cpu'
+  | 'tag' | 'user' | 'building' | 'fileText' | 'image';
+
+/**
+ * Display configuration for a metadata category
+ */
+export interface CategoryConfig {
+  label: string;            // Section heading
+  icon: CategoryIconName;   // Icon shown next to the heading, the fields and navigation buttons
+  color: string;            // Tailwind colour name used for accents; must be in the safelist of tailwind.config.js
+}
+
+/**
+ * Everything the application knows about a tag
+ */
+export interface TagDefinition {
+  name: string;                     // Tag name as the reader library reports it
+  groups?: MetadataGroup[];         // Groups the definition applies to; every group when omitted
+  category: MetadataCategory;       // Category the tag is listed under
+  label: string;                    // Human-readable name
+  description?: string;             // What the tag records
+  unit?: string;                    // Unit appended to values that are bare numbers
+  format?: (value: string | number, tag?: RawTag) => string;  // Custom display formatting of the value
+  sensitivity?: PrivacySeverity;    // How much the tag reveals, for tags no privacy check covers
+}
+
+/**
+ * Built-in categories, in display order
+ */
+const BUILT_IN_CATEGORIES: Array<[MetadataCategory, CategoryConfig]> = [
+  ['copyright', { label: 'Copyright & Rights', icon: 'copyright', color: 'red' }],
+  ['serial', { label: 'Serial Numbers', icon: 'hash', color: 'indigo' }],
+  ['location', { label: 'Location & GPS', icon: 'mapPin', color: 'blue' }],
+  ['datetime', { label: 'Date & Time', icon: 'calendar', color: 'green' }],
+  ['camera', { label: 'Camera & Lens', icon: 'camera', color: 'purple' }],
+  ['settings', { label: 'Camera Settings', icon: 'settings', color: 'orange' }],
+  ['makerNotes', { label: 'Maker Notes', icon: 'cpu', color: 'teal' }],
+  ['other', { label: 'Other Metadata', icon: 'settings', color: 'gray' }]
+];
+
+/**
+ * Category of tags without a definition, for groups whose tags all belong together
+ */
+const GROUP_CATEGORIES: Partial<Record<MetadataGroup, MetadataCategory>> = {
+  gps: 'location',
+  makerNotes: 'makerNotes'
+};
+
+/**
+ * Service class describing every known tag and the categories they are shown in
+ *
+ * Categorization, labels, icons and value formatting all come from here.
+ * Applications can register their own tags, for example for a custom XMP
+ * namespace, and their own categories:
+ *
+ *   TagRegistry.registerCategory('agency', { label: 'Agency', icon: 'building', color: 'teal' });
+ *   TagRegistry.register({ name: 'AssignmentID', groups: ['xmp'], category: 'agency', label: 'Assignment' });
+ *
+ * Registrations are read on the main thread, so they belong in the
+ * application's entry module; parsing in the worker does not depend on them.
+ */
+export class TagRegistry {
+  private static categories = new Map<MetadataCategory, CategoryConfig>(BUILT_IN_CATEGORIES);
+  private static tags = new Map<string, TagDefinition[]>();
+
+  /**
+   * Adds tag definitions
+   *
+   * A definition registered later takes precedence over an earlier one for
+   * the same name, so built-in tags can be redefined.
+   *
+   * @param definitions - Tags to add
+   */
+  public static register(...definitions: TagDefinition[]): void {
+    definitions.forEach((definition) => {
+      this.tags.set(definition.name, [definition, ...(this.tags.get(definition.name) ?? [])]);
+    });
+  }
+
+  /**
+   * Adds a category, or changes the display of an existing one
+   *
+   * New categories are listed before "Other Metadata".
+   *
+   * @param category - Category ID used in tag definitions
+   * @param config - Label, icon and colour of the category
+   */
+  public static registerCategory(category: MetadataCategory, config: CategoryConfig): void {
+    if (this.categories.has(category)) {
+      this.categories.set(category, config);
+      return;
+    }
+
+    const entries = Array.from(this.categories);
+    const otherIndex = entries.findIndex(([id]) => id === 'other');
+    entries.splice(otherIndex === -1 ? entries.length : otherIndex, 0, [category, config]);
+    this.categories = new Map(entries);
+  }
+
+  /**
+   * Finds the definition of a tag
+   *
+   * A definition for the tag's group is preferred over one for every group.
+   *
+   * @param name - Tag name
+   * @param group - Group the tag was read from
+   * @returns Tag definition, or null for unknown tags
+   */
+  public static getDefinition(name: string, group: MetadataGroup): TagDefinition | null {
+    const definitions = this.tags.get(name) ?? [];
+    return definitions.find((definition) => definition.groups?.includes(group)) ??
+      definitions.find((definition) => !definition.groups) ??
+      null;
+  }
+
+  /**
+   * Returns the category a field is listed under
+   *
+   * @param name - Tag name
+   * @param group - Group the tag was read from
+   * @returns Category of the tag's definition, else the group's category, else "other"
+   */
+  public static getCategoryForField(name: string, group: MetadataGroup): MetadataCategory {
+    const category = this.getDefinition(name, group)?.category ?? GROUP_CATEGORIES[group];
+    return category && this.categories.has(category) ? category : 'other';
+  }
+
+  /**
+   * Returns the display configuration of a category
+   *
+   * @param category - Category ID
+   * @returns Label, icon and colour; those of "other" for unknown categories
+   */
+  public static getCategoryConfig(category: MetadataCategory): CategoryConfig {
+    return this.categories.get(category) ?? this.categories.get('other')!;
+  }
+
+  /**
+   * Returns every category in display order
+   *
+   * @returns Category IDs
+   */
+  public static getCategories(): MetadataCategory[] {
+    return Array.from(this.categories.keys());
+  }
+
+  /**
+   * Returns the human-readable name of a tag
+   *
+   * @param name - Tag name
+   * @param group - Group the tag was read from
+   * @returns Label of the definition, or the tag name split into words
+   */
+  public static getLabel(name: string, group: MetadataGroup): string {
+    return this.getDefinition(name, group)?.label ??
+      name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+  }
+
+  /**
+   * Formats a simple field value for display
+   *
+   * @param name - Tag name
+   * @param group - Group the tag was read from
+   * @param value - Cleaned value of the field
+   * @param tag - Raw tag behind the field, if any
+   * @returns Value passed through the definition's formatter, or with its unit
+   */
+  public static formatValue(name: string, group: MetadataGroup, value: string | number, tag?: RawTag): string {
+    const definition = this.getDefinition(name, group);
+    if (definition?.format) {
+      return definition.format(value, tag);
+    }
+    if (definition?.unit && /^-?\d+(\.\d+)?$/.test(String(value).trim())) {
+      return /^[°%]/.test(definition.unit) ? `${value}${definition.unit}` : `${value} ${definition.unit}`;
+    }
+    return String(value);
+  }
+
+  /**
+   * Groups entries by the category of their field, in display order
+   *
+   * @param entries - Key/field pairs to group
+   * @returns Categories with their entries; empty categories are omitted
+   */
+  public static groupByCategory<T extends { name: string; group: MetadataGroup }>(entries: Array<[string, T]>): Array<[MetadataCategory, Array<[string, T]>]> {
+    const grouped = new Map<MetadataCategory, Array<[string, T]>>();
+    entries.forEach((entry) => {
+      const category = this.getCategoryForField(entry[1].name, entry[1].group);
+      if (!grouped.has(category)) grouped.set(category, []);
+      grouped.get(category)!.push(entry);
+    });
+
+    return this.getCategories()
+      .filter((category) => grouped.has(category))
+      .map((category) => [category, grouped.get(category)!]);
+  }
+}
+
+TagRegistry.register(...BUILT_IN_TAGS);
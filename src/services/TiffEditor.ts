@@ -0,0 +1,499 @@
+/**
+ * Names of the image file directories (IFDs) found in EXIF TIFF structures
+ */
+export type IfdName = 'ifd0' | 'exif' | 'gps' | 'interop' | 'ifd1';
+
+/**
+ * A single directory entry with its value bytes
+ */
+export interface TiffEntry {
+  tag: number;               // Numeric tag ID (e.g. 0x013B for Artist)
+  type: number;              // TIFF field type (1 = BYTE, 2 = ASCII, 3 = SHORT, ...)
+  count: number;             // Number of values of the given type
+  data: Uint8Array;          // Value bytes in the file's byte order
+  dataOffset: number | null; // Original out-of-line offset, or null if inline or newly written
+  opaque?: boolean;          // Value lies outside the structure; data holds the original value/offset word, written back as is
+}
+
+/**
+ * Internal representation of a parsed IFD
+ */
+interface TiffIfd {
+  name: IfdName;
+  offset: number;         // Offset of the directory within the TIFF structure, or 0 if added by an edit
+  originalCount: number;  // Number of entries the directory had when parsed
+  entries: TiffEntry[];
+  dirty: boolean;         // Whether the directory has to be written back
+}
+
+/**
+ * Byte sizes of the TIFF field types, indexed by type number
+ */
+export const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4
+};
+
+/**
+ * Tags that point to a child IFD, keyed by the child IFD name
+ */
+const POINTER_TAGS: Record<'exif' | 'gps' | 'interop', { parent: IfdName; tag: number }> = {
+  exif: { parent: 'ifd0', tag: 0x8769 },
+  gps: { parent: 'ifd0', tag: 0x8825 },
+  interop: { parent: 'exif', tag: 0xA005 }
+};
+
+// Thumbnail location tags in IFD1
+const THUMBNAIL_OFFSET_TAG = 0x0201;
+const THUMBNAIL_LENGTH_TAG = 0x0202;
+
+/**
+ * Editor for the TIFF structure embedded in EXIF segments
+ *
+ * Edits are applied in place wherever possible: removed entries are dropped
+ * from their directory and their value bytes are zeroed, but nothing else
+ * moves. Directories that grow and values that no longer fit are appended at
+ * the end of the structure. Because existing offsets stay valid, vendor
+ * MakerNotes that reference absolute offsets keep working after an edit.
+ */
+export class TiffEditor {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly littleEndian: boolean;
+  private readonly ifds = new Map<IfdName, TiffIfd>();
+  private readonly zeroRanges: Array<[number, number]> = [];
+  private headerDirty = false;
+
+  /**
+   * Parses the TIFF header and all standard IFDs
+   *
+   * @param tiff - TIFF structure (e.g. the payload of an Exif APP1 segment after its identifier)
+   * @throws Error if the header is malformed
+   */
+  constructor(tiff: Uint8Array) {
+    this.bytes = new Uint8Array(tiff);
+    this.view = new DataView(this.bytes.buffer);
+
+    const byteOrder = String.fromCharCode(this.bytes[0], this.bytes[1]);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      throw new Error('Invalid TIFF byte order mark');
+    }
+    this.littleEndian = byteOrder === 'II';
+
+    if (this.view.getUint16(2, this.littleEndian) !== 42) {
+      throw new Error('Invalid TIFF magic number');
+    }
+
+    const ifd0 = this.readIfd('ifd0', this.view.getUint32(4, this.littleEndian));
+    if (!ifd0) {
+      throw new Error('TIFF structure has no readable IFD0');
+    }
+
+    // Follow the sub-IFD pointers that EXIF uses
+    (Object.keys(POINTER_TAGS) as Array<keyof typeof POINTER_TAGS>).forEach((name) => {
+      const { parent, tag } = POINTER_TAGS[name];
+      const entry = this.getEntry(parent, tag);
+      if (entry) {
+        this.readIfd(name, this.readUint32(entry.data, 0));
+      }
+    });
+
+    // IFD1 (thumbnail) is chained after IFD0
+    const nextOffset = this.view.getUint32(ifd0.offset + 2 + ifd0.originalCount * 12, this.littleEndian);
+    if (nextOffset) {
+      this.readIfd('ifd1', nextOffset);
+    }
+  }
+
+  /**
+   * Creates an editor for a new, empty TIFF structure with only IFD0
+   *
+   * @param littleEndian - Byte order to use; big-endian ("MM") by default
+   * @returns Editor for the empty structure
+   */
+  public static create(littleEndian = false): TiffEditor {
+    const bytes = new Uint8Array(14);
+    const view = new DataView(bytes.buffer);
+    bytes.set(littleEndian ? [0x49, 0x49] : [0x4D, 0x4D]);
+    view.setUint16(2, 42, littleEndian);
+    view.setUint32(4, 8, littleEndian); // IFD0 directly after the header, with no entries and no next IFD
+    return new TiffEditor(bytes);
+  }
+
+  /**
+   * Whether the structure uses little-endian ("II") byte order
+   */
+  public get isLittleEndian(): boolean {
+    return this.littleEndian;
+  }
+
+  /**
+   * Checks whether an IFD is present
+   *
+   * @param name - IFD to check
+   * @returns True if the IFD was found while parsing and has not been removed
+   */
+  public hasIfd(name: IfdName): boolean {
+    return this.ifds.has(name);
+  }
+
+  /**
+   * Returns the entries of an IFD
+   *
+   * @param name - IFD to read
+   * @returns The directory entries, or an empty array if the IFD is absent
+   */
+  public getEntries(name: IfdName): readonly TiffEntry[] {
+    return this.ifds.get(name)?.entries ?? [];
+  }
+
+  /**
+   * Looks up a single entry
+   *
+   * @param name - IFD containing the tag
+   * @param tag - Numeric tag ID
+   * @returns The entry, or undefined if it is not present
+   */
+  public getEntry(name: IfdName, tag: number): TiffEntry | undefined {
+    return this.ifds.get(name)?.entries.find((entry) => entry.tag === tag);
+  }
+
+  /**
+   * Removes a tag from an IFD and wipes its value bytes
+   *
+   * Removing a pointer tag (ExifIFD, GPS or Interop) removes the whole child IFD.
+   *
+   * @param name - IFD containing the tag
+   * @param tag - Numeric tag ID
+   * @returns True if the tag was present
+   */
+  public removeTag(name: IfdName, tag: number): boolean {
+    const ifd = this.ifds.get(name);
+    const index = ifd ? ifd.entries.findIndex((entry) => entry.tag === tag) : -1;
+    if (!ifd || index < 0) return false;
+
+    const childName = (Object.keys(POINTER_TAGS) as Array<keyof typeof POINTER_TAGS>)
+      .find((child) => POINTER_TAGS[child].parent === name && POINTER_TAGS[child].tag === tag);
+    if (childName) {
+      this.wipeIfd(childName);
+    }
+
+    const [entry] = ifd.entries.splice(index, 1);
+    this.wipeEntry(entry);
+    ifd.dirty = true;
+    return true;
+  }
+
+  /**
+   * Removes an entire IFD, its values and the pointer that references it
+   *
+   * @param name - IFD to remove; IFD0 cannot be removed
+   * @returns True if the IFD was present
+   */
+  public removeIfd(name: Exclude<IfdName, 'ifd0'>): boolean {
+    if (!this.ifds.has(name)) return false;
+
+    if (name === 'ifd1') {
+      this.wipeIfd('ifd1');
+      const ifd0 = this.ifds.get('ifd0');
+      if (ifd0) ifd0.dirty = true;
+      return true;
+    }
+
+    const { parent, tag } = POINTER_TAGS[name];
+    return this.removeTag(parent, tag);
+  }
+
+  /**
+   * Adds an empty child IFD and the pointer tag that references it
+   *
+   * @param name - IFD to add; does nothing if it is already present
+   */
+  public addIfd(name: 'exif' | 'gps'): void {
+    if (this.ifds.has(name)) return;
+
+    const { parent, tag } = POINTER_TAGS[name];
+    this.ifds.set(name, { name, offset: 0, originalCount: 0, entries: [], dirty: true });
+    // The real offset is filled in when the directory is placed
+    this.setTag(parent, tag, 4, 1, this.encodeUint32(0));
+  }
+
+  /**
+   * Adds or replaces a tag value
+   *
+   * @param name - IFD to write to; it must already exist
+   * @param tag - Numeric tag ID
+   * @param type - TIFF field type
+   * @param count - Number of values
+   * @param data - Value bytes in the structure's byte order
+   * @throws Error if the IFD does not exist or the data size does not match type and count
+   */
+  public setTag(name: IfdName, tag: number, type: number, count: number, data: Uint8Array): void {
+    const ifd = this.ifds.get(name);
+    if (!ifd) {
+      throw new Error(`Cannot write tag 0x${tag.toString(16)}: ${name} IFD is not present`);
+    }
+    if (data.length !== (TIFF_TYPE_SIZES[type] ?? 1) * count) {
+      throw new Error(`Value size for tag 0x${tag.toString(16)} does not match its type and count`);
+    }
+
+    const existing = ifd.entries.find((entry) => entry.tag === tag);
+    if (existing) {
+      // Reuse the original storage when the new value fits into it
+      const previousLength = existing.data.length;
+      const fitsInPlace = existing.dataOffset !== null && data.length > 4 && data.length <= previousLength;
+      if (fitsInPlace) {
+        this.zeroRanges.push([existing.dataOffset! + data.length, existing.dataOffset! + previousLength]);
+      } else {
+        this.wipeEntry(existing);
+        existing.dataOffset = null;
+      }
+      existing.type = type;
+      existing.count = count;
+      existing.data = data;
+      existing.opaque = false;
+    } else {
+      ifd.entries.push({ tag, type, count, data, dataOffset: null });
+    }
+    ifd.dirty = true;
+  }
+
+  /**
+   * Encodes an unsigned 16-bit value in the structure's byte order
+   */
+  public encodeUint16(value: number): Uint8Array {
+    const out = new Uint8Array(2);
+    new DataView(out.buffer).setUint16(0, value, this.littleEndian);
+    return out;
+  }
+
+  /**
+   * Encodes an unsigned 32-bit value in the structure's byte order
+   */
+  public encodeUint32(value: number): Uint8Array {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, value, this.littleEndian);
+    return out;
+  }
+
+  /**
+   * Encodes text as a NUL-terminated ASCII value
+   *
+   * @param text - Text containing only ASCII characters
+   */
+  public encodeAscii(text: string): Uint8Array {
+    const out = new Uint8Array(text.length + 1);
+    for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0x7F;
+    return out;
+  }
+
+  /**
+   * Encodes unsigned rationals in the structure's byte order
+   *
+   * @param values - Numerator and denominator pairs
+   */
+  public encodeRationals(values: Array<[number, number]>): Uint8Array {
+    const out = new Uint8Array(values.length * 8);
+    const view = new DataView(out.buffer);
+    values.forEach(([numerator, denominator], index) => {
+      view.setUint32(index * 8, numerator, this.littleEndian);
+      view.setUint32(index * 8 + 4, denominator, this.littleEndian);
+    });
+    return out;
+  }
+
+  /**
+   * Reads an unsigned 32-bit value from value bytes in the structure's byte order
+   */
+  public readUint32(data: Uint8Array, offset: number): number {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, this.littleEndian);
+  }
+
+  /**
+   * Serializes the edited structure
+   *
+   * @returns The new TIFF bytes
+   */
+  public toBytes(): Uint8Array {
+    const appended: Array<{ offset: number; data: Uint8Array }> = [];
+    let end = this.bytes.length + (this.bytes.length % 2);
+
+    // Reserves space at the end of the structure, keeping word alignment
+    const allocate = (data: Uint8Array): number => {
+      const offset = end;
+      appended.push({ offset, data });
+      end += data.length + (data.length % 2);
+      return offset;
+    };
+
+    // Decide where each directory lives before writing pointers to it
+    const placements = new Map<IfdName, number>();
+    this.ifds.forEach((ifd) => {
+      const isNew = ifd.offset === 0;
+      const grows = ifd.entries.length > ifd.originalCount;
+      placements.set(ifd.name, isNew || grows ? allocate(new Uint8Array(2 + ifd.entries.length * 12 + 4)) : ifd.offset);
+      if (grows && !isNew) {
+        this.zeroRanges.push([ifd.offset, ifd.offset + 2 + ifd.originalCount * 12 + 4]);
+      }
+      if (isNew || grows) {
+        ifd.dirty = true;
+        if (ifd.name === 'ifd0') this.headerDirty = true;
+      }
+    });
+
+    // Point parents at their (possibly relocated) children
+    (Object.keys(POINTER_TAGS) as Array<keyof typeof POINTER_TAGS>).forEach((name) => {
+      const childOffset = placements.get(name);
+      const { parent, tag } = POINTER_TAGS[name];
+      const entry = this.getEntry(parent, tag);
+      if (childOffset === undefined || !entry) return;
+      if (this.readUint32(entry.data, 0) !== childOffset) {
+        entry.data = this.encodeUint32(childOffset);
+        this.ifds.get(parent)!.dirty = true;
+      }
+    });
+
+    // Place new out-of-line values
+    this.ifds.forEach((ifd) => {
+      ifd.entries.forEach((entry) => {
+        if (entry.dataOffset === null && entry.data.length > 4) {
+          entry.dataOffset = allocate(entry.data);
+        }
+      });
+    });
+
+    const output = new Uint8Array(end);
+    output.set(this.bytes);
+    const view = new DataView(output.buffer);
+
+    this.zeroRanges.forEach(([start, stop]) => output.fill(0, start, Math.min(stop, this.bytes.length)));
+    appended.forEach(({ offset, data }) => output.set(data, offset));
+
+    if (this.headerDirty) {
+      view.setUint32(4, placements.get('ifd0')!, this.littleEndian);
+    }
+
+    this.ifds.forEach((ifd) => {
+      if (!ifd.dirty) return;
+      const offset = placements.get(ifd.name)!;
+      const entries = [...ifd.entries].sort((a, b) => a.tag - b.tag);
+
+      view.setUint16(offset, entries.length, this.littleEndian);
+      entries.forEach((entry, index) => {
+        const position = offset + 2 + index * 12;
+        view.setUint16(position, entry.tag, this.littleEndian);
+        view.setUint16(position + 2, entry.type, this.littleEndian);
+        view.setUint32(position + 4, entry.count, this.littleEndian);
+        output.fill(0, position + 8, position + 12);
+        if (entry.data.length <= 4) {
+          output.set(entry.data, position + 8);
+        } else {
+          view.setUint32(position + 8, entry.dataOffset!, this.littleEndian);
+          output.set(entry.data, entry.dataOffset!);
+        }
+      });
+
+      // Next-IFD pointer: only IFD0 chains to another directory
+      const nextPosition = offset + 2 + entries.length * 12;
+      const next = ifd.name === 'ifd0' ? placements.get('ifd1') ?? 0 : 0;
+      view.setUint32(nextPosition, next, this.littleEndian);
+
+      // Clear the slack left behind by removed entries
+      const originalEnd = ifd.offset + 2 + ifd.originalCount * 12 + 4;
+      if (offset === ifd.offset && nextPosition + 4 < originalEnd) {
+        output.fill(0, nextPosition + 4, originalEnd);
+      }
+    });
+
+    return output;
+  }
+
+  /**
+   * Reads a directory and its values from the original bytes
+   *
+   * @param name - Name to register the IFD under
+   * @param offset - Directory offset within the structure
+   * @returns The parsed IFD, or null if the offset is out of range
+   */
+  private readIfd(name: IfdName, offset: number): TiffIfd | null {
+    if (offset < 8 || offset + 2 > this.bytes.length) return null;
+
+    const count = this.view.getUint16(offset, this.littleEndian);
+    if (offset + 2 + count * 12 + 4 > this.bytes.length) return null;
+
+    const entries: TiffEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const position = offset + 2 + i * 12;
+      const tag = this.view.getUint16(position, this.littleEndian);
+      const type = this.view.getUint16(position + 2, this.littleEndian);
+      const valueCount = this.view.getUint32(position + 4, this.littleEndian);
+      const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount;
+
+      if (size <= 4) {
+        entries.push({ tag, type, count: valueCount, data: this.bytes.slice(position + 8, position + 8 + size), dataOffset: null });
+        continue;
+      }
+
+      const dataOffset = this.view.getUint32(position + 8, this.littleEndian);
+      if (dataOffset + size > this.bytes.length) {
+        // The value cannot be read, but the entry is kept so rewriting the directory does not lose it
+        entries.push({ tag, type, count: valueCount, data: this.bytes.slice(position + 8, position + 12), dataOffset: null, opaque: true });
+        continue;
+      }
+      entries.push({ tag, type, count: valueCount, data: this.bytes.slice(dataOffset, dataOffset + size), dataOffset });
+    }
+
+    const ifd: TiffIfd = { name, offset, originalCount: count, entries, dirty: false };
+    this.ifds.set(name, ifd);
+    return ifd;
+  }
+
+  /**
+   * Reads the first value of an offset or length entry
+   *
+   * @param entry - Entry of type SHORT or LONG
+   * @returns The value, or null for other types and unreadable values
+   */
+  private readOffsetValue(entry: TiffEntry): number | null {
+    if (entry.opaque) return null;
+    const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength);
+    if (entry.type === 3 && entry.data.length >= 2) return view.getUint16(0, this.littleEndian);
+    if (entry.type === 4 && entry.data.length >= 4) return view.getUint32(0, this.littleEndian);
+    return null;
+  }
+
+  /**
+   * Marks the out-of-line value bytes of an entry for zeroing
+   */
+  private wipeEntry(entry: TiffEntry): void {
+    if (entry.dataOffset !== null) {
+      this.zeroRanges.push([entry.dataOffset, entry.dataOffset + entry.data.length]);
+    }
+  }
+
+  /**
+   * Marks a whole IFD, its values and any children for zeroing and forgets it
+   */
+  private wipeIfd(name: IfdName): void {
+    const ifd = this.ifds.get(name);
+    if (!ifd) return;
+
+    if (name === 'exif') this.wipeIfd('interop');
+
+    // The thumbnail image is referenced by value, not by an entry offset
+    if (name === 'ifd1') {
+      const start = this.getEntry('ifd1', THUMBNAIL_OFFSET_TAG);
+      const length = this.getEntry('ifd1', THUMBNAIL_LENGTH_TAG);
+      const from = start && this.readOffsetValue(start);
+      const size = length && this.readOffsetValue(length);
+      if (typeof from === 'number' && typeof size === 'number') {
+        this.zeroRanges.push([from, from + size]);
+      }
+    }
+
+    ifd.entries.forEach((entry) => this.wipeEntry(entry));
+    if (ifd.offset !== 0) {
+      this.zeroRanges.push([ifd.offset, ifd.offset + 2 + ifd.originalCount * 12 + 4]);
+    }
+    this.ifds.delete(name);
+  }
+}
@@ -0,0 +1,86 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { GeoPoint } from './MapProviderService';
+
+const DAY_MS = 86400000;
+
+/**
+ * UTC offset of a time zone at a given moment
+ */
+export interface ZoneOffset {
+  minutes: number;  // Minutes east of UTC
+  dst: boolean;     // Whether daylight saving time is in effect
+}
+
+/**
+ * Service class for offline time zone lookups
+ *
+ * Time zone boundaries come from a compact dataset bundled with the app;
+ * offsets, including daylight saving time, come from the time zone rules
+ * built into the JavaScript runtime. Neither needs a network connection.
+ */
+export class TimeZoneService {
+  /**
+   * Finds the IANA time zone at a position
+   *
+   * Positions at sea get the nautical zone for their longitude (e.g. "Etc/GMT+5").
+   *
+   * @param point - Position to look up
+   * @returns Time zone name such as "Europe/Paris", or null for invalid coordinates
+   */
+  public static lookup(point: GeoPoint): string | null {
+    try {
+      return tzLookup(point.latitude, point.longitude);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Finds the UTC offset a time zone had for a local date and time
+   *
+   * Wall-clock times that occur twice when clocks go back resolve to the
+   * earlier moment; times skipped when clocks go forward use the offset
+   * from before the change.
+   *
+   * @param zone - IANA time zone name
+   * @param localMs - Local date and time in milliseconds, read as if it were UTC
+   * @returns Offset and daylight saving state, or null if the runtime does not know the zone
+   */
+  public static getOffsetAt(zone: string, localMs: number): ZoneOffset | null {
+    try {
+      // Offsets from a day before and after cover both sides of any clock change near the time
+      const before = this.offsetMinutes(zone, localMs - DAY_MS);
+      const after = this.offsetMinutes(zone, localMs + DAY_MS);
+      // An offset fits if the instant it gives has that offset; the larger one gives the earlier instant
+      const fitting = [Math.max(before, after), Math.min(before, after)]
+        .find((offset) => this.offsetMinutes(zone, localMs - offset * 60000) === offset);
+      const minutes = fitting ?? before;
+
+      // Standard time is the smaller of the midwinter and midsummer offsets, whichever hemisphere the zone is in
+      const year = new Date(localMs).getUTCFullYear();
+      const standard = Math.min(this.offsetMinutes(zone, Date.UTC(year, 0, 1)), this.offsetMinutes(zone, Date.UTC(year, 6, 1)));
+      return { minutes, dst: minutes > standard };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reads the UTC offset of a time zone at an instant
+   *
+   * @param zone - IANA time zone name
+   * @param utcMs - Instant in milliseconds since the epoch
+   * @returns Minutes east of UTC
+   * @throws RangeError if the zone is unknown
+   */
+  private static offsetMinutes(zone: string, utcMs: number): number {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'longOffset' })
+      .formatToParts(utcMs)
+      .find((part) => part.type === 'timeZoneName')?.value ?? '';
+
+    // "GMT+05:30", or plain "GMT" at UTC
+    const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+    if (!match) return 0;
+    return (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10));
+  }
+}
@@ -0,0 +1,92 @@
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+
+/**
+ * Longitude/latitude bounds of a map view, in degrees
+ */
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// SVG paths of the country outlines, decoded once per session
+let countryPaths: Promise<string[]> | null = null;
+
+/**
+ * Service class for the bundled world outline used by the offline map
+ *
+ * Country shapes come from Natural Earth (1:110m) and are loaded on first
+ * use so they do not weigh on the initial bundle. Shapes are projected with
+ * the equirectangular projection: x is the longitude and y the negated
+ * latitude, so an SVG viewBox can be given directly in degrees.
+ */
+export class WorldOutlineService {
+  /**
+   * Loads the country outlines as SVG path data
+   *
+   * @returns One path per country
+   */
+  public static loadCountryPaths(): Promise<string[]> {
+    countryPaths ??= import('world-atlas/countries-110m.json').then(({ default: data }) => {
+      const topology = data as unknown as Topology<{ countries: GeometryCollection }>;
+      return feature(topology, topology.objects.countries).features.flatMap(({ geometry }) => {
+        if (geometry?.type === 'Polygon') return [this.toPath([geometry.coordinates])];
+        if (geometry?.type === 'MultiPolygon') return [this.toPath(geometry.coordinates)];
+        return [];
+      });
+    });
+    return countryPaths;
+  }
+
+  /**
+   * Computes the view around a location with a given span
+   *
+   * The view is moved rather than cropped at the poles so it always has the
+   * requested size.
+   *
+   * @param latitude - Latitude at the center
+   * @param longitude - Longitude at the center
+   * @param span - Width of the view in degrees; the height is half of it
+   * @returns Bounds of the view
+   */
+  public static getBounds(latitude: number, longitude: number, span: number): MapBounds {
+    const halfHeight = Math.min(span / 4, 90);
+    const north = Math.min(90, Math.max(-90 + 2 * halfHeight, latitude + halfHeight));
+    return {
+      west: longitude - span / 2,
+      south: north - 2 * halfHeight,
+      east: longitude + span / 2,
+      north
+    };
+  }
+
+  /**
+   * Converts view bounds to an SVG viewBox
+   *
+   * @param bounds - Bounds in degrees
+   * @returns viewBox attribute value
+   */
+  public static toViewBox({ west, south, east, north }: MapBounds): string {
+    return `${west} ${-north} ${east - west} ${north - south}`;
+  }
+
+  /**
+   * Projects polygons to SVG path data
+   *
+   * Rings that cross the antimeridian are split where they jump from one
+   * side of the map to the other, so no line is drawn across the world.
+   *
+   * @param polygons - Polygons as lists of [longitude, latitude] rings
+   * @returns Path data
+   */
+  private static toPath(polygons: number[][][][]): string {
+    return polygons.flat().map((ring) =>
+      ring.map(([lon, lat], index) => {
+        const jump = index > 0 && Math.abs(lon - ring[index - 1][0]) > 180;
+        return `${index === 0 || jump ? 'M' : 'L'}${lon.toFixed(2)},${(-lat).toFixed(2)}`;
+      }).join('')
+    ).join('');
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Well-known XMP namespace URIs
+ */
+export const XMP_NAMESPACES = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  x: 'adobe:ns:meta/',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  xmpMM: 'http://ns.adobe.com/xap/1.0/mm/',
+  xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  exifEX: 'http://cipa.jp/exif/1.0/',
+  aux: 'http://ns.adobe.com/exif/1.0/aux/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  Iptc4xmpCore: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/',
+  Iptc4xmpExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/'
+} as const;
+
+/**
+ * Describes a set of XMP properties by namespace and local name
+ */
+export interface XmpPropertyMatcher {
+  namespace: string;   // Namespace URI of the property
+  names?: string[];    // Exact local names to match
+  prefix?: string;     // Matches every local name starting with this prefix
+}
+
+/**
+ * A property value to write into an XMP packet
+ */
+export interface XmpPropertyValue {
+  namespace: string;                 // Namespace URI of the property
+  prefix: string;                    // Prefix to declare if the packet has none for the namespace
+  name: string;                      // Local name
+  value: string | string[] | null;   // Text, array items, or null to remove the property
+  container?: 'Seq' | 'Bag' | 'Alt'; // RDF container for array and language-alternative properties
+}
+
+// Packet wrapper used when an image has no XMP yet
+const EMPTY_PACKET =
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+  `<x:xmpmeta xmlns:x="${XMP_NAMESPACES.x}">` +
+  `<rdf:RDF xmlns:rdf="${XMP_NAMESPACES.rdf}"><rdf:Description rdf:about=""/></rdf:RDF>` +
+  '</x:xmpmeta>' +
+  '<?xpacket end="w"?>';
+
+/**
+ * Utility class for editing XMP packets
+ *
+ * Relies on the browser's DOMParser and XMLSerializer so packets are edited
+ * structurally rather than with text substitution.
+ */
+export class XmpEditor {
+  /**
+   * Removes properties from an XMP packet
+   *
+   * Properties are matched whether they are written as attributes of an
+   * rdf:Description (short form) or as child elements (long form).
+   *
+   * @param packet - XMP packet text
+   * @param matchers - Properties to remove
+   * @returns The rewritten packet
+   * @throws Error if the packet is not well-formed XML
+   */
+  public static removeProperties(packet: string, matchers: XmpPropertyMatcher[]): string {
+    const document = this.parse(packet);
+    const descriptions = Array.from(document.getElementsByTagNameNS(XMP_NAMESPACES.rdf, 'Description'));
+
+    descriptions.forEach((description) => {
+      Array.from(description.attributes).forEach((attribute) => {
+        if (this.matches(attribute.namespaceURI, attribute.localName, matchers)) {
+          description.removeAttributeNode(attribute);
+        }
+      });
+
+      Array.from(description.children).forEach((child) => {
+        if (this.matches(child.namespaceURI, child.localName, matchers)) {
+          description.removeChild(child);
+        }
+      });
+    });
+
+    return new XMLSerializer().serializeToString(document);
+  }
+
+  /**
+   * Writes property values into an XMP packet
+   *
+   * Existing values are removed wherever they appear, then the new values are
+   * added as elements of the first rdf:Description, reusing the prefix the
+   * packet already declares for the namespace.
+   *
+   * @param packet - XMP packet text
+   * @param properties - Values to write
+   * @returns The rewritten packet
+   * @throws Error if the packet is not well-formed XML or has no rdf:RDF element
+   */
+  public static setProperties(packet: string, properties: XmpPropertyValue[]): string {
+    const document = this.parse(packet);
+    const rdf = XMP_NAMESPACES.rdf;
+
+    let descriptions = Array.from(document.getElementsByTagNameNS(rdf, 'Description'));
+    if (descriptions.length === 0) {
+      const root = document.getElementsByTagNameNS(rdf, 'RDF')[0];
+      if (!root) throw new Error('XMP packet has no rdf:RDF element');
+      const description = document.createElementNS(rdf, `${root.prefix ?? 'rdf'}:Description`);
+      description.setAttributeNS(rdf, `${root.prefix ?? 'rdf'}:about`, '');
+      root.appendChild(description);
+      descriptions = [description];
+    }
+
+    // Drop old values first so a property is never written twice
+    descriptions.forEach((description) => {
+      properties.forEach(({ namespace, name }) => {
+        description.removeAttributeNS(namespace, name);
+        Array.from(description.children)
+          .filter((child) => child.namespaceURI === namespace && child.localName === name)
+          .forEach((child) => description.removeChild(child));
+      });
+    });
+
+    const target = descriptions[0];
+    const rdfPrefix = target.prefix ?? 'rdf';
+    properties.forEach(({ namespace, prefix, name, value, container }) => {
+      const items = value === null ? [] : Array.isArray(value) ? value : [value];
+      if (items.length === 0 || items.every((item) => item === '')) return;
+
+      const element = document.createElementNS(namespace, `${target.lookupPrefix(namespace) ?? prefix}:${name}`);
+      if (!container) {
+        element.textContent = items[0];
+      } else {
+        const list = document.createElementNS(rdf, `${rdfPrefix}:${container}`);
+        items.forEach((item) => {
+          const li = document.createElementNS(rdf, `${rdfPrefix}:li`);
+          // Language alternatives need a default language
+          if (container === 'Alt') li.setAttribute('xml:lang', 'x-default');
+          li.textContent = item;
+          list.appendChild(li);
+        });
+        element.appendChild(list);
+      }
+      target.appendChild(element);
+    });
+
+    return new XMLSerializer().serializeToString(document);
+  }
+
+  /**
+   * Creates an empty XMP packet to write properties into
+   *
+   * @returns Packet text with a single empty rdf:Description
+   */
+  public static createPacket(): string {
+    return EMPTY_PACKET;
+  }
+
+  /**
+   * Formats a decimal coordinate as XMP GPSCoordinate ("DDD,MM.mmmmmmK")
+   *
+   * @param decimal - Signed decimal degrees
+   * @param positive - Hemisphere letter for positive values
+   * @param negative - Hemisphere letter for negative values
+   * @returns Degrees and decimal minutes followed by the hemisphere letter
+   */
+  public static formatCoordinate(decimal: number, positive: string, negative: string): string {
+    const absolute = Math.abs(decimal);
+    const degrees = Math.floor(absolute);
+    const minutes = (absolute - degrees) * 60;
+    return `${degrees},${minutes.toFixed(6)}${decimal < 0 ? negative : positive}`;
+  }
+
+  /**
+   * Parses an XMP packet into an XML document
+   *
+   * @param packet - XMP packet text
+   * @returns The parsed document
+   * @throws Error if the packet is not well-formed XML
+   */
+  public static parse(packet: string): Document {
+    // Some writers leave NUL padding after the closing packet wrapper
+    const trimmed = packet.replace(/\0+$/, '');
+    const document = new DOMParser().parseFromString(trimmed, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('XMP packet is not well-formed XML');
+    }
+    return document;
+  }
+
+  /**
+   * Checks a property name against a list of matchers
+   */
+  private static matches(namespace: string | null, localName: string, matchers: XmpPropertyMatcher[]): boolean {
+    return matchers.some((matcher) =>
+      matcher.namespace === namespace &&
+      ((matcher.names?.includes(localName) ?? false) ||
+        (matcher.prefix !== undefined && localName.startsWith(matcher.prefix)))
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Web worker that reads and parses image metadata off the main thread
+ *
+ * The worker receives a File, reads its metadata segments while reporting
+ * progress, parses them with MetadataService and posts the result back.
+ * Web workers have no DOMParser, so xmldom is supplied for XMP parsing.
+ * The nearest place is added by MetadataWorkerClient on the main thread.
+ */
+
+import { DOMParser, onErrorStopParsing } from '@xmldom/xmldom';
+import { MetadataService } from '../services/MetadataService';
+import { SegmentReader } from '../services/SegmentReader';
+import { MetadataWorkerRequest, MetadataWorkerResponse, ParseProgress } from '../services/MetadataWorkerClient';
+
+/**
+ * Posts a typed message to the main thread
+ *
+ * @param message - Message to send
+ */
+const post = (message: MetadataWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<MetadataWorkerRequest>) => {
+  const { file } = event.data;
+
+  try {
+    const metadataBuffer = await SegmentReader.readMetadataBuffer(file, (read, totalBytes) => {
+      post({ type: 'progress', progress: { stage: 'reading', bytesRead: read, totalBytes } });
+    });
+
+    const parsing: ParseProgress = { stage: 'parsing', bytesRead: metadataBuffer.bytesRead, totalBytes: file.size };
+    post({ type: 'progress', progress: parsing });
+
+    const metadata = MetadataService.parseMetadataBuffer(metadataBuffer, {
+      domParser: new DOMParser({ onError: onErrorStopParsing })
+    });
+    post({ type: 'result', metadata });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to parse metadata' });
+  }
+};
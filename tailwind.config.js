@@ -1,6 +1,13 @@
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // Metadata category accents are built from the colour names in TagRegistry
+  safelist: [
+    {
+      pattern: /^(text|bg)-(red|indigo|blue|green|purple|orange|teal|gray)-(50|100|500|700)$/,
+      variants: ['hover'],
+    },
+  ],
   theme: {
     extend: {},
   },
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line tool as a single Node script with its dependencies bundled
+export default defineConfig({
+  publicDir: false,
+  ssr: {
+    noExternal: true,
+  },
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'exif-parser.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
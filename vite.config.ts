@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // The parsing worker is a module worker and lazily loads the gazetteer as a separate chunk
+  worker: {
+    format: 'es',
+  },
 });